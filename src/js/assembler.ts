@@ -0,0 +1,972 @@
+/*
+The purpose of this file is to implement the assembler of the RISC-V runtime
+simulator. It turns the text of a program into instructions and data which can
+be loaded into a Machine, and doesn't depend on the page.
+*/
+import {
+  COMPRESSED_INSTRUCTION_TO_INFO,
+  CompressedInstructionInfo,
+  compressInstruction,
+  compressedOperandProblem,
+  encodeCompressedInstruction,
+  instructionLengthOf,
+} from "./compressed-instructions.js";
+import { ROUNDING_MODE_NAMES, RoundingMode, singleToBits } from "./floating-point.js";
+import { LexedLine, Token, lexLine, parseBigIntegerLiteral, parseFloatLiteral, parseIntegerLiteral } from "./lexer.js";
+import { PSEUDO_INSTRUCTION_TO_INFO, PseudoInstructionInfo } from "./pseudo-instructions.js";
+import {
+  ADDRESS_MODIFIER_REGEX,
+  B_TYPE,
+  Base,
+  COMPRESSED_INSTRUCTION_LENGTH,
+  CSR_IMMEDIATE_TYPE,
+  CSR_TYPE,
+  DEFAULT_EXTENSIONS,
+  DEFAULT_MEMORY_SIZE,
+  Diagnostic,
+  Extension,
+  FLOAT_COMPARE_TYPE,
+  FLOAT_LOAD_TYPE,
+  FLOAT_R4_TYPE,
+  FLOAT_R_TYPE,
+  FLOAT_STORE_TYPE,
+  FLOAT_TO_INTEGER_TYPE,
+  FLOAT_UNARY_TYPE,
+  I_TYPE,
+  ImmediateField,
+  IGNORED_DIRECTIVES,
+  INSTRUCTION_LENGTH,
+  INTEGER_TO_FLOAT_TYPE,
+  INSTRUCTION_TO_INFO,
+  INTEGER_DIRECTIVE_SIZES,
+  InstructionInfo,
+  InstructionInput,
+  J_TYPE,
+  LABEL_NAME_REGEX,
+  MEMORY_ACCESS_OPCODES,
+  MEMORY_OPERAND_REGEX,
+  MemorySegment,
+  NONE_TYPE,
+  OperandType,
+  PC_RELATIVE_OPCODES,
+  ParserResult,
+  ParserStatus,
+  R_TYPE,
+  S_TYPE,
+  SECTION_DIRECTIVES,
+  STRING_DIRECTIVES,
+  STRING_ESCAPES,
+  STRINGS_TO_CSRS,
+  STRINGS_TO_FLOAT_REGISTERS,
+  STRINGS_TO_REGISTERS,
+  Section,
+  Severity,
+  TEXT_SEGMENT_BASE,
+  U_TYPE,
+  XLEN,
+  dataSegmentBase,
+  decimalToTwosComplement,
+  immediateFieldOf,
+  lowerImmediate,
+  toLittleEndianBytes,
+  truncateImmediate,
+  upperImmediate,
+  zeroExtend,
+} from "./utils.js";
+
+/*** Constants ***/
+// Compressing instructions moves the labels after them, which can change what else compresses, so the
+// layout is worked out again until it settles, giving up on compression if it takes more passes than this
+const MAX_LAYOUT_PASSES: number = 8;
+// .align skips to a multiple of 2 to the power of at most this, a 4 KiB boundary
+const MAX_ALIGNMENT_POWER: number = 12;
+
+/*** Types ***/
+// A word of the data segment holding the address of a label, filled in once every label is known
+interface WordFixup {
+  offset: number; // byte offset of the word within the data segment
+  label: Token;
+  lineNumber: number;
+}
+
+/*** Functions ***/
+function createDiagnostic(
+  severity: Severity,
+  lineNumber: number | undefined,
+  message: string,
+  token: Token | undefined,
+): { diagnostic: Diagnostic; text: string } {
+  /**
+   * Describes a problem with the program both as a diagnostic, which the editor
+   * can underline, and as a line of text naming where the problem is.
+   *
+   * @param severity - Whether the problem is an error or a warning
+   * @param lineNumber - The line the problem is on, or undefined if it concerns the whole program
+   * @param message - A description of the problem
+   * @param token - The part of the line the problem concerns, or undefined for the whole line
+   */
+  const diagnostic: Diagnostic = {
+    severity: severity,
+    line: lineNumber,
+    column: token?.column,
+    length: token != undefined ? token.text.length : 0,
+    message: message,
+  };
+  if (lineNumber == undefined) {
+    return { diagnostic: diagnostic, text: `${message}\n` };
+  } else if (token == undefined) {
+    return { diagnostic: diagnostic, text: `Line ${lineNumber}: ${message}\n` };
+  }
+  return { diagnostic: diagnostic, text: `Line ${lineNumber}, column ${token.column}: ${message}\n` };
+}
+
+function appendParsingError(
+  parsingResult: ParserResult,
+  lineNumber: number | undefined,
+  message: string,
+  token: Token | undefined = undefined,
+): void {
+  const { diagnostic, text } = createDiagnostic(Severity.ERROR, lineNumber, message, token);
+  parsingResult.status = ParserStatus.ERR;
+  parsingResult.diagnostics.push(diagnostic);
+  parsingResult.errMessage += text;
+}
+
+function appendParsingWarning(
+  parsingResult: ParserResult,
+  lineNumber: number,
+  message: string,
+  token: Token,
+): void {
+  const { diagnostic, text } = createDiagnostic(Severity.WARNING, lineNumber, message, token);
+  parsingResult.diagnostics.push(diagnostic);
+  parsingResult.warningMessage += text;
+}
+
+function parseStringLiteral(text: string): string | undefined {
+  /**
+   * Interprets a double-quoted string literal, replacing its escape sequences.
+   *
+   * @param text - The literal, including the surrounding quotes
+   * @returns The contents of the string, or undefined if the literal is malformed
+   */
+  if (text.length < 2 || !text.startsWith("\"") || !text.endsWith("\"")) {
+    return undefined;
+  }
+  let result: string = "";
+  for (let i: number = 1; i < text.length - 1; i++) {
+    if (text[i] === "\\") {
+      const escaped: string | undefined = STRING_ESCAPES.get(text[i + 1]);
+      if (escaped == undefined || i + 1 >= text.length - 1) { return undefined; }
+      result += escaped;
+      i++;
+    } else if (text[i] === "\"") {
+      return undefined;
+    } else {
+      result += text[i];
+    }
+  }
+  return result;
+}
+
+function bindLabels(parsingResult: ParserResult, pendingLabels: string[], address: number): void {
+  pendingLabels.forEach((label: string) => parsingResult.symbols.set(label, address));
+  pendingLabels.length = 0;
+}
+
+function appendData(
+  parsingResult: ParserResult,
+  bytes: string[],
+  alignment: number,
+  pendingLabels: string[],
+): void {
+  /**
+   * Adds bytes to the end of the data segment.
+   *
+   * The data segment is first padded with zero bytes until its end is a multiple of
+   * the alignment, and any labels waiting for a location are bound to that address.
+   *
+   * @param parsingResult - The parser result holding the data segment
+   * @param bytes - The 8-bit strings to append
+   * @param alignment - The byte boundary the new data must start on
+   * @param pendingLabels - Labels defined since the last instruction or data
+   */
+  while ((parsingResult.dataSegmentAddress + parsingResult.dataSegment.length) % alignment != 0) {
+    parsingResult.dataSegment.push("0".repeat(8));
+  }
+  bindLabels(parsingResult, pendingLabels, parsingResult.dataSegmentAddress + parsingResult.dataSegment.length);
+  parsingResult.dataSegment.push(...bytes);
+}
+
+function parseDataDirective(
+  directive: Token,
+  operands: Token[],
+  lineNumber: number,
+  parsingResult: ParserResult,
+  pendingLabels: string[],
+  wordFixups: WordFixup[],
+  memorySize: number,
+): void {
+  /**
+   * Lays out the data described by a directive in the data segment.
+   *
+   * Labels stored with .word cannot be resolved until every line has been read,
+   * so a fixup is recorded for them and their bytes are filled in afterwards.
+   *
+   * @param directive - The directive, including the leading "."
+   * @param operands - The tokens on the line after the directive
+   * @param lineNumber - The line the directive appears on, for error messages
+   * @param parsingResult - The parser result holding the data segment
+   * @param pendingLabels - Labels waiting to be bound to the next data address
+   * @param wordFixups - Words whose value is the address of a label
+   * @param memorySize - The number of bytes of memory, which .space and .align mustn't run past
+   */
+  const directiveName: string = directive.text.toLowerCase();
+  if (operands.length == 0) {
+    appendParsingError(parsingResult, lineNumber, `Directive ${directive.text} expects at least one value.`, directive);
+    return;
+  }
+
+  const size: number | undefined = INTEGER_DIRECTIVE_SIZES.get(directiveName);
+  if (size != undefined) {
+    const bytes: string[] = [];
+    const fixups: WordFixup[] = [];
+    for (const operand of operands) {
+      const value: number | undefined = parseIntegerLiteral(operand.text);
+      if (value == undefined && LABEL_NAME_REGEX.test(operand.text) && size == 4) {
+        fixups.push({ offset: bytes.length, label: operand, lineNumber: lineNumber });
+        bytes.push(...toLittleEndianBytes("0".repeat(32)));
+        continue;
+      }
+      if (value == undefined) {
+        appendParsingError(parsingResult, lineNumber, `Value "${operand.text}" is not a number.`, operand);
+        return;
+      }
+      if (value < -1 * Math.pow(2, size * 8 - 1) || value >= Math.pow(2, size * 8)) {
+        appendParsingError(
+          parsingResult,
+          lineNumber,
+          `Value ${value} does not fit in the ${size * 8} bits of a ${directiveName}.`,
+          operand,
+        );
+        return;
+      }
+      bytes.push(...toLittleEndianBytes(decimalToTwosComplement(value).slice(-size * 8)));
+    }
+    appendData(parsingResult, bytes, size, pendingLabels);
+    // the offsets of the fixups are only known once the data has been aligned
+    const start: number = parsingResult.dataSegment.length - bytes.length;
+    fixups.forEach((fixup: WordFixup) => wordFixups.push({ ...fixup, offset: start + fixup.offset }));
+    return;
+  }
+
+  if (directiveName === ".float") {
+    const bytes: string[] = [];
+    for (const operand of operands) {
+      const value: number | undefined = parseFloatLiteral(operand.text);
+      if (value == undefined) {
+        appendParsingError(parsingResult, lineNumber, `Value "${operand.text}" is not a number.`, operand);
+        return;
+      }
+      // Stored as the nearest single-precision number
+      bytes.push(...toLittleEndianBytes(zeroExtend(singleToBits(value).toString(Base.BINARY), 32)));
+    }
+    appendData(parsingResult, bytes, 4, pendingLabels);
+    return;
+  }
+
+  const nullTerminated: boolean | undefined = STRING_DIRECTIVES.get(directiveName);
+  if (nullTerminated != undefined) {
+    const contents: string | undefined = operands.length == 1 ? parseStringLiteral(operands[0].text) : undefined;
+    if (contents == undefined) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Directive ${directive.text} expects a string in double quotes.`,
+        operands.length == 1 ? operands[0] : directive,
+      );
+      return;
+    }
+    const bytes: string[] = Array.from(new TextEncoder().encode(contents)).map(
+      (byte: number) => zeroExtend(byte.toString(Base.BINARY), 8),
+    );
+    if (nullTerminated) { bytes.push("0".repeat(8)); }
+    appendData(parsingResult, bytes, 1, pendingLabels);
+    return;
+  }
+
+  if (directiveName === ".space" || directiveName === ".align") {
+    const amount: number | undefined = operands.length == 1 ? parseIntegerLiteral(operands[0].text) : undefined;
+    if (amount == undefined || amount < 0) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Directive ${directive.text} expects a non-negative number.`,
+        operands.length == 1 ? operands[0] : directive,
+      );
+      return;
+    } else if (directiveName === ".align" && amount > MAX_ALIGNMENT_POWER) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Directive .align can align to at most 2 to the power of ${MAX_ALIGNMENT_POWER}, not ${amount}.`,
+        operands[0],
+      );
+      return;
+    }
+    // Checked before the bytes are added, as a large amount would otherwise exhaust the page's memory
+    const alignment: number = directiveName === ".align" ? Math.pow(2, amount) : 1;
+    const end: number = Math.ceil((parsingResult.dataSegmentAddress + parsingResult.dataSegment.length) / alignment)
+      * alignment + (directiveName === ".space" ? amount : 0);
+    if (end > memorySize) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Directive ${directive.text} ${amount} runs past the end of the ${memorySize} bytes of memory.`,
+        operands[0],
+      );
+    } else if (directiveName === ".space") {
+      appendData(parsingResult, Array(amount).fill("0".repeat(8)), 1, pendingLabels);
+    } else {
+      appendData(parsingResult, [], alignment, pendingLabels);
+    }
+    return;
+  }
+
+  appendParsingError(parsingResult, lineNumber, `Directive ${directive.text} was not recognized.`, directive);
+}
+
+function resolveLabel(
+  pcRelative: boolean,
+  operand: string,
+  symbols: Map<string, number>,
+  instructionAddress: number,
+): string {
+  /**
+   * Converts a label used as an immediate operand into the value it stands for.
+   *
+   * Branches and jumps such as JAL or J encode their target relative to their
+   * own address, so they receive the byte offset from the instruction to the
+   * label. Every other instruction (e.g. JALR, ADDI or LA) receives the absolute
+   * address of the label, or part of it when written as %hi(label) or %lo(label).
+   *
+   * @param pcRelative - Whether the instruction encodes its target relative to its own address
+   * @param operand - The immediate operand as written in the source
+   * @param symbols - The addresses of every defined label
+   * @param instructionAddress - The address of the instruction using the label
+   * @returns The value to use as the operand, or the operand unchanged if it is not a label
+   */
+  const modifierMatch: RegExpMatchArray | null = operand.match(ADDRESS_MODIFIER_REGEX);
+  const labelAddress: number | undefined = symbols.get(modifierMatch ? modifierMatch[2] : operand);
+  if (labelAddress == undefined) {
+    return operand;
+  }
+  if (modifierMatch && modifierMatch[1] === "hi") {
+    return upperImmediate(labelAddress).toString();
+  } else if (modifierMatch) {
+    return lowerImmediate(labelAddress).toString();
+  }
+  if (pcRelative) {
+    return (labelAddress - instructionAddress).toString();
+  }
+  return labelAddress.toString();
+}
+
+function splitMemoryOperand(memoryAccess: boolean, operands: Token[]): Token[] {
+  /**
+   * Rewrites the address of a load or store written as offset(rs1), e.g.
+   * "LW x1, 8(x2)", into the separate operands the instruction is stored with
+   * ("LW x1 x2 8"). A missing offset, as in "(x2)", means an offset of 0.
+   *
+   * @param memoryAccess - Whether the instruction is a load or store
+   * @param operands - The operands as written in the source
+   * @returns The operands with the memory operand split up, or unchanged if there is none
+   */
+  const memoryOperandMatch: RegExpMatchArray | null =
+    operands.length == 2 ? operands[1].text.match(MEMORY_OPERAND_REGEX) : null;
+  if (!memoryAccess || memoryOperandMatch == null) {
+    return operands;
+  }
+  const memoryOperand: Token = operands[1];
+  const offsetText: string = memoryOperandMatch[1].trim();
+  const offsetColumn: number = memoryOperand.column + memoryOperandMatch[1].length - memoryOperandMatch[1].trimStart().length;
+  return [
+    operands[0],
+    {
+      text: memoryOperandMatch[2],
+      column: memoryOperand.column + memoryOperand.text.lastIndexOf(memoryOperandMatch[2]),
+    },
+    { text: offsetText === "" ? "0" : offsetText, column: offsetColumn },
+  ];
+}
+
+function immediateFieldProblem(value: number, field: ImmediateField, instructionName: string): string | undefined {
+  /**
+   * Checks whether an immediate can be encoded in its instruction's immediate field.
+   *
+   * @param value - The immediate
+   * @param field - The field the instruction encodes its immediate in
+   * @param instructionName - The name of the instruction, for the message
+   * @returns A message explaining why the immediate doesn't fit, or undefined if it fits
+   */
+  if (value < field.min || value > field.max) {
+    return `${field.description} ${value} for instruction ${instructionName} must be between ${field.min} and ${field.max} (inclusive) to fit in ${field.bits} bits.`;
+  } else if (value % field.multipleOf != 0) {
+    return `${field.description} ${value} for instruction ${instructionName} must be a multiple of ${field.multipleOf}.`;
+  }
+  return undefined;
+}
+
+function readOperands(
+  parsingResult: ParserResult,
+  lineNumber: number,
+  format: OperandType[],
+  operands: Token[],
+  pcRelative: boolean,
+  address: number,
+): string[] | undefined {
+  /**
+   * Checks the operands of an instruction, writing register and CSR names in
+   * lower case and immediates (including labels and literals such as 0x1F or
+   * 'a') as the decimal number they stand for. A CSR may also be given by its
+   * address, which is written in decimal too.
+   *
+   * @param parsingResult - The parser result to record problems in
+   * @param lineNumber - The line the instruction is on
+   * @param format - The operand types the instruction expects
+   * @param operands - The operands as written in the source
+   * @param pcRelative - Whether labels stand for their offset from the instruction
+   * @param address - The address of the instruction
+   * @returns The operands, or undefined if any of them are invalid
+   */
+  const values: string[] = [];
+  for (let j: number = 0; j < format.length; j++) {
+    if (format[j] == OperandType.REGISTER) {
+      // Register names may be written in either case, e.g. "SP" or "sp"
+      const register: string = operands[j].text.toLowerCase();
+      if (register.localeCompare("pc") == 0) {
+        appendParsingError(parsingResult, lineNumber, "Register 'pc' cannot be addressed by any instruction.", operands[j]);
+        continue;
+      }
+      // For register operands, check if it's a valid register name
+      if (!STRINGS_TO_REGISTERS.has(register)) {
+        appendParsingError(parsingResult, lineNumber, `Operand "${operands[j].text}" is not a valid register.`, operands[j]);
+        continue;
+      }
+      values.push(register);
+      continue;
+    } else if (format[j] == OperandType.FLOAT_REGISTER) {
+      const register: string = operands[j].text.toLowerCase();
+      if (!STRINGS_TO_FLOAT_REGISTERS.has(register)) {
+        appendParsingError(
+          parsingResult,
+          lineNumber,
+          `Operand "${operands[j].text}" is not a valid floating-point register.`,
+          operands[j],
+        );
+        continue;
+      }
+      values.push(register);
+      continue;
+    } else if (format[j] == OperandType.CSR) {
+      const csrName: string = operands[j].text.toLowerCase();
+      const csrAddress: number | undefined = STRINGS_TO_CSRS.get(csrName) ?? parseIntegerLiteral(operands[j].text);
+      if (csrAddress == undefined || csrAddress < 0 || csrAddress >= Math.pow(2, 12)) {
+        appendParsingError(
+          parsingResult,
+          lineNumber,
+          `Operand "${operands[j].text}" is not the name of a CSR or a 12-bit CSR address.`,
+          operands[j],
+        );
+        continue;
+      }
+      values.push(STRINGS_TO_CSRS.has(csrName) ? csrName : csrAddress.toString());
+      continue;
+    }
+    // Replace a label operand with the immediate it stands for
+    const immediate: string = resolveLabel(pcRelative, operands[j].text, parsingResult.symbols, address);
+    // For immediate value operands, check if it's a valid number
+    const value: bigint | undefined = parseBigIntegerLiteral(immediate);
+    if (value == undefined) {
+      const modifierMatch: RegExpMatchArray | null = immediate.match(ADDRESS_MODIFIER_REGEX);
+      const labelName: string = modifierMatch ? modifierMatch[2] : immediate;
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        LABEL_NAME_REGEX.test(labelName)
+          ? `Label "${labelName}" is not defined.`
+          : `Operand "${immediate}" is not a number.`,
+        operands[j],
+      );
+      continue;
+    }
+    // Values may be written as signed or unsigned XLEN-bit numbers
+    const limit: bigint = BigInt(1) << BigInt(XLEN);
+    if (value < -limit / BigInt(2) || value >= limit) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Immediate value must be between -${limit / BigInt(2)} and ${limit - BigInt(1)} (inclusive).`,
+        operands[j],
+      );
+      continue;
+    }
+    values.push(value.toString());
+  }
+  return values.length == format.length ? values : undefined;
+}
+
+function lineLengths(parsingResult: ParserResult): Map<number, number> {
+  // The number of bytes of instructions each line of the program was assembled into
+  const lengths: Map<number, number> = new Map();
+  parsingResult.output.forEach((instruction: string[], i: number) => {
+    const lineNumber: number = parsingResult.lineNumbers[i];
+    lengths.set(lineNumber, (lengths.get(lineNumber) ?? 0) + instructionLengthOf(instruction));
+  });
+  return lengths;
+}
+
+function pushInstruction(
+  parsingResult: ParserResult,
+  instruction: string[],
+  lineNumber: number,
+  expandedFrom: string[] | undefined,
+  address: number,
+): void {
+  parsingResult.output.push(instruction);
+  parsingResult.lineNumbers.push(lineNumber);
+  parsingResult.expandedFrom.push(expandedFrom);
+  parsingResult.addresses.push(address);
+}
+
+export function parseInput(
+  instructionList: string[],
+  memorySize: number = DEFAULT_MEMORY_SIZE,
+  warnOnImmediateRange: boolean = false,
+  extensions: ReadonlySet<Extension> = DEFAULT_EXTENSIONS,
+): ParserResult {
+  /**
+   * Assembles a program, laying out its instructions in the text segment and
+   * its initialized data in the data segment.
+   *
+   * An immediate which doesn't fit in the bits its instruction encodes it in
+   * is an error, unless warnOnImmediateRange is set. Then it is only a warning,
+   * and the immediate is truncated just as the encoding would truncate it.
+   * Instructions from an extension which isn't in extensions are errors.
+   *
+   * With the C extension, every instruction which has a compressed form is
+   * assembled as that form. This is done by assembling the program again with
+   * the lengths the previous pass gave each line, until they stop changing,
+   * and only the errors of the last pass are reported.
+   *
+   * @param instructionList - The lines of the program
+   * @param memorySize - The number of bytes of memory the program will be loaded into, whose upper half holds the data
+   * @param warnOnImmediateRange - Whether immediates which don't fit are warnings rather than errors
+   * @param extensions - The extensions whose instructions the program may use
+   * @returns The assembled program, or the errors found in it
+   */
+  if (!extensions.has(Extension.C)) {
+    return assemble(instructionList, memorySize, warnOnImmediateRange, extensions, false, new Map());
+  }
+  let layout: Map<number, number> = new Map();
+  for (let pass: number = 0; pass < MAX_LAYOUT_PASSES; pass++) {
+    const parsingResult: ParserResult = assemble(instructionList, memorySize, warnOnImmediateRange, extensions, true, layout);
+    const lengths: Map<number, number> = lineLengths(parsingResult);
+    // Errors are only reported once the layout settles, as a branch out of range in one layout can fit in the next
+    const settled: boolean = lengths.size == layout.size
+      && Array.from(lengths).every(([lineNumber, length]) => layout.get(lineNumber) == length);
+    if (settled) {
+      return parsingResult;
+    }
+    layout = lengths;
+  }
+  // Only explicitly compressed instructions are left compressed, so the layout is known from the start
+  return assemble(instructionList, memorySize, warnOnImmediateRange, extensions, false, new Map());
+}
+
+function assemble(
+  instructionList: string[],
+  memorySize: number,
+  warnOnImmediateRange: boolean,
+  extensions: ReadonlySet<Extension>,
+  compress: boolean,
+  layout: ReadonlyMap<number, number>,
+): ParserResult {
+  /**
+   * Assembles a program once, as described for parseInput.
+   *
+   * @param compress - Whether base instructions which have a compressed form are assembled as it
+   * @param layout - The number of bytes of instructions each line is expected to take, where it
+   *   is known from a previous pass; other lines take 4 bytes for each instruction they expand to
+   */
+  const parsingResult: ParserResult = {
+    output: [],
+    status: ParserStatus.OK,
+    errMessage: "",
+    warningMessage: "",
+    diagnostics: [],
+    symbols: new Map(),
+    dataSegment: [],
+    dataSegmentAddress: dataSegmentBase(memorySize),
+    lineNumbers: [],
+    expandedFrom: [],
+    addresses: [],
+  };
+
+  // First pass: lay out the data, strip label definitions and record the address each one refers to
+  let section: Section = Section.TEXT;
+  const pendingLabels: string[] = [];
+  const pendingInstructions: { lineNumber: number; tokens: Token[]; address: number }[] = [];
+  let textLength: number = 0; // bytes of instructions, once pseudo-instructions are expanded
+  const wordFixups: WordFixup[] = [];
+  const sectionEnd = (): number => (
+    section == Section.TEXT
+      ? TEXT_SEGMENT_BASE + textLength
+      : parsingResult.dataSegmentAddress + parsingResult.dataSegment.length
+  );
+  for (let i: number = 0; i < instructionList.length; i++) {
+    const lineNumber: number = i + 1;
+    const lexedLine: LexedLine = lexLine(instructionList[i]);
+    if (lexedLine.error != undefined) {
+      appendParsingError(parsingResult, lineNumber, lexedLine.error.message, lexedLine.error.token);
+      continue;
+    }
+
+    // Labels are defined at the start of a line by a name followed by a colon
+    let tokens: Token[] = lexedLine.tokens;
+    while (tokens.length >= 2 && tokens[1].text === ":") {
+      const label: Token = tokens[0];
+      if (!LABEL_NAME_REGEX.test(label.text)) {
+        appendParsingError(parsingResult, lineNumber, `"${label.text}" is not a valid label name.`, label);
+      } else if (parsingResult.symbols.has(label.text) || pendingLabels.includes(label.text)) {
+        appendParsingError(parsingResult, lineNumber, `Label "${label.text}" is already defined.`, label);
+      } else {
+        pendingLabels.push(label.text);
+      }
+      tokens = tokens.slice(2);
+    }
+    // Blank lines, comments, and labels on a line of their own (which refer to whatever follows) produce nothing
+    if (tokens.length == 0) { continue; }
+
+    if (tokens[0].text.startsWith(".")) {
+      const directive: string = tokens[0].text.toLowerCase();
+      if (SECTION_DIRECTIVES.has(directive)) {
+        bindLabels(parsingResult, pendingLabels, sectionEnd());
+        section = SECTION_DIRECTIVES.get(directive)!;
+      } else if (IGNORED_DIRECTIVES.includes(directive)) {
+        continue;
+      } else if (section != Section.DATA) {
+        appendParsingError(
+          parsingResult,
+          lineNumber,
+          `Directive ${tokens[0].text} can only be used in the .data section.`,
+          tokens[0],
+        );
+      } else {
+        parseDataDirective(tokens[0], tokens.slice(1), lineNumber, parsingResult, pendingLabels, wordFixups, memorySize);
+      }
+      continue;
+    }
+
+    if (section == Section.DATA) {
+      appendParsingError(parsingResult, lineNumber, "Instructions can only be placed in the .text section.", tokens[0]);
+      continue;
+    }
+    bindLabels(parsingResult, pendingLabels, sectionEnd());
+    pendingInstructions.push({ lineNumber: lineNumber, tokens: tokens, address: sectionEnd() });
+    // The expansion of a pseudo-instruction must be sized now, so the labels after it get the right address
+    const pseudoInstructionInfo: PseudoInstructionInfo | undefined =
+      PSEUDO_INSTRUCTION_TO_INFO.get(tokens[0].text.toUpperCase());
+    const instructionCount: number = pseudoInstructionInfo != undefined
+      ? pseudoInstructionInfo.length(tokens.slice(1).map((token: Token) => token.text))
+      : 1;
+    textLength += layout.get(lineNumber) ?? (
+      COMPRESSED_INSTRUCTION_TO_INFO.has(tokens[0].text.toUpperCase())
+        ? COMPRESSED_INSTRUCTION_LENGTH
+        : instructionCount * INSTRUCTION_LENGTH
+    );
+  }
+  bindLabels(parsingResult, pendingLabels, sectionEnd());
+
+  // Make sure the program fits in the memory set aside for it
+  const textCapacity: number = parsingResult.dataSegmentAddress - TEXT_SEGMENT_BASE;
+  if (textLength > textCapacity) {
+    appendParsingError(
+      parsingResult,
+      undefined,
+      `The program's instructions need ${textLength} bytes but only ${textCapacity} bytes fit in the text segment.`,
+    );
+  }
+  const dataCapacity: number = memorySize - parsingResult.dataSegmentAddress;
+  if (parsingResult.dataSegment.length > dataCapacity) {
+    appendParsingError(
+      parsingResult,
+      undefined,
+      `The data segment needs ${parsingResult.dataSegment.length} bytes but only ${dataCapacity} bytes are available.`,
+    );
+  }
+
+  // Fill in the words which hold the address of a label
+  wordFixups.forEach((fixup: WordFixup) => {
+    const labelAddress: number | undefined = parsingResult.symbols.get(fixup.label.text);
+    if (labelAddress == undefined) {
+      appendParsingError(parsingResult, fixup.lineNumber, `Label "${fixup.label.text}" is not defined.`, fixup.label);
+      return;
+    }
+    parsingResult.dataSegment.splice(
+      fixup.offset,
+      4,
+      ...toLittleEndianBytes(decimalToTwosComplement(labelAddress).slice(-32)),
+    );
+  });
+
+  // Second pass: validate each instruction, resolve the labels it uses and expand pseudo-instructions
+  for (const { lineNumber, tokens, address } of pendingInstructions) {
+    const mnemonic: Token = tokens[0];
+
+    // Mnemonics may be written in either case, e.g. "lw" or "LW"
+    const instructionName: string = mnemonic.text.toUpperCase();
+    const instructionInfo: InstructionInfo | undefined = INSTRUCTION_TO_INFO.get(instructionName);
+    const pseudoInstructionInfo: PseudoInstructionInfo | undefined = PSEUDO_INSTRUCTION_TO_INFO.get(instructionName);
+    const compressedInfo: CompressedInstructionInfo | undefined = COMPRESSED_INSTRUCTION_TO_INFO.get(instructionName);
+
+    if (instructionInfo == undefined && pseudoInstructionInfo == undefined && compressedInfo == undefined) {
+      appendParsingError(parsingResult, lineNumber, `Instruction ${mnemonic.text} was not recognized.`, mnemonic);
+      continue;
+    }
+    const { instructionFormat: format, extension, rv64Only } = instructionInfo ?? pseudoInstructionInfo
+      ?? { ...compressedInfo!, extension: Extension.C };
+    if (extension != undefined && !extensions.has(extension)) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Instruction ${mnemonic.text} is part of the ${extension} extension, which is turned off.`,
+        mnemonic,
+      );
+      continue;
+    } else if (rv64Only && XLEN != 64) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Instruction ${mnemonic.text} is only part of RV64I, so it needs 64-bit registers.`,
+        mnemonic,
+      );
+      continue;
+    } else if (compressedInfo?.rv32Only && XLEN != 32) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Instruction ${mnemonic.text} is only part of RV32C, so it needs 32-bit registers.`,
+        mnemonic,
+      );
+      continue;
+    }
+
+    // Extract just the operands (everything after the opcode)
+    const operands: Token[] = splitMemoryOperand(
+      instructionInfo != undefined
+        ? MEMORY_ACCESS_OPCODES.includes(instructionInfo.decodeInfo!.opcode)
+        : compressedInfo?.memoryAccess ?? false,
+      tokens.slice(1),
+    );
+    // Instructions which round their result may be given a rounding mode after their operands, e.g. "FADD.S f1, f2, f3, rtz"
+    const roundingMode: Token | undefined = instructionInfo?.roundingMode && operands.length == format.length + 1
+      ? operands.pop()
+      : undefined;
+    if (roundingMode != undefined && !ROUNDING_MODE_NAMES.has(roundingMode.text.toLowerCase())) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `Rounding mode "${roundingMode.text}" should be one of ${Array.from(ROUNDING_MODE_NAMES.keys()).join(", ")}.`,
+        roundingMode,
+      );
+      continue;
+    }
+    // Check if the number of operands matches the expected format
+    if (!(operands.length == format!.length)) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `${operands.length} operands supplied but expected ${format!.length} operands.`,
+      );
+      continue;
+    }
+
+    const pcRelative: boolean = instructionInfo != undefined
+      ? PC_RELATIVE_OPCODES.includes(instructionInfo.decodeInfo!.opcode)
+      : pseudoInstructionInfo?.pcRelative ?? compressedInfo!.pcRelative ?? false;
+    const values: string[] | undefined = readOperands(parsingResult, lineNumber, format, operands, pcRelative, address);
+    if (values == undefined) {
+      continue;
+    } else if (roundingMode != undefined) {
+      values.push(roundingMode.text.toLowerCase());
+    }
+    const expansion: string[][] = pseudoInstructionInfo != undefined
+      ? pseudoInstructionInfo.expand(values, address)
+      : [[instructionName, ...values]];
+    // The addresses of the labels were worked out from the length of the expansion before labels were known
+    if (
+      pseudoInstructionInfo != undefined
+      && expansion.length != pseudoInstructionInfo.length(operands.map((operand: Token) => operand.text))
+    ) {
+      appendParsingError(
+        parsingResult,
+        lineNumber,
+        `${instructionName} needs a number rather than a label, as its expansion depends on the value.`,
+        operands[format.indexOf(OperandType.IMMEDIATE)],
+      );
+      continue;
+    }
+    const immediateToken: Token = operands[format.indexOf(OperandType.IMMEDIATE)] ?? mnemonic;
+
+    let instructionAddress: number = address;
+    expansion.forEach((expandedInstruction: string[]) => {
+      let destructuredInstruction: string[] = expandedInstruction;
+      if (compressedInfo != undefined) {
+        // A compressed instruction has no room to truncate an immediate into, so any operand it can't hold is an error
+        const problem: string | undefined = compressedOperandProblem(destructuredInstruction);
+        if (problem != undefined) {
+          appendParsingError(parsingResult, lineNumber, problem, mnemonic);
+          return;
+        }
+        pushInstruction(parsingResult, destructuredInstruction, lineNumber, undefined, instructionAddress);
+        instructionAddress += COMPRESSED_INSTRUCTION_LENGTH;
+        return;
+      }
+      // Make sure the immediate fits in the bits the instruction encodes it in
+      const baseInstructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get(destructuredInstruction[0])!;
+      const immediateIndex: number = baseInstructionInfo.instructionFormat.indexOf(OperandType.IMMEDIATE) + 1;
+      const field: ImmediateField | undefined = immediateFieldOf(baseInstructionInfo);
+      if (immediateIndex > 0 && field != undefined) {
+        const immediate: number = Number(destructuredInstruction[immediateIndex]);
+        const problem: string | undefined = immediateFieldProblem(
+          immediate,
+          field,
+          pseudoInstructionInfo != undefined ? `${destructuredInstruction[0]} (from ${instructionName})` : instructionName,
+        );
+        if (problem != undefined && !warnOnImmediateRange) {
+          appendParsingError(parsingResult, lineNumber, problem, immediateToken);
+        } else if (problem != undefined) {
+          const truncated: number = truncateImmediate(immediate, field);
+          appendParsingWarning(parsingResult, lineNumber, `${problem} It was truncated to ${truncated}.`, immediateToken);
+          destructuredInstruction[immediateIndex] = truncated.toString();
+        }
+      }
+      if (compress) {
+        destructuredInstruction = compressInstruction(destructuredInstruction) ?? destructuredInstruction;
+      }
+      pushInstruction(
+        parsingResult,
+        destructuredInstruction,
+        lineNumber,
+        pseudoInstructionInfo != undefined ? [instructionName, ...values] : undefined,
+        instructionAddress,
+      );
+      instructionAddress += instructionLengthOf(destructuredInstruction);
+    });
+  }
+  return parsingResult;
+}
+
+function fillInputParams(instructionFormat: OperandType[], destructuredInstruction: string[]): InstructionInput {
+  const inputParams: InstructionInput = {
+    rd: "", rs1: "", rs2: "", rs3: "", imm: 0, rm: RoundingMode.DYNAMIC, csr: 0,
+  };
+  // A rounding mode written after the operands is the last part of the instruction
+  inputParams.rm = ROUNDING_MODE_NAMES.get(destructuredInstruction[instructionFormat.length + 1]) ?? RoundingMode.DYNAMIC;
+  switch (instructionFormat) {
+    case I_TYPE:
+    case FLOAT_LOAD_TYPE:
+      [inputParams.rd, inputParams.rs1] = destructuredInstruction.slice(1, 3);
+      inputParams.imm = Number(destructuredInstruction[3]);
+      break;
+    case S_TYPE:
+    case FLOAT_STORE_TYPE:
+      [inputParams.rs2, inputParams.rs1] = destructuredInstruction.slice(1, 3);
+      inputParams.imm = Number(destructuredInstruction[3]);
+      break;
+    case R_TYPE:
+    case FLOAT_R_TYPE:
+    case FLOAT_COMPARE_TYPE:
+      [inputParams.rd, inputParams.rs1, inputParams.rs2] = destructuredInstruction.slice(1, 4);
+      break;
+    case FLOAT_R4_TYPE:
+      [inputParams.rd, inputParams.rs1, inputParams.rs2, inputParams.rs3] = destructuredInstruction.slice(1, 5);
+      break;
+    case FLOAT_UNARY_TYPE:
+    case FLOAT_TO_INTEGER_TYPE:
+    case INTEGER_TO_FLOAT_TYPE:
+      [inputParams.rd, inputParams.rs1] = destructuredInstruction.slice(1, 3);
+      break;
+    case U_TYPE:
+      inputParams.rd = destructuredInstruction[1];
+      inputParams.imm = Number(destructuredInstruction[2]);
+      break;
+    case J_TYPE:
+      inputParams.rd = destructuredInstruction[1];
+      inputParams.imm = Number(destructuredInstruction[2]);
+      break;
+    case B_TYPE:
+      [inputParams.rs1, inputParams.rs2] = destructuredInstruction.slice(1, 3);
+      inputParams.imm = Number(destructuredInstruction[3]);
+      break;
+    case CSR_TYPE:
+      [inputParams.rd, , inputParams.rs1] = destructuredInstruction.slice(1, 4);
+      inputParams.csr = STRINGS_TO_CSRS.get(destructuredInstruction[2]) ?? Number(destructuredInstruction[2]);
+      break;
+    case CSR_IMMEDIATE_TYPE:
+      inputParams.rd = destructuredInstruction[1];
+      inputParams.csr = STRINGS_TO_CSRS.get(destructuredInstruction[2]) ?? Number(destructuredInstruction[2]);
+      inputParams.imm = Number(destructuredInstruction[3]);
+      break;
+    case NONE_TYPE:
+      break;
+    default:
+      console.log("Got an invalid instruction type.");
+      break;
+  }
+  return inputParams;
+}
+
+export function encodeInstruction(destructuredInstruction: string[]): string {
+  // Compressed instructions are 16 bits long, and every other instruction 32
+  if (COMPRESSED_INSTRUCTION_TO_INFO.has(destructuredInstruction[0])) {
+    return encodeCompressedInstruction(destructuredInstruction);
+  }
+  const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get(destructuredInstruction[0])!;
+  const instructionFormat: OperandType[] = instructionInfo.instructionFormat;
+  const inputParams: InstructionInput = fillInputParams(instructionFormat, destructuredInstruction);
+  return instructionInfo.decodeFunction(inputParams);
+}
+
+export function programSegments(program: ParserResult): MemorySegment[] {
+  /**
+   * Lays out the bytes an assembled program places in memory: its encoded
+   * instructions from the start of the text segment, and its initialized data
+   * from the start of the data segment. A segment with nothing in it is left out.
+   *
+   * @param program - A program assembled without errors by parseInput
+   * @returns The text segment followed by the data segment
+   */
+  const segments: MemorySegment[] = [];
+  const lastIndex: number = program.output.length - 1;
+  if (lastIndex >= 0) {
+    const text: Uint8Array = new Uint8Array(
+      program.addresses[lastIndex] + instructionLengthOf(program.output[lastIndex]) - TEXT_SEGMENT_BASE,
+    );
+    program.output.forEach((instruction: string[], i: number) => {
+      toLittleEndianBytes(encodeInstruction(instruction)).forEach((byteBits: string, byte: number) => {
+        text[program.addresses[i] - TEXT_SEGMENT_BASE + byte] = parseInt(byteBits, Base.BINARY);
+      });
+    });
+    segments.push({ address: TEXT_SEGMENT_BASE, bytes: text, executable: true });
+  }
+  if (program.dataSegment.length > 0) {
+    segments.push({
+      address: program.dataSegmentAddress,
+      bytes: Uint8Array.from(program.dataSegment.map((byteBits: string) => parseInt(byteBits, Base.BINARY))),
+      executable: false,
+    });
+  }
+  return segments;
+}
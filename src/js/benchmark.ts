@@ -0,0 +1,68 @@
+/*
+The purpose of this file is to measure how quickly the simulator core executes
+instructions when nothing is drawn, by running a loop of arithmetic, loads,
+stores and branches from Node. Run it with `npm run benchmark`, optionally
+followed by the number of instructions to execute.
+*/
+import { parseInput } from "./assembler.js";
+import { Machine, StopEvent, StopReason } from "./machine.js";
+import { ParserResult, ParserStatus } from "./utils.js";
+
+/*** Constants ***/
+// Sums the numbers below 1000 over and over, storing and reloading the running total
+const BENCHMARK_PROGRAM: string[] = [
+  "  li s0, 0x200",
+  "outer:",
+  "  li t0, 0",
+  "  li t1, 1000",
+  "  li a0, 0",
+  "inner:",
+  "  add a0, a0, t0",
+  "  sw a0, 0(s0)",
+  "  lw a1, 0(s0)",
+  "  xor a2, a1, t0",
+  "  slli a3, a2, 3",
+  "  addi t0, t0, 1",
+  "  blt t0, t1, inner",
+  "  j outer",
+];
+const DEFAULT_BENCHMARK_INSTRUCTIONS: number = 5000000;
+// Run first, so that the engine has compiled the execution functions before they are timed
+const WARM_UP_INSTRUCTIONS: number = 100000;
+
+/*** Functions ***/
+function runBenchmark(instructionCount: number): number {
+  /**
+   * Executes the benchmark program on a fresh machine.
+   *
+   * @param instructionCount - The number of instructions to execute
+   * @returns The number of instructions executed per second
+   */
+  const program: ParserResult = parseInput(BENCHMARK_PROGRAM);
+  if (program.status != ParserStatus.OK) {
+    throw new Error(`The benchmark program doesn't assemble: ${program.errMessage}`);
+  }
+  const machine: Machine = new Machine();
+  machine.load(program);
+  machine.run(WARM_UP_INSTRUCTIONS);
+
+  const start: number = performance.now();
+  const event: StopEvent = machine.run(instructionCount);
+  const seconds: number = (performance.now() - start) / 1000;
+  if (event.reason != StopReason.INSTRUCTION_LIMIT) {
+    throw new Error(`The benchmark program stopped early: ${event.message}`);
+  }
+  return instructionCount / seconds;
+}
+
+/*** Program Starting Point ***/
+const instructionCount: number = process.argv[2] != undefined
+  ? Number(process.argv[2]) : DEFAULT_BENCHMARK_INSTRUCTIONS;
+if (!Number.isInteger(instructionCount) || instructionCount <= 0) {
+  console.error("The number of instructions must be a positive whole number.");
+  process.exit(1);
+}
+const instructionsPerSecond: number = runBenchmark(instructionCount);
+console.log(
+  `Executed ${instructionCount} instructions at ${(instructionsPerSecond / 1e6).toFixed(2)} million instructions per second.`,
+);
@@ -0,0 +1,629 @@
+/*
+The purpose of this file is to describe the compressed instructions of the C
+extension. Each one is a 16-bit encoding of a common base instruction, with
+some of its operands implied or restricted, so a compressed instruction runs
+by expanding it into the base instruction it stands for. The same description
+of each encoding is used to encode, decode and expand compressed instructions,
+and to compress base instructions when the assembler is asked to.
+*/
+import {
+  B_TYPE,
+  COMPRESSED_INSTRUCTION_LENGTH,
+  EncodingField,
+  EncodingLayout,
+  FieldKind,
+  I_TYPE,
+  INSTRUCTION_LENGTH,
+  INSTRUCTION_TO_INFO,
+  ImmediateField,
+  InstructionInfo,
+  J_TYPE,
+  NONE_TYPE,
+  OperandType,
+  PSEUDO_TYPE_A,
+  R_TYPE,
+  S_TYPE,
+  SHIFT_AMOUNT,
+  STRINGS_TO_REGISTERS,
+  U_TYPE,
+  WIDE_SHIFT_AMOUNT,
+  XLEN,
+  decimalToTwosComplement,
+  immediateFieldOf,
+  truncateImmediate,
+  twosComplementToDecimal,
+  zeroExtend,
+} from "./utils.js";
+
+/*** Types ***/
+// How a register operand is held in a compressed instruction
+enum RegisterEncoding {
+  FULL, // any of x0 to x31, in 5 bits
+  COMPACT, // only x8 to x15, the registers used most often, in 3 bits
+  STACK_POINTER, // only sp, which takes no bits at all
+}
+
+interface RegisterField {
+  operand: number; // the position of the register among the instruction's operands
+  encoding: RegisterEncoding;
+  excluded: number[]; // registers whose encodings belong to other instructions, like x0 for C.ADDI
+}
+
+interface ImmediateBitsField {
+  immediateBits: number[]; // the bits of the immediate held in the field, most significant first
+}
+
+// The parts of a compressed instruction from its most significant bit down; a string is bits which never change
+type CompressedField = string | RegisterField | ImmediateBitsField;
+
+export interface CompressedInstructionInfo {
+  instructionFormat: OperandType[];
+  encoding: CompressedField[];
+  immediate?: ImmediateField; // the values the immediate operand may hold, if the instruction has one
+  nonzeroImmediate?: boolean; // whether an immediate of zero is reserved for another instruction
+  // The base instruction it stands for, with "$0", "$1", ... standing for its operands
+  expansion: string[];
+  // Other base instructions which do the same and can be compressed to it, in the same form as expansion
+  equivalents?: string[][];
+  memoryAccess?: boolean; // whether the address may be written as offset(rs1), as for C.LW
+  pcRelative?: boolean; // whether a label operand stands for its offset from the instruction
+  rv32Only?: boolean; // whether its encoding means something else when XLEN is 64, like C.JAL
+  rv64Only?: boolean; // whether it only exists when XLEN is 64, like C.LD
+}
+
+/*** Encoding Field Functions ***/
+function register(operand: number, ...excluded: number[]): RegisterField {
+  return { operand: operand, encoding: RegisterEncoding.FULL, excluded: excluded };
+}
+
+function compactRegister(operand: number): RegisterField {
+  return { operand: operand, encoding: RegisterEncoding.COMPACT, excluded: [] };
+}
+
+function stackPointer(operand: number): RegisterField {
+  return { operand: operand, encoding: RegisterEncoding.STACK_POINTER, excluded: [] };
+}
+
+function immediate(...immediateBits: number[]): ImmediateBitsField {
+  return { immediateBits: immediateBits };
+}
+
+/*** Constants ***/
+// The offsets of loads and stores are unsigned and scaled by the size accessed
+const WORD_OFFSET: ImmediateField = { description: "Offset", bits: 7, min: 0, max: 124, multipleOf: 4 };
+const DOUBLEWORD_OFFSET: ImmediateField = { description: "Offset", bits: 8, min: 0, max: 248, multipleOf: 8 };
+const STACK_WORD_OFFSET: ImmediateField = { description: "Offset", bits: 8, min: 0, max: 252, multipleOf: 4 };
+const STACK_DOUBLEWORD_OFFSET: ImmediateField = { description: "Offset", bits: 9, min: 0, max: 504, multipleOf: 8 };
+const SMALL_IMMEDIATE: ImmediateField = { description: "Immediate", bits: 6, min: -32, max: 31, multipleOf: 1 };
+const SMALL_UPPER_IMMEDIATE: ImmediateField = { description: "Upper immediate", bits: 6, min: -32, max: 31, multipleOf: 1 };
+// C.ADDI4SPN and C.ADDI16SP point a register at the stack, or move the stack, by whole words or 16-byte frames
+const STACK_ADDRESS_OFFSET: ImmediateField = { description: "Immediate", bits: 10, min: 0, max: 1020, multipleOf: 4 };
+const STACK_ADJUSTMENT: ImmediateField = { description: "Immediate", bits: 10, min: -512, max: 496, multipleOf: 16 };
+const SHORT_BRANCH_OFFSET: ImmediateField = {
+  description: "Branch offset", bits: 9, min: -256, max: 254, multipleOf: 2,
+};
+const SHORT_JUMP_OFFSET: ImmediateField = {
+  description: "Jump offset", bits: 12, min: -2048, max: 2046, multipleOf: 2,
+};
+
+// Ordered by opcode and funct3, as in the specification; where two encodings overlap, the first one that fits wins
+export const COMPRESSED_INSTRUCTION_TO_INFO: ReadonlyMap<string, CompressedInstructionInfo> = new Map([
+  ["C.ADDI4SPN", {
+    instructionFormat: I_TYPE,
+    encoding: ["000", immediate(5, 4, 9, 8, 7, 6, 2, 3), compactRegister(0), stackPointer(1), "00"],
+    immediate: STACK_ADDRESS_OFFSET,
+    nonzeroImmediate: true,
+    expansion: ["ADDI", "$0", "$1", "$2"],
+  }],
+  ["C.LW", {
+    instructionFormat: I_TYPE,
+    encoding: ["010", immediate(5, 4, 3), compactRegister(1), immediate(2, 6), compactRegister(0), "00"],
+    immediate: WORD_OFFSET,
+    expansion: ["LW", "$0", "$1", "$2"],
+    memoryAccess: true,
+  }],
+  ["C.LD", {
+    instructionFormat: I_TYPE,
+    encoding: ["011", immediate(5, 4, 3), compactRegister(1), immediate(7, 6), compactRegister(0), "00"],
+    immediate: DOUBLEWORD_OFFSET,
+    expansion: ["LD", "$0", "$1", "$2"],
+    memoryAccess: true,
+    rv64Only: true,
+  }],
+  ["C.SW", {
+    instructionFormat: S_TYPE,
+    encoding: ["110", immediate(5, 4, 3), compactRegister(1), immediate(2, 6), compactRegister(0), "00"],
+    immediate: WORD_OFFSET,
+    expansion: ["SW", "$0", "$1", "$2"],
+    memoryAccess: true,
+  }],
+  ["C.SD", {
+    instructionFormat: S_TYPE,
+    encoding: ["111", immediate(5, 4, 3), compactRegister(1), immediate(7, 6), compactRegister(0), "00"],
+    immediate: DOUBLEWORD_OFFSET,
+    expansion: ["SD", "$0", "$1", "$2"],
+    memoryAccess: true,
+    rv64Only: true,
+  }],
+  ["C.NOP", {
+    instructionFormat: NONE_TYPE,
+    encoding: ["000", "0", "00000", "00000", "01"],
+    expansion: ["ADDI", "x0", "x0", "0"],
+  }],
+  ["C.ADDI", {
+    instructionFormat: U_TYPE,
+    encoding: ["000", immediate(5), register(0, 0), immediate(4, 3, 2, 1, 0), "01"],
+    immediate: SMALL_IMMEDIATE,
+    nonzeroImmediate: true,
+    expansion: ["ADDI", "$0", "$0", "$1"],
+  }],
+  ["C.JAL", {
+    instructionFormat: [OperandType.IMMEDIATE],
+    encoding: ["001", immediate(11, 4, 9, 8, 10, 6, 7, 3, 2, 1, 5), "01"],
+    immediate: SHORT_JUMP_OFFSET,
+    expansion: ["JAL", "x1", "$0"],
+    pcRelative: true,
+    rv32Only: true,
+  }],
+  ["C.ADDIW", {
+    instructionFormat: U_TYPE,
+    encoding: ["001", immediate(5), register(0, 0), immediate(4, 3, 2, 1, 0), "01"],
+    immediate: SMALL_IMMEDIATE,
+    expansion: ["ADDIW", "$0", "$0", "$1"],
+    rv64Only: true,
+  }],
+  ["C.LI", {
+    instructionFormat: U_TYPE,
+    encoding: ["010", immediate(5), register(0, 0), immediate(4, 3, 2, 1, 0), "01"],
+    immediate: SMALL_IMMEDIATE,
+    expansion: ["ADDI", "$0", "x0", "$1"],
+  }],
+  ["C.ADDI16SP", {
+    instructionFormat: U_TYPE,
+    encoding: ["011", immediate(9), "00010", stackPointer(0), immediate(4, 6, 8, 7, 5), "01"],
+    immediate: STACK_ADJUSTMENT,
+    nonzeroImmediate: true,
+    expansion: ["ADDI", "$0", "$0", "$1"],
+  }],
+  ["C.LUI", {
+    instructionFormat: U_TYPE,
+    encoding: ["011", immediate(5), register(0, 0, 2), immediate(4, 3, 2, 1, 0), "01"],
+    immediate: SMALL_UPPER_IMMEDIATE,
+    nonzeroImmediate: true,
+    expansion: ["LUI", "$0", "$1"],
+  }],
+  ["C.SRLI", {
+    instructionFormat: U_TYPE,
+    encoding: ["100", immediate(5), "00", compactRegister(0), immediate(4, 3, 2, 1, 0), "01"],
+    immediate: SHIFT_AMOUNT,
+    nonzeroImmediate: true,
+    expansion: ["SRLI", "$0", "$0", "$1"],
+  }],
+  ["C.SRAI", {
+    instructionFormat: U_TYPE,
+    encoding: ["100", immediate(5), "01", compactRegister(0), immediate(4, 3, 2, 1, 0), "01"],
+    immediate: SHIFT_AMOUNT,
+    nonzeroImmediate: true,
+    expansion: ["SRAI", "$0", "$0", "$1"],
+  }],
+  ["C.ANDI", {
+    instructionFormat: U_TYPE,
+    encoding: ["100", immediate(5), "10", compactRegister(0), immediate(4, 3, 2, 1, 0), "01"],
+    immediate: SMALL_IMMEDIATE,
+    expansion: ["ANDI", "$0", "$0", "$1"],
+  }],
+  ["C.SUB", {
+    instructionFormat: PSEUDO_TYPE_A,
+    encoding: ["100011", compactRegister(0), "00", compactRegister(1), "01"],
+    expansion: ["SUB", "$0", "$0", "$1"],
+  }],
+  ["C.XOR", {
+    instructionFormat: PSEUDO_TYPE_A,
+    encoding: ["100011", compactRegister(0), "01", compactRegister(1), "01"],
+    expansion: ["XOR", "$0", "$0", "$1"],
+  }],
+  ["C.OR", {
+    instructionFormat: PSEUDO_TYPE_A,
+    encoding: ["100011", compactRegister(0), "10", compactRegister(1), "01"],
+    expansion: ["OR", "$0", "$0", "$1"],
+  }],
+  ["C.AND", {
+    instructionFormat: PSEUDO_TYPE_A,
+    encoding: ["100011", compactRegister(0), "11", compactRegister(1), "01"],
+    expansion: ["AND", "$0", "$0", "$1"],
+  }],
+  ["C.SUBW", {
+    instructionFormat: PSEUDO_TYPE_A,
+    encoding: ["100111", compactRegister(0), "00", compactRegister(1), "01"],
+    expansion: ["SUBW", "$0", "$0", "$1"],
+    rv64Only: true,
+  }],
+  ["C.ADDW", {
+    instructionFormat: PSEUDO_TYPE_A,
+    encoding: ["100111", compactRegister(0), "01", compactRegister(1), "01"],
+    expansion: ["ADDW", "$0", "$0", "$1"],
+    rv64Only: true,
+  }],
+  ["C.J", {
+    instructionFormat: [OperandType.IMMEDIATE],
+    encoding: ["101", immediate(11, 4, 9, 8, 10, 6, 7, 3, 2, 1, 5), "01"],
+    immediate: SHORT_JUMP_OFFSET,
+    expansion: ["JAL", "x0", "$0"],
+    pcRelative: true,
+  }],
+  ["C.BEQZ", {
+    instructionFormat: J_TYPE,
+    encoding: ["110", immediate(8, 4, 3), compactRegister(0), immediate(7, 6, 2, 1, 5), "01"],
+    immediate: SHORT_BRANCH_OFFSET,
+    expansion: ["BEQ", "$0", "x0", "$1"],
+    pcRelative: true,
+  }],
+  ["C.BNEZ", {
+    instructionFormat: J_TYPE,
+    encoding: ["111", immediate(8, 4, 3), compactRegister(0), immediate(7, 6, 2, 1, 5), "01"],
+    immediate: SHORT_BRANCH_OFFSET,
+    expansion: ["BNE", "$0", "x0", "$1"],
+    pcRelative: true,
+  }],
+  ["C.SLLI", {
+    instructionFormat: U_TYPE,
+    encoding: ["000", immediate(5), register(0, 0), immediate(4, 3, 2, 1, 0), "10"],
+    immediate: SHIFT_AMOUNT,
+    nonzeroImmediate: true,
+    expansion: ["SLLI", "$0", "$0", "$1"],
+  }],
+  ["C.LWSP", {
+    instructionFormat: I_TYPE,
+    encoding: ["010", immediate(5), register(0, 0), immediate(4, 3, 2, 7, 6), stackPointer(1), "10"],
+    immediate: STACK_WORD_OFFSET,
+    expansion: ["LW", "$0", "$1", "$2"],
+    memoryAccess: true,
+  }],
+  ["C.LDSP", {
+    instructionFormat: I_TYPE,
+    encoding: ["011", immediate(5), register(0, 0), immediate(4, 3, 8, 7, 6), stackPointer(1), "10"],
+    immediate: STACK_DOUBLEWORD_OFFSET,
+    expansion: ["LD", "$0", "$1", "$2"],
+    memoryAccess: true,
+    rv64Only: true,
+  }],
+  ["C.JR", {
+    instructionFormat: [OperandType.REGISTER],
+    encoding: ["1000", register(0, 0), "00000", "10"],
+    expansion: ["JALR", "x0", "$0", "0"],
+  }],
+  ["C.MV", {
+    instructionFormat: PSEUDO_TYPE_A,
+    encoding: ["1000", register(0, 0), register(1, 0), "10"],
+    expansion: ["ADD", "$0", "x0", "$1"],
+    equivalents: [["ADDI", "$0", "$1", "0"]],
+  }],
+  ["C.EBREAK", {
+    instructionFormat: NONE_TYPE,
+    encoding: ["1001", "00000", "00000", "10"],
+    expansion: ["EBREAK"],
+  }],
+  ["C.JALR", {
+    instructionFormat: [OperandType.REGISTER],
+    encoding: ["1001", register(0, 0), "00000", "10"],
+    expansion: ["JALR", "x1", "$0", "0"],
+  }],
+  ["C.ADD", {
+    instructionFormat: PSEUDO_TYPE_A,
+    encoding: ["1001", register(0, 0), register(1, 0), "10"],
+    expansion: ["ADD", "$0", "$0", "$1"],
+  }],
+  ["C.SWSP", {
+    instructionFormat: S_TYPE,
+    encoding: ["110", immediate(5, 4, 3, 2, 7, 6), register(0), stackPointer(1), "10"],
+    immediate: STACK_WORD_OFFSET,
+    expansion: ["SW", "$0", "$1", "$2"],
+    memoryAccess: true,
+  }],
+  ["C.SDSP", {
+    instructionFormat: S_TYPE,
+    encoding: ["111", immediate(5, 4, 3, 8, 7, 6), register(0), stackPointer(1), "10"],
+    immediate: STACK_DOUBLEWORD_OFFSET,
+    expansion: ["SD", "$0", "$1", "$2"],
+    memoryAccess: true,
+    rv64Only: true,
+  }],
+]);
+// What each operand of a base instruction is called, by the instruction's format, for naming register fields
+const OPERAND_ROLES: ReadonlyMap<OperandType[], string[]> = new Map([
+  [R_TYPE, ["rd", "rs1", "rs2"]],
+  [I_TYPE, ["rd", "rs1"]],
+  [S_TYPE, ["rs2", "rs1"]],
+  [B_TYPE, ["rs1", "rs2"]],
+  [U_TYPE, ["rd"]],
+  [J_TYPE, ["rd"]],
+]);
+
+/*** Functions ***/
+function isAvailable(compressedInfo: CompressedInstructionInfo): boolean {
+  // Some encodings mean different instructions in RV32C and RV64C
+  return !(compressedInfo.rv32Only && XLEN != 32) && !(compressedInfo.rv64Only && XLEN != 64);
+}
+
+function compressedImmediateFieldOf(compressedInfo: CompressedInstructionInfo): ImmediateField | undefined {
+  // As for the base shifts, RV64C's shifts take shift amounts of up to 63
+  return compressedInfo.immediate == SHIFT_AMOUNT && XLEN == 64 ? WIDE_SHIFT_AMOUNT : compressedInfo.immediate;
+}
+
+function isRegisterField(field: CompressedField): field is RegisterField {
+  return typeof field !== "string" && "operand" in field;
+}
+
+export function compressedOperandProblem(instruction: string[]): string | undefined {
+  /**
+   * Checks that the operands of a compressed instruction are ones its encoding
+   * can hold: the registers it can name, and an immediate in its range.
+   *
+   * @param instruction - The compressed instruction's name followed by its operands,
+   *   with registers named as in the assembler and the immediate in decimal
+   * @returns A message explaining what can't be encoded, or undefined if the operands can be
+   */
+  const [instructionName, ...operands] = instruction;
+  const compressedInfo: CompressedInstructionInfo = COMPRESSED_INSTRUCTION_TO_INFO.get(instructionName)!;
+  for (const field of compressedInfo.encoding.filter(isRegisterField)) {
+    const name: string = operands[field.operand];
+    const registerNumber: number = STRINGS_TO_REGISTERS.get(name)!;
+    if (field.encoding == RegisterEncoding.COMPACT && (registerNumber < 8 || registerNumber > 15)) {
+      return `Register ${name} for instruction ${instructionName} must be one of x8 to x15 (s0, s1 and a0 to a5).`;
+    } else if (field.encoding == RegisterEncoding.STACK_POINTER && registerNumber != 2) {
+      return `Register ${name} for instruction ${instructionName} must be sp.`;
+    } else if (field.excluded.includes(registerNumber)) {
+      return `Register ${name} can't be used as this operand of instruction ${instructionName}.`;
+    }
+  }
+  const field: ImmediateField | undefined = compressedImmediateFieldOf(compressedInfo);
+  if (field == undefined) {
+    return undefined;
+  }
+  const value: number = Number(operands[compressedInfo.instructionFormat.indexOf(OperandType.IMMEDIATE)]);
+  if (value < field.min || value > field.max) {
+    return `${field.description} ${value} for instruction ${instructionName} must be between ${field.min} and ${field.max} (inclusive).`;
+  } else if (value % field.multipleOf != 0) {
+    return `${field.description} ${value} for instruction ${instructionName} must be a multiple of ${field.multipleOf}.`;
+  } else if (value == 0 && compressedInfo.nonzeroImmediate) {
+    return `${field.description} for instruction ${instructionName} can't be 0.`;
+  }
+  return undefined;
+}
+
+export function encodeCompressedInstruction(instruction: string[]): string {
+  /**
+   * Encodes a compressed instruction whose operands have been checked by
+   * compressedOperandProblem.
+   *
+   * @param instruction - The compressed instruction's name followed by its operands
+   * @returns The 16 bits of the instruction
+   */
+  const [instructionName, ...operands] = instruction;
+  const compressedInfo: CompressedInstructionInfo = COMPRESSED_INSTRUCTION_TO_INFO.get(instructionName)!;
+  const immediateBits: string = decimalToTwosComplement(
+    Number(operands[compressedInfo.instructionFormat.indexOf(OperandType.IMMEDIATE)] ?? 0),
+  );
+  return compressedInfo.encoding.map((field: CompressedField) => {
+    if (typeof field === "string") {
+      return field;
+    } else if (!isRegisterField(field)) {
+      return field.immediateBits.map((bit: number) => immediateBits[immediateBits.length - 1 - bit]).join("");
+    }
+    const registerNumber: number = STRINGS_TO_REGISTERS.get(operands[field.operand])!;
+    if (field.encoding == RegisterEncoding.COMPACT) {
+      return zeroExtend((registerNumber - 8).toString(2), 3);
+    }
+    return field.encoding == RegisterEncoding.FULL ? zeroExtend(registerNumber.toString(2), 5) : "";
+  }).join("");
+}
+
+function decodeWithInfo(halfword: string, instructionName: string, compressedInfo: CompressedInstructionInfo): string[] | undefined {
+  // Reads the fields of an encoding out of the halfword, or gives up at the first fixed bits which differ
+  const operands: string[] = compressedInfo.instructionFormat.map(() => "");
+  const immediateBits: string[] = [];
+  let position: number = 0;
+  for (const field of compressedInfo.encoding) {
+    if (typeof field === "string") {
+      if (halfword.slice(position, position + field.length) !== field) { return undefined; }
+      position += field.length;
+    } else if (!isRegisterField(field)) {
+      field.immediateBits.forEach((bit: number, i: number) => { immediateBits[bit] = halfword[position + i]; });
+      position += field.immediateBits.length;
+    } else if (field.encoding == RegisterEncoding.COMPACT) {
+      operands[field.operand] = `x${parseInt(halfword.slice(position, position + 3), 2) + 8}`;
+      position += 3;
+    } else if (field.encoding == RegisterEncoding.FULL) {
+      operands[field.operand] = `x${parseInt(halfword.slice(position, position + 5), 2)}`;
+      position += 5;
+    } else {
+      operands[field.operand] = "sp";
+    }
+  }
+  const immediateIndex: number = compressedInfo.instructionFormat.indexOf(OperandType.IMMEDIATE);
+  if (immediateIndex >= 0) {
+    // Bits the encoding leaves out, like the lowest bits of a scaled offset, are zero
+    const bits: string = Array.from(immediateBits, (bit: string | undefined) => bit ?? "0").reverse().join("");
+    const signed: boolean = compressedImmediateFieldOf(compressedInfo)!.min < 0;
+    operands[immediateIndex] = (signed ? twosComplementToDecimal(bits) : parseInt(bits, 2)).toString();
+  }
+  return [instructionName, ...operands];
+}
+
+export function decodeCompressedInstruction(halfword: string): string[] | undefined {
+  /**
+   * Works out which compressed instruction a halfword encodes.
+   *
+   * @param halfword - The 16 bits of the instruction, most significant bit first
+   * @returns The compressed instruction's name followed by its operands, with
+   *   registers named x0 to x31 (or sp) and the immediate in decimal, or
+   *   undefined if the halfword isn't a valid compressed instruction
+   */
+  for (const [instructionName, compressedInfo] of COMPRESSED_INSTRUCTION_TO_INFO) {
+    if (!isAvailable(compressedInfo)) { continue; }
+    const instruction: string[] | undefined = decodeWithInfo(halfword, instructionName, compressedInfo);
+    // Encodings with a reserved register or immediate, like C.ADDI4SPN with an immediate of 0, are invalid
+    if (instruction != undefined && compressedOperandProblem(instruction) == undefined) {
+      return instruction;
+    }
+  }
+  return undefined;
+}
+
+function immediateFieldName(immediateBits: number[]): string {
+  // Runs of consecutive bits are written as ranges, e.g. imm[5:4|9:6|2|3]
+  const runs: number[][] = [];
+  immediateBits.forEach((bit: number, i: number) => {
+    if (i > 0 && immediateBits[i - 1] == bit + 1) {
+      runs[runs.length - 1].push(bit);
+    } else {
+      runs.push([bit]);
+    }
+  });
+  return `imm[${runs.map((run: number[]) => run.length > 1 ? `${run[0]}:${run[run.length - 1]}` : `${run[0]}`).join("|")}]`;
+}
+
+function registerFieldName(compressedInfo: CompressedInstructionInfo, field: RegisterField): string {
+  // Named after the operands of the base instruction it fills, with a prime for the registers x8 to x15
+  const roles: string[] = OPERAND_ROLES.get(INSTRUCTION_TO_INFO.get(compressedInfo.expansion[0])!.instructionFormat) ?? [];
+  return compressedInfo.expansion.slice(1)
+    .flatMap((part: string, i: number) => part === `$${field.operand}` ? [roles[i]] : [])
+    .map((role: string) => field.encoding == RegisterEncoding.COMPACT ? `${role}'` : role)
+    .join("/");
+}
+
+function compressedFormatName(compressedInfo: CompressedInstructionInfo): string {
+  // The specification names the formats after which fields they have, and where
+  const registerFields: RegisterField[] = compressedInfo.encoding.filter(isRegisterField);
+  const compact: boolean = registerFields.some((field: RegisterField) => field.encoding == RegisterEncoding.COMPACT);
+  const stackPointer: boolean = registerFields.some(
+    (field: RegisterField) => field.encoding == RegisterEncoding.STACK_POINTER,
+  );
+  const store: boolean = INSTRUCTION_TO_INFO.get(compressedInfo.expansion[0])!.instructionFormat === S_TYPE;
+  const topLength: number = (compressedInfo.encoding[0] as string).length;
+  if (topLength == 6) {
+    return "CA";
+  } else if (topLength == 4) {
+    return "CR";
+  } else if (registerFields.length == 0 && compressedInfo.instructionFormat !== NONE_TYPE) {
+    return "CJ";
+  } else if (compressedInfo.memoryAccess) {
+    return stackPointer ? (store ? "CSS" : "CI") : (store ? "CS" : "CL");
+  }
+  return compact ? (stackPointer ? "CIW" : "CB") : "CI";
+}
+
+export function compressedLayoutOf(instructionName: string): EncodingLayout {
+  /**
+   * Splits a compressed instruction's encoding into the fields the
+   * specification draws it with, e.g. funct3, imm[5], rd/rs1, imm[4:0] and op
+   * for C.ADDI.
+   *
+   * @param instructionName - The name of the compressed instruction
+   * @returns The name of its format, such as CI, and its fields from bit 15 down
+   */
+  const compressedInfo: CompressedInstructionInfo = COMPRESSED_INSTRUCTION_TO_INFO.get(instructionName)!;
+  const fields: EncodingField[] = [];
+  let high: number = 15;
+  compressedInfo.encoding.forEach((field: CompressedField, i: number) => {
+    let name: string;
+    let kind: FieldKind;
+    let length: number;
+    if (typeof field === "string") {
+      length = field.length;
+      kind = i == compressedInfo.encoding.length - 1 ? FieldKind.OPCODE : FieldKind.FUNCT;
+      // Fixed bits in the middle of an encoding fill in a register, or tell apart instructions sharing a funct3
+      const registerSlot: string | undefined = length == 5 ? (high == 11 ? "rd" : high == 6 ? "rs2" : undefined) : undefined;
+      name = kind == FieldKind.OPCODE ? "op" : registerSlot ?? `funct${length}`;
+    } else if (!isRegisterField(field)) {
+      length = field.immediateBits.length;
+      kind = FieldKind.IMMEDIATE;
+      name = immediateFieldName(field.immediateBits);
+    } else {
+      length = field.encoding == RegisterEncoding.COMPACT ? 3 : field.encoding == RegisterEncoding.FULL ? 5 : 0;
+      kind = FieldKind.REGISTER;
+      name = registerFieldName(compressedInfo, field);
+    }
+    // The stack pointer is implied, so it takes no bits
+    if (length > 0) {
+      fields.push({ name: name, kind: kind, high: high, low: high - length + 1 });
+      high -= length;
+    }
+  });
+  return { formatName: compressedFormatName(compressedInfo), fields: fields };
+}
+
+export function expandCompressedInstruction(instruction: string[]): string[] {
+  /**
+   * Finds the base instruction a compressed instruction stands for, e.g.
+   * ADDI a0 a0 1 for C.ADDI a0 1.
+   *
+   * @param instruction - The compressed instruction's name followed by its operands
+   * @returns The base instruction's name followed by its operands
+   */
+  const [instructionName, ...operands] = instruction;
+  return COMPRESSED_INSTRUCTION_TO_INFO.get(instructionName)!.expansion
+    .map((part: string) => part.startsWith("$") ? operands[Number(part.slice(1))] : part);
+}
+
+function sameOperand(first: string, second: string): boolean {
+  // Registers may be named either way, e.g. a0 and x10
+  return STRINGS_TO_REGISTERS.has(first) || STRINGS_TO_REGISTERS.has(second)
+    ? STRINGS_TO_REGISTERS.get(first) == STRINGS_TO_REGISTERS.get(second)
+    : Number(first) == Number(second);
+}
+
+function matchTemplate(template: string[], instruction: string[], operandCount: number): string[] | undefined {
+  // Finds the operands which make the template of a compressed instruction's expansion equal the instruction
+  if (template.length != instruction.length || template[0] !== instruction[0]) {
+    return undefined;
+  }
+  const operands: (string | undefined)[] = new Array(operandCount).fill(undefined);
+  for (let i: number = 1; i < template.length; i++) {
+    const operand: number | undefined = template[i].startsWith("$") ? Number(template[i].slice(1)) : undefined;
+    const expected: string | undefined = operand == undefined ? template[i] : operands[operand];
+    if (expected != undefined && !sameOperand(expected, instruction[i])) {
+      return undefined;
+    } else if (operand != undefined) {
+      operands[operand] = instruction[i];
+    }
+  }
+  return operands.every((value) => value != undefined) ? operands as string[] : undefined;
+}
+
+export function compressInstruction(instruction: string[]): string[] | undefined {
+  /**
+   * Finds a compressed instruction which does the same as a base instruction.
+   *
+   * @param instruction - The base instruction's name followed by its operands,
+   *   as the assembler writes them
+   * @returns The compressed instruction's name followed by its operands, or
+   *   undefined if the instruction can't be compressed
+   */
+  const instructionInfo: InstructionInfo | undefined = INSTRUCTION_TO_INFO.get(instruction[0]);
+  if (instructionInfo == undefined) {
+    return undefined;
+  }
+  // An immediate is compared by the value its field gives it, so LUI's 0xfffff is -1 like C.LUI's
+  const baseInstruction: string[] = [...instruction];
+  const immediateIndex: number = instructionInfo.instructionFormat.indexOf(OperandType.IMMEDIATE) + 1;
+  const field: ImmediateField | undefined = immediateFieldOf(instructionInfo);
+  if (immediateIndex > 0 && field != undefined) {
+    baseInstruction[immediateIndex] = truncateImmediate(Number(instruction[immediateIndex]), field).toString();
+  }
+  for (const [instructionName, compressedInfo] of COMPRESSED_INSTRUCTION_TO_INFO) {
+    if (!isAvailable(compressedInfo)) { continue; }
+    for (const template of [compressedInfo.expansion, ...(compressedInfo.equivalents ?? [])]) {
+      const operands: string[] | undefined =
+        matchTemplate(template, baseInstruction, compressedInfo.instructionFormat.length);
+      if (operands != undefined && compressedOperandProblem([instructionName, ...operands]) == undefined) {
+        return [instructionName, ...operands];
+      }
+    }
+  }
+  return undefined;
+}
+
+export function instructionLengthOf(instruction: string[]): number {
+  return COMPRESSED_INSTRUCTION_TO_INFO.has(instruction[0]) ? COMPRESSED_INSTRUCTION_LENGTH : INSTRUCTION_LENGTH;
+}
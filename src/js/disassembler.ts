@@ -0,0 +1,308 @@
+/*
+The purpose of this file is to turn machine code back into assembly. It reverses
+what the assembler's encoding functions do: a word is decoded into the
+instruction and operands it encodes, which are then written out the way the
+assembler reads them, so the disassembly of a program assembles back to the
+same machine code. It is used by the memory peeker, the disassembler panel and
+for programs loaded without their source.
+*/
+import {
+  COMPRESSED_INSTRUCTION_TO_INFO,
+  CompressedInstructionInfo,
+  decodeCompressedInstruction,
+} from "./compressed-instructions.js";
+import { ROUNDING_MODE_NAMES, RoundingMode } from "./floating-point.js";
+import {
+  B_TYPE,
+  Base,
+  COMPRESSED_INSTRUCTION_LENGTH,
+  CSR_IMMEDIATE_TYPE,
+  CSR_TYPE,
+  DecodedInstruction,
+  FLOAT_COMPARE_TYPE,
+  FLOAT_LOAD_TYPE,
+  FLOAT_R4_TYPE,
+  FLOAT_R_TYPE,
+  FLOAT_STORE_TYPE,
+  FLOAT_TO_INTEGER_TYPE,
+  FLOAT_UNARY_TYPE,
+  INSTRUCTION_LENGTH,
+  INSTRUCTION_TO_INFO,
+  INTEGER_TO_FLOAT_TYPE,
+  I_TYPE,
+  ImmediateField,
+  InstructionInfo,
+  InstructionInput,
+  J_TYPE,
+  MEMORY_ACCESS_OPCODES,
+  OperandType,
+  PC_RELATIVE_OPCODES,
+  R_TYPE,
+  STRINGS_TO_FLOAT_REGISTERS,
+  STRINGS_TO_REGISTERS,
+  S_TYPE,
+  U_TYPE,
+  decodeInstructionWord,
+  formatAddress,
+  formatCsr,
+  immediateFieldOf,
+  truncateImmediate,
+  zeroExtend,
+} from "./utils.js";
+
+/*** Types ***/
+export interface DisassemblyOptions {
+  abiNames: boolean; // whether registers are named by their ABI names, like a0 and sp, rather than x10 and x2
+  // The address of the instruction, which lets the target of a branch or jump be shown as an address or a label
+  address: number | undefined;
+  symbols: ReadonlyMap<string, number>; // label name -> address, for the labels targets are shown as
+}
+
+// An instruction found in a block of machine code
+export interface DisassembledInstruction {
+  address: number;
+  length: number; // the number of bytes it takes up: 2 for a compressed instruction and 4 otherwise
+  value: number; // the halfword or word it is stored as
+  text: string | undefined; // undefined if the value isn't a valid instruction
+}
+
+export interface HexDisassembly {
+  instructions: DisassembledInstruction[];
+  errMessage: string;
+}
+
+/*** Constants ***/
+export const DEFAULT_DISASSEMBLY_OPTIONS: DisassemblyOptions = {
+  abiNames: false,
+  address: undefined,
+  symbols: new Map(),
+};
+// A halfword or word typed in hexadecimal, with or without 0x in front
+const HEX_VALUE_REGEX: RegExp = /^(?:0x)?([0-9a-f]{1,8})$/i;
+// Values of this many hexadecimal digits or fewer are compressed instructions
+const HALFWORD_DIGITS: number = 4;
+
+/*** Functions ***/
+function registerName(register: string, abiNames: boolean): string {
+  // Each register's numbered name comes first, and its ABI name second; x8 is written s0 rather than fp, as it usually is
+  const names: ReadonlyMap<string, number> = STRINGS_TO_FLOAT_REGISTERS.has(register)
+    ? STRINGS_TO_FLOAT_REGISTERS
+    : STRINGS_TO_REGISTERS;
+  const index: number = names.get(register)!;
+  const registerNames: string[] = Array.from(names.keys())
+    .filter((name: string) => names.get(name) == index && name !== "fp");
+  return registerNames[abiNames ? 1 : 0];
+}
+
+function operandsOf(instructionInfo: InstructionInfo, inputParams: InstructionInput): string[] {
+  /**
+   * Lists a decoded instruction's operands in the order they are written,
+   * which is the reverse of how the assembler fills in an instruction's inputs.
+   *
+   * @param instructionInfo - The information for the instruction
+   * @param inputParams - The instruction's decoded operands
+   * @returns The operands, with registers named x0 to x31 or f0 to f31
+   */
+  // Only the bits of the immediate which its field holds matter, so SRAI's shift amount leaves out funct7
+  const field: ImmediateField | undefined = immediateFieldOf(instructionInfo);
+  const imm: number = field != undefined ? truncateImmediate(inputParams.imm, field) : inputParams.imm;
+  switch (instructionInfo.instructionFormat) {
+    case I_TYPE:
+    case FLOAT_LOAD_TYPE:
+      return [inputParams.rd, inputParams.rs1, `${imm}`];
+    case S_TYPE:
+    case FLOAT_STORE_TYPE:
+      return [inputParams.rs2, inputParams.rs1, `${imm}`];
+    case R_TYPE:
+    case FLOAT_R_TYPE:
+    case FLOAT_COMPARE_TYPE:
+      return [inputParams.rd, inputParams.rs1, inputParams.rs2];
+    case FLOAT_R4_TYPE:
+      return [inputParams.rd, inputParams.rs1, inputParams.rs2, inputParams.rs3];
+    case FLOAT_UNARY_TYPE:
+    case FLOAT_TO_INTEGER_TYPE:
+    case INTEGER_TO_FLOAT_TYPE:
+      return [inputParams.rd, inputParams.rs1];
+    case U_TYPE:
+      // Upper immediates are written as the unsigned 20-bit number, like 0x12345
+      return [inputParams.rd, `0x${(inputParams.imm & 0xfffff).toString(Base.HEXADECIMAL)}`];
+    case J_TYPE:
+      return [inputParams.rd, `${imm}`];
+    case B_TYPE:
+      return [inputParams.rs1, inputParams.rs2, `${imm}`];
+    case CSR_TYPE:
+      return [inputParams.rd, formatCsr(inputParams.csr), inputParams.rs1];
+    case CSR_IMMEDIATE_TYPE:
+      return [inputParams.rd, formatCsr(inputParams.csr), `${imm}`];
+    default:
+      return [];
+  }
+}
+
+function instructionFromDecoded(decodedInstruction: DecodedInstruction): string[] {
+  // A rounding mode other than the dynamic one is written after the operands
+  const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get(decodedInstruction.instructionName)!;
+  const instruction: string[] = [decodedInstruction.instructionName, ...operandsOf(instructionInfo, decodedInstruction.inputParams)];
+  const rm: RoundingMode = decodedInstruction.inputParams.rm;
+  if (instructionInfo.roundingMode && rm != RoundingMode.DYNAMIC) {
+    const modeName: string | undefined = Array.from(ROUNDING_MODE_NAMES.keys())
+      .find((name: string) => ROUNDING_MODE_NAMES.get(name) == rm);
+    instruction.push(modeName ?? `${rm}`);
+  }
+  return instruction;
+}
+
+export function decodeInstructionValue(value: number): string[] | undefined {
+  /**
+   * Works out which instruction a halfword or word encodes. A value whose
+   * lowest two bits aren't 11 is a compressed instruction.
+   *
+   * @param value - The halfword or word
+   * @returns The instruction's name followed by its operands, in the form the
+   *   assembler outputs them, or undefined if the value isn't a valid instruction
+   */
+  if ((value & 0b11) != 0b11) {
+    return decodeCompressedInstruction(zeroExtend((value & 0xffff).toString(Base.BINARY), 16));
+  }
+  const decodedInstruction: DecodedInstruction | undefined = decodeInstructionWord(
+    zeroExtend((value >>> 0).toString(Base.BINARY), 32),
+  );
+  return decodedInstruction != undefined ? instructionFromDecoded(decodedInstruction) : undefined;
+}
+
+function formatTarget(offset: number, options: DisassemblyOptions): string {
+  // A target is shown as a label if it has one, and otherwise as the offset, which is what the assembler reads
+  if (options.address == undefined) {
+    return `${offset}`;
+  }
+  const target: number = options.address + offset;
+  const label: string | undefined = Array.from(options.symbols.keys())
+    .find((name: string) => options.symbols.get(name) == target);
+  return label ?? `${offset}`;
+}
+
+export function formatInstruction(instruction: string[], options: DisassemblyOptions = DEFAULT_DISASSEMBLY_OPTIONS): string {
+  /**
+   * Writes an instruction as a line of assembly, e.g. "LW a0, 8(sp)" or
+   * "BEQ x5, x6, loop".
+   *
+   * A load or store's address is written as offset(rs1). When the address of
+   * the instruction is known, the target of a branch or jump is written as its
+   * label, or as its offset followed by a comment with the target address if
+   * it has no label.
+   *
+   * @param instruction - The instruction's name followed by its operands, as decodeInstructionValue gives them
+   * @param options - How to write registers and targets
+   * @returns The line of assembly
+   */
+  const [instructionName, ...operands] = instruction;
+  const compressedInfo: CompressedInstructionInfo | undefined = COMPRESSED_INSTRUCTION_TO_INFO.get(instructionName);
+  const instructionInfo: InstructionInfo | undefined = INSTRUCTION_TO_INFO.get(instructionName);
+  const instructionFormat: OperandType[] = compressedInfo?.instructionFormat ?? instructionInfo!.instructionFormat;
+  const opcode: string | undefined = instructionInfo?.decodeInfo?.opcode;
+  const pcRelative: boolean = compressedInfo?.pcRelative ?? PC_RELATIVE_OPCODES.includes(opcode!);
+  const memoryAccess: boolean = compressedInfo?.memoryAccess ?? MEMORY_ACCESS_OPCODES.includes(opcode!);
+
+  let comment: string = "";
+  const written: string[] = operands.map((operand: string, i: number) => {
+    if (instructionFormat[i] == OperandType.REGISTER || instructionFormat[i] == OperandType.FLOAT_REGISTER) {
+      return registerName(operand, options.abiNames);
+    } else if (instructionFormat[i] == OperandType.IMMEDIATE && pcRelative) {
+      const target: string = formatTarget(Number(operand), options);
+      if (target === operand && options.address != undefined) {
+        comment = `  # ${formatAddress(options.address + Number(operand))}`;
+      }
+      return target;
+    }
+    return operand;
+  });
+  if (memoryAccess) {
+    // The base register and offset are the last two operands
+    written.splice(written.length - 2, 2, `${written[written.length - 1]}(${written[written.length - 2]})`);
+  }
+  return `${instructionName}${written.length > 0 ? " " : ""}${written.join(", ")}${comment}`;
+}
+
+export function disassemble(value: number, options: DisassemblyOptions = DEFAULT_DISASSEMBLY_OPTIONS): string | undefined {
+  /**
+   * Turns a halfword or word of machine code into a line of assembly.
+   *
+   * @param value - The compressed instruction's halfword, or the instruction word
+   * @param options - How to write registers and targets
+   * @returns The line of assembly, or undefined if the value isn't a valid instruction
+   */
+  const instruction: string[] | undefined = decodeInstructionValue(value);
+  return instruction != undefined ? formatInstruction(instruction, options) : undefined;
+}
+
+export function disassembleBytes(
+  bytes: Uint8Array,
+  baseAddress: number,
+  options: DisassemblyOptions = DEFAULT_DISASSEMBLY_OPTIONS,
+): DisassembledInstruction[] {
+  /**
+   * Disassembles a block of machine code instruction by instruction. Each
+   * instruction is 4 bytes long unless the lowest two bits of its first
+   * halfword aren't 11, in which case it is a 2-byte compressed instruction.
+   *
+   * @param bytes - The machine code, in little-endian order
+   * @param baseAddress - The address of the first byte
+   * @param options - How to write registers and targets; the address is worked out for each instruction
+   * @returns The instructions, in order
+   */
+  const instructions: DisassembledInstruction[] = [];
+  for (let offset: number = 0; offset + COMPRESSED_INSTRUCTION_LENGTH <= bytes.length;) {
+    let length: number = (bytes[offset] & 0b11) == 0b11 ? INSTRUCTION_LENGTH : COMPRESSED_INSTRUCTION_LENGTH;
+    // A word cut short by the end of the block is left as a halfword
+    if (offset + length > bytes.length) {
+      length = COMPRESSED_INSTRUCTION_LENGTH;
+    }
+    let value: number = 0;
+    for (let i: number = length - 1; i >= 0; i--) {
+      value = value * 256 + bytes[offset + i];
+    }
+    const address: number = baseAddress + offset;
+    instructions.push({
+      address: address,
+      length: length,
+      value: value,
+      text: disassemble(value, { ...options, address: address }),
+    });
+    offset += length;
+  }
+  return instructions;
+}
+
+export function disassembleHex(text: string, options: DisassemblyOptions = DEFAULT_DISASSEMBLY_OPTIONS): HexDisassembly {
+  /**
+   * Disassembles machine code typed as hexadecimal values separated by spaces,
+   * commas or new lines, such as "00500513 0x00a50593". A value of up to four
+   * digits is a compressed instruction's halfword, and a longer one an
+   * instruction word. They are placed one after another from the address in
+   * the options, or from address 0.
+   *
+   * @param text - The hexadecimal values
+   * @param options - How to write registers and targets
+   * @returns The instructions, or an error message if a value isn't hexadecimal
+   */
+  const instructions: DisassembledInstruction[] = [];
+  let address: number = options.address ?? 0;
+  for (const token of text.split(/[\s,]+/).filter((token: string) => token !== "")) {
+    const hexMatch: RegExpMatchArray | null = token.match(HEX_VALUE_REGEX);
+    if (hexMatch == null) {
+      return { instructions: [], errMessage: `"${token}" is not a hexadecimal halfword or word, such as 00500513.` };
+    }
+    const value: number = parseInt(hexMatch[1], Base.HEXADECIMAL);
+    const length: number = hexMatch[1].length <= HALFWORD_DIGITS ? COMPRESSED_INSTRUCTION_LENGTH : INSTRUCTION_LENGTH;
+    // A halfword ending in 11 would be the first half of a word, so on its own it isn't an instruction
+    const valid: boolean = (length == INSTRUCTION_LENGTH) == ((value & 0b11) == 0b11);
+    instructions.push({
+      address: address,
+      length: length,
+      value: value,
+      text: valid ? disassemble(value, { ...options, address: address }) : undefined,
+    });
+    address += length;
+  }
+  return { instructions: instructions, errMessage: "" };
+}
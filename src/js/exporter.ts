@@ -0,0 +1,205 @@
+/*
+The purpose of this file is to write an assembled or loaded program's machine
+code out in the formats which other tools read, so that it can be run on a CPU
+built in Logisim or simulated in a Verilog testbench, or burned into a ROM.
+*/
+import { Base, MemorySegment, zeroExtend } from "./utils.js";
+
+/*** Types ***/
+export enum ExportFormat {
+  INTEL_HEX = "Intel HEX",
+  BINARY = "Raw binary",
+  READMEMH = "Verilog $readmemh",
+  READMEMB = "Verilog $readmemb",
+  LOGISIM = "Logisim image",
+  C_ARRAY = "C array",
+}
+
+/*** Constants ***/
+// The name each format's file is downloaded as
+export const EXPORT_FILE_NAMES: Map<ExportFormat, string> = new Map([
+  [ExportFormat.INTEL_HEX, "program.hex"],
+  [ExportFormat.BINARY, "program.bin"],
+  [ExportFormat.READMEMH, "program_h.mem"],
+  [ExportFormat.READMEMB, "program_b.mem"],
+  [ExportFormat.LOGISIM, "program.img"],
+  [ExportFormat.C_ARRAY, "program.h"],
+]);
+// Intel HEX records hold 16 bytes at most, at a 16-bit address within a 64 KiB block
+const HEX_RECORD_LENGTH: number = 16;
+const HEX_DATA_RECORD: number = 0x00;
+const HEX_END_OF_FILE_RECORD: number = 0x01;
+const HEX_EXTENDED_LINEAR_ADDRESS_RECORD: number = 0x04;
+// The text formats hold one 32-bit word per entry, and Logisim and C lines hold this many entries
+const WORD_BYTES: number = 4;
+const WORDS_PER_LINE: number = 8;
+
+/*** Functions ***/
+function hexByte(byte: number): string {
+  return byte.toString(Base.HEXADECIMAL).toUpperCase().padStart(2, "0");
+}
+
+function wordAt(bytes: Uint8Array, offset: number): number {
+  // Words are stored little-endian, so the byte at the lowest address is the least significant
+  let word: number = 0;
+  for (let i: number = WORD_BYTES - 1; i >= 0; i--) {
+    word = word * 256 + (bytes[offset + i] ?? 0);
+  }
+  return word;
+}
+
+function wordsOf(bytes: Uint8Array): number[] {
+  // A segment which isn't a whole number of words is padded with zeros
+  const words: number[] = [];
+  for (let offset: number = 0; offset < bytes.length; offset += WORD_BYTES) {
+    words.push(wordAt(bytes, offset));
+  }
+  return words;
+}
+
+function formatWord(word: number, base: Base.BINARY | Base.HEXADECIMAL): string {
+  return zeroExtend(word.toString(base), base == Base.BINARY ? 32 : 8);
+}
+
+export function flatImage(segments: MemorySegment[]): Uint8Array {
+  /**
+   * Lays the segments out in one block of bytes, as they are placed in memory,
+   * from address 0 to the end of the highest segment. The gaps between them
+   * are filled with zeros.
+   *
+   * @param segments - The bytes the program places in memory
+   * @returns The bytes of memory from address 0
+   */
+  const image: Uint8Array = new Uint8Array(Math.max(0, ...segments.map(
+    (segment: MemorySegment) => segment.address + segment.bytes.length,
+  )));
+  segments.forEach((segment: MemorySegment) => image.set(segment.bytes, segment.address));
+  return image;
+}
+
+function hexRecord(type: number, address: number, data: number[]): string {
+  // A record's checksum makes the sum of its bytes, from the length to the checksum itself, zero
+  const bytes: number[] = [data.length, (address >> 8) & 0xff, address & 0xff, type, ...data];
+  const checksum: number = (0x100 - (bytes.reduce((sum: number, byte: number) => sum + byte, 0) & 0xff)) & 0xff;
+  return `:${[...bytes, checksum].map(hexByte).join("")}`;
+}
+
+export function toIntelHex(segments: MemorySegment[]): string {
+  /**
+   * Writes the segments as Intel HEX, which EPROM programmers, Logisim
+   * Evolution and most microcontroller tools read. Each segment is split into
+   * data records, and an extended linear address record precedes the records
+   * of every 64 KiB block after the first.
+   *
+   * @param segments - The bytes the program places in memory
+   * @returns The lines of the file
+   */
+  const records: string[] = [];
+  let upperAddress: number = 0;
+  segments.forEach((segment: MemorySegment) => {
+    for (let offset: number = 0; offset < segment.bytes.length;) {
+      const address: number = segment.address + offset;
+      if (Math.floor(address / 0x10000) != upperAddress) {
+        upperAddress = Math.floor(address / 0x10000);
+        records.push(hexRecord(HEX_EXTENDED_LINEAR_ADDRESS_RECORD, 0, [(upperAddress >> 8) & 0xff, upperAddress & 0xff]));
+      }
+      // A record doesn't cross into the next 64 KiB block
+      const length: number = Math.min(HEX_RECORD_LENGTH, segment.bytes.length - offset, 0x10000 - address % 0x10000);
+      records.push(hexRecord(HEX_DATA_RECORD, address % 0x10000, Array.from(segment.bytes.subarray(offset, offset + length))));
+      offset += length;
+    }
+  });
+  records.push(hexRecord(HEX_END_OF_FILE_RECORD, 0, []));
+  return records.join("\n") + "\n";
+}
+
+export function toReadmem(segments: MemorySegment[], base: Base.BINARY | Base.HEXADECIMAL): string {
+  /**
+   * Writes the segments as a memory image for Verilog's $readmemh (in
+   * hexadecimal) or $readmemb (in binary), with one 32-bit word per line. Each
+   * segment starts with an @ line giving its address in words, so the file is
+   * read into a memory declared as, for example, reg [31:0] mem [0:255].
+   *
+   * @param segments - The bytes the program places in memory
+   * @param base - Base.HEXADECIMAL for $readmemh or Base.BINARY for $readmemb
+   * @returns The lines of the file
+   */
+  const lines: string[] = [];
+  segments.forEach((segment: MemorySegment) => {
+    // A segment which doesn't start on a word boundary starts with the word holding its first byte
+    const firstWord: number = Math.floor(segment.address / WORD_BYTES);
+    const padded: Uint8Array = new Uint8Array(segment.address % WORD_BYTES + segment.bytes.length);
+    padded.set(segment.bytes, segment.address % WORD_BYTES);
+    lines.push(`@${firstWord.toString(Base.HEXADECIMAL)}`);
+    wordsOf(padded).forEach((word: number) => lines.push(formatWord(word, base)));
+  });
+  return lines.join("\n") + "\n";
+}
+
+export function toLogisimImage(segments: MemorySegment[]): string {
+  /**
+   * Writes the segments as a Logisim "v2.0 raw" image, which a ROM or RAM
+   * component with 32-bit data loads through "Load Image...". The image starts
+   * at address 0, with one word per entry, and a run of the same word, such as
+   * the gap before the data segment, is written once as count*word.
+   *
+   * @param segments - The bytes the program places in memory
+   * @returns The lines of the file
+   */
+  const words: number[] = wordsOf(flatImage(segments));
+  const entries: string[] = [];
+  for (let i: number = 0; i < words.length;) {
+    let runLength: number = 1;
+    while (words[i + runLength] === words[i]) {
+      runLength++;
+    }
+    const word: string = words[i].toString(Base.HEXADECIMAL);
+    entries.push(runLength > 1 ? `${runLength}*${word}` : word);
+    i += runLength;
+  }
+  const lines: string[] = ["v2.0 raw"];
+  for (let i: number = 0; i < entries.length; i += WORDS_PER_LINE) {
+    lines.push(entries.slice(i, i + WORDS_PER_LINE).join(" "));
+  }
+  return lines.join("\n") + "\n";
+}
+
+export function toCArray(segments: MemorySegment[]): string {
+  /**
+   * Writes the segments as a C array of 32-bit words starting at address 0,
+   * for a testbench or emulator written in C or C++ to copy into its memory.
+   *
+   * @param segments - The bytes the program places in memory
+   * @returns The lines of the file
+   */
+  const words: string[] = wordsOf(flatImage(segments)).map((word: number) => `0x${formatWord(word, Base.HEXADECIMAL)}`);
+  const lines: string[] = [
+    "#include <stdint.h>",
+    "",
+    "// The program's memory from address 0, one little-endian word per element",
+    `const uint32_t program[${words.length}] = {`,
+  ];
+  for (let i: number = 0; i < words.length; i += WORDS_PER_LINE) {
+    lines.push(`  ${words.slice(i, i + WORDS_PER_LINE).join(", ")},`);
+  }
+  lines.push("};");
+  return lines.join("\n") + "\n";
+}
+
+export function exportProgram(segments: MemorySegment[], format: ExportFormat): string | Uint8Array {
+  /**
+   * Writes the segments in one of the export formats.
+   *
+   * @param segments - The bytes the program places in memory, such as machine.segments
+   * @param format - The format to write
+   * @returns The contents of the file: bytes for a raw binary, and text for every other format
+   */
+  switch (format) {
+    case ExportFormat.INTEL_HEX: return toIntelHex(segments);
+    case ExportFormat.BINARY: return flatImage(segments);
+    case ExportFormat.READMEMH: return toReadmem(segments, Base.HEXADECIMAL);
+    case ExportFormat.READMEMB: return toReadmem(segments, Base.BINARY);
+    case ExportFormat.LOGISIM: return toLogisimImage(segments);
+    default: return toCArray(segments);
+  }
+}
@@ -0,0 +1,419 @@
+/*
+The purpose of this file is to implement the single-precision arithmetic of
+the F extension. JavaScript only calculates in double precision, so each
+operation works out a double close to the exact result, along with whether the
+exact result lies above or below it, and then rounds that to single precision
+in the rounding mode the instruction asks for. Values are passed around as the
+32-bit patterns held in the f registers.
+*/
+
+/*** Constants and Types ***/
+// The rounding modes an instruction's rm field can hold; DYNAMIC uses the mode in the frm field of fcsr
+export enum RoundingMode {
+  NEAREST_EVEN = 0,
+  TOWARD_ZERO = 1,
+  DOWN = 2,
+  UP = 3,
+  NEAREST_MAX_MAGNITUDE = 4,
+  DYNAMIC = 7,
+}
+
+// The names a rounding mode can be written with as the last operand of an instruction
+export const ROUNDING_MODE_NAMES: ReadonlyMap<string, RoundingMode> = new Map([
+  ["rne", RoundingMode.NEAREST_EVEN],
+  ["rtz", RoundingMode.TOWARD_ZERO],
+  ["rdn", RoundingMode.DOWN],
+  ["rup", RoundingMode.UP],
+  ["rmm", RoundingMode.NEAREST_MAX_MAGNITUDE],
+  ["dyn", RoundingMode.DYNAMIC],
+]);
+
+// The exception flags in the fflags field of fcsr, which stay set until the program clears them
+export enum ExceptionFlag {
+  INEXACT = 1, // NX
+  UNDERFLOW = 2, // UF
+  OVERFLOW = 4, // OF
+  DIVIDE_BY_ZERO = 8, // DZ
+  INVALID = 16, // NV
+}
+
+export const EXCEPTION_FLAG_NAMES: ReadonlyMap<ExceptionFlag, string> = new Map([
+  [ExceptionFlag.INVALID, "NV"],
+  [ExceptionFlag.DIVIDE_BY_ZERO, "DZ"],
+  [ExceptionFlag.OVERFLOW, "OF"],
+  [ExceptionFlag.UNDERFLOW, "UF"],
+  [ExceptionFlag.INEXACT, "NX"],
+]);
+
+// The result of an operation, as the bits of a single or a 32-bit integer, and the exceptions it raised
+export interface FloatResult {
+  bits: number;
+  flags: number;
+}
+
+// Every operation which produces a NaN produces this one
+export const CANONICAL_NAN: number = 0x7fc00000;
+
+const SIGN_BIT: number = 0x80000000;
+const QUIET_BIT: number = 0x00400000;
+const SMALLEST_NORMAL: number = Math.pow(2, -126);
+// The magnitude a result has to round up to before it overflows to infinity
+const OVERFLOW_THRESHOLD: number = Math.pow(2, 128);
+// Splits a double into two halves whose products with another half are exact
+const SPLIT_FACTOR: number = Math.pow(2, 27) + 1;
+
+const conversionView: DataView = new DataView(new ArrayBuffer(4));
+
+/*** Bit Patterns ***/
+export function bitsToSingle(bits: number): number {
+  conversionView.setUint32(0, bits);
+  return conversionView.getFloat32(0);
+}
+
+export function singleToBits(value: number): number {
+  conversionView.setFloat32(0, value);
+  return conversionView.getUint32(0);
+}
+
+export function formatSingle(bits: number): string {
+  /**
+   * Writes a single-precision number in decimal with as few digits as it takes
+   * to read back as the same single, e.g. 0.1 rather than 0.10000000149011612.
+   *
+   * @param bits - The 32-bit pattern of the single
+   * @returns The number in decimal, or "NaN", "Infinity" or "-Infinity"
+   */
+  const value: number = bitsToSingle(bits);
+  if (!Number.isFinite(value)) {
+    return `${value}`;
+  } else if (value == 0) {
+    return (bits & SIGN_BIT) != 0 ? "-0" : "0";
+  }
+  // Nine significant digits are always enough to tell singles apart
+  for (let digits: number = 1; digits < 9; digits++) {
+    const text: string = value.toPrecision(digits);
+    if (Math.fround(Number(text)) == value) {
+      return `${Number(text)}`;
+    }
+  }
+  return `${Number(value.toPrecision(9))}`;
+}
+
+function isNaNBits(bits: number): boolean {
+  return (bits & 0x7f800000) == 0x7f800000 && (bits & 0x007fffff) != 0;
+}
+
+function isSignalingNaN(bits: number): boolean {
+  return isNaNBits(bits) && (bits & QUIET_BIT) == 0;
+}
+
+function nanResult(operands: number[], invalid: boolean = false): FloatResult {
+  /**
+   * The result of an operation with a NaN operand, or of an invalid operation.
+   * A signaling NaN operand makes the operation invalid too.
+   */
+  const signaling: boolean = operands.some(isSignalingNaN);
+  return { bits: CANONICAL_NAN, flags: invalid || signaling ? ExceptionFlag.INVALID : 0 };
+}
+
+/*** Rounding ***/
+function twoSum(a: number, b: number): { sum: number; error: number } {
+  // The rounded sum of two doubles, and the exact error of rounding it (Knuth)
+  const sum: number = a + b;
+  const bVirtual: number = sum - a;
+  return { sum: sum, error: (a - (sum - bVirtual)) + (b - bVirtual) };
+}
+
+function twoProduct(a: number, b: number): { product: number; error: number } {
+  // The rounded product of two doubles, and the exact error of rounding it (Dekker)
+  const split = (x: number): [number, number] => {
+    const scaled: number = SPLIT_FACTOR * x;
+    const high: number = scaled - (scaled - x);
+    return [high, x - high];
+  };
+  const product: number = a * b;
+  const [aHigh, aLow] = split(a);
+  const [bHigh, bLow] = split(b);
+  return { product: product, error: ((aHigh * bHigh - product) + aHigh * bLow + aLow * bHigh) + aLow * bLow };
+}
+
+function roundMagnitude(
+  magnitude: number,
+  residual: number,
+  awayFromZero: (magnitude: number, low: number, high: number) => boolean,
+): number {
+  /**
+   * Rounds a positive value to a single, returning infinity when it overflows.
+   *
+   * @param magnitude - A double close to the exact value
+   * @param residual - Positive if the exact value is above the double, negative if below, zero if they are equal
+   * @param awayFromZero - Chooses whether to round up, given the value and the singles either side of it
+   * @returns The rounded value
+   */
+  const nearest: number = Math.fround(magnitude);
+  if (nearest == magnitude && residual == 0) {
+    return nearest;
+  }
+  let low: number;
+  let high: number;
+  if (nearest < magnitude || (nearest == magnitude && residual > 0)) {
+    low = nearest;
+    high = bitsToSingle(singleToBits(nearest) + 1);
+  } else {
+    high = nearest;
+    low = bitsToSingle(singleToBits(nearest) - 1);
+  }
+  return awayFromZero(magnitude, low, high) ? high : low;
+}
+
+export function roundToSingle(value: number, residual: number, mode: RoundingMode): FloatResult {
+  /**
+   * Rounds an exact result to single precision in a rounding mode, working out
+   * which of the overflow, underflow and inexact exceptions it raises.
+   *
+   * The exact result is a double plus a residual much smaller than the double's
+   * last bit, so only the sign of the residual matters. Tininess is detected
+   * after rounding, as RISC-V requires.
+   *
+   * @param value - A finite double close to the exact result
+   * @param residual - Positive if the exact result is above value, negative if below, zero if equal
+   * @param mode - The rounding mode, which mustn't be DYNAMIC
+   * @returns The bits of the rounded single and the exceptions raised
+   */
+  const negative: boolean = value < 0 || Object.is(value, -0);
+  const magnitude: number = Math.abs(value);
+  const magnitudeResidual: number = negative ? -residual : residual;
+  const awayFromZero = (approximation: number, low: number, high: number): boolean => {
+    switch (mode) {
+      case RoundingMode.TOWARD_ZERO: return false;
+      case RoundingMode.DOWN: return negative;
+      case RoundingMode.UP: return !negative;
+      default: {
+        // The distances are exact, as the singles either side are within a factor of two of the value
+        const toLow: number = approximation - low;
+        const toHigh: number = (high == Infinity ? OVERFLOW_THRESHOLD : high) - approximation;
+        if (toLow != toHigh) { return toHigh < toLow; }
+        if (magnitudeResidual != 0) { return magnitudeResidual > 0; }
+        // A tie goes to the even single, or away from zero in NEAREST_MAX_MAGNITUDE
+        return mode == RoundingMode.NEAREST_MAX_MAGNITUDE || (singleToBits(high) & 1) == 0;
+      }
+    }
+  };
+
+  const rounded: number = roundMagnitude(magnitude, magnitudeResidual, awayFromZero);
+  let flags: number = 0;
+  if (rounded != magnitude || magnitudeResidual != 0) {
+    flags |= ExceptionFlag.INEXACT;
+    // Overflow means the result, rounded without a limit on the exponent, would be too large
+    if (rounded == Infinity || magnitude >= OVERFLOW_THRESHOLD) {
+      flags |= ExceptionFlag.OVERFLOW;
+    }
+    // Tiny results are found by rounding with a wider exponent range, which scaling the value up gives
+    const scale: number = Math.pow(2, 64);
+    if (
+      magnitude < SMALLEST_NORMAL
+      && roundMagnitude(magnitude * scale, magnitudeResidual, awayFromZero) < SMALLEST_NORMAL * scale
+    ) {
+      flags |= ExceptionFlag.UNDERFLOW;
+    }
+  }
+  return { bits: (singleToBits(rounded) | (negative ? SIGN_BIT : 0)) >>> 0, flags: flags };
+}
+
+function exactSum(a: number, b: number, mode: RoundingMode): FloatResult {
+  /**
+   * Rounds the sum of two doubles, neither of them NaN.
+   *
+   * An exactly zero sum of operands with different signs is +0, or -0 when
+   * rounding down, and infinite operands give infinite sums.
+   */
+  if (!Number.isFinite(a) || !Number.isFinite(b)) {
+    if (a == -b) {
+      return { bits: CANONICAL_NAN, flags: ExceptionFlag.INVALID };
+    }
+    return { bits: singleToBits(a + b), flags: 0 };
+  }
+  const { sum, error } = twoSum(a, b);
+  if (sum == 0 && error == 0) {
+    const bothNegative: boolean = Object.is(a, -0) && Object.is(b, -0);
+    const bothPositive: boolean = Object.is(a, 0) && Object.is(b, 0);
+    return { bits: bothNegative || (mode == RoundingMode.DOWN && !bothPositive) ? SIGN_BIT : 0, flags: 0 };
+  }
+  return roundToSingle(sum, error, mode);
+}
+
+/*** Arithmetic ***/
+export function addSingles(a: number, b: number, mode: RoundingMode): FloatResult {
+  if (isNaNBits(a) || isNaNBits(b)) { return nanResult([a, b]); }
+  return exactSum(bitsToSingle(a), bitsToSingle(b), mode);
+}
+
+export function subtractSingles(a: number, b: number, mode: RoundingMode): FloatResult {
+  if (isNaNBits(a) || isNaNBits(b)) { return nanResult([a, b]); }
+  return exactSum(bitsToSingle(a), -bitsToSingle(b), mode);
+}
+
+export function multiplySingles(a: number, b: number, mode: RoundingMode): FloatResult {
+  if (isNaNBits(a) || isNaNBits(b)) { return nanResult([a, b]); }
+  const [x, y] = [bitsToSingle(a), bitsToSingle(b)];
+  if ((x == 0 && !Number.isFinite(y)) || (y == 0 && !Number.isFinite(x))) {
+    return nanResult([a, b], true);
+  }
+  // Products of singles have at most 48 significant bits, so are exact as doubles
+  return roundToSingle(x * y, 0, mode);
+}
+
+export function divideSingles(a: number, b: number, mode: RoundingMode): FloatResult {
+  if (isNaNBits(a) || isNaNBits(b)) { return nanResult([a, b]); }
+  const [x, y] = [bitsToSingle(a), bitsToSingle(b)];
+  if ((x == 0 && y == 0) || (!Number.isFinite(x) && !Number.isFinite(y))) {
+    return nanResult([a, b], true);
+  } else if (y == 0) {
+    return { bits: singleToBits(x / y), flags: Number.isFinite(x) ? ExceptionFlag.DIVIDE_BY_ZERO : 0 };
+  } else if (!Number.isFinite(x) || !Number.isFinite(y)) {
+    return { bits: singleToBits(x / y), flags: 0 };
+  }
+  // The exact quotient is above the rounded one when x - quotient * y has the sign of y
+  const quotient: number = x / y;
+  const { product, error } = twoProduct(quotient, y);
+  const remainder: number = x - product;
+  return roundToSingle(quotient, Math.sign(remainder - error) * Math.sign(y), mode);
+}
+
+export function squareRootSingle(a: number, mode: RoundingMode): FloatResult {
+  if (isNaNBits(a)) { return nanResult([a]); }
+  const x: number = bitsToSingle(a);
+  if (x < 0) {
+    return nanResult([a], true);
+  } else if (x == 0 || x == Infinity) {
+    return { bits: a, flags: 0 };
+  }
+  const root: number = Math.sqrt(x);
+  const { product, error } = twoProduct(root, root);
+  return roundToSingle(root, Math.sign((x - product) - error), mode);
+}
+
+export function fusedMultiplyAdd(
+  a: number,
+  b: number,
+  c: number,
+  negateProduct: boolean,
+  negateAddend: boolean,
+  mode: RoundingMode,
+): FloatResult {
+  /**
+   * Calculates a * b + c with a single rounding, negating the product or the
+   * addend as FMSUB, FNMSUB and FNMADD do. Multiplying zero by infinity is
+   * invalid even when the addend is a quiet NaN.
+   */
+  const [x, y] = [bitsToSingle(a), bitsToSingle(b)];
+  if ((x == 0 && Math.abs(y) == Infinity) || (y == 0 && Math.abs(x) == Infinity)) {
+    return nanResult([a, b, c], true);
+  } else if (isNaNBits(a) || isNaNBits(b) || isNaNBits(c)) {
+    return nanResult([a, b, c]);
+  }
+  const product: number = negateProduct ? -(x * y) : x * y;
+  const addend: number = negateAddend ? -bitsToSingle(c) : bitsToSingle(c);
+  return exactSum(product, addend, mode);
+}
+
+/*** Conversions ***/
+function roundToInteger(value: number, mode: RoundingMode): number {
+  const floor: number = Math.floor(value);
+  const fraction: number = value - floor;
+  switch (mode) {
+    case RoundingMode.TOWARD_ZERO: return Math.trunc(value);
+    case RoundingMode.DOWN: return floor;
+    case RoundingMode.UP: return Math.ceil(value);
+    default:
+      if (fraction != 0.5) { return fraction < 0.5 ? floor : floor + 1; }
+      if (mode == RoundingMode.NEAREST_MAX_MAGNITUDE) { return value < 0 ? floor : floor + 1; }
+      return floor % 2 == 0 ? floor : floor + 1;
+  }
+}
+
+export function singleToInteger(a: number, signed: boolean, mode: RoundingMode): FloatResult {
+  /**
+   * Converts a single to a signed or unsigned 32-bit integer. Values which are
+   * out of range are invalid and give the nearest integer in range, while NaN
+   * gives the largest integer.
+   *
+   * @returns The bits of the integer, as an unsigned number, and the exceptions raised
+   */
+  const [min, max] = signed ? [-Math.pow(2, 31), Math.pow(2, 31) - 1] : [0, Math.pow(2, 32) - 1];
+  if (isNaNBits(a)) {
+    return { bits: max >>> 0, flags: ExceptionFlag.INVALID };
+  }
+  const value: number = bitsToSingle(a);
+  const rounded: number = Number.isFinite(value) ? roundToInteger(value, mode) : value;
+  if (rounded < min || rounded > max) {
+    return { bits: (rounded < min ? min : max) >>> 0, flags: ExceptionFlag.INVALID };
+  }
+  return { bits: rounded >>> 0, flags: rounded == value ? 0 : ExceptionFlag.INEXACT };
+}
+
+export function integerToSingle(value: number, mode: RoundingMode): FloatResult {
+  // 32-bit integers are exact as doubles, so only the rounding to single loses precision
+  return roundToSingle(value, 0, mode);
+}
+
+/*** Comparisons and Classification ***/
+export function minMaxSingles(a: number, b: number, maximum: boolean): FloatResult {
+  /**
+   * Picks the smaller or larger of two singles, where -0 is smaller than +0.
+   * When only one is NaN the other is picked, and when both are the result is
+   * the canonical NaN. Only signaling NaNs are invalid.
+   */
+  const flags: number = isSignalingNaN(a) || isSignalingNaN(b) ? ExceptionFlag.INVALID : 0;
+  if (isNaNBits(a) && isNaNBits(b)) {
+    return { bits: CANONICAL_NAN, flags: flags };
+  } else if (isNaNBits(a) || isNaNBits(b)) {
+    return { bits: isNaNBits(a) ? b : a, flags: flags };
+  }
+  const [x, y] = [bitsToSingle(a), bitsToSingle(b)];
+  // Signed zeros compare equal, so they are told apart by their sign bits
+  const aIsLess: boolean = x < y || (x == y && (a & SIGN_BIT) != 0);
+  return { bits: aIsLess != maximum ? a : b, flags: flags };
+}
+
+export function compareSingles(a: number, b: number, comparison: "eq" | "lt" | "le"): FloatResult {
+  /**
+   * Compares two singles, giving 1 if the comparison holds and 0 otherwise.
+   * Comparisons with NaN never hold. Equality is a quiet comparison, which only
+   * a signaling NaN makes invalid, while less than comparisons with any NaN are
+   * invalid.
+   */
+  if (isNaNBits(a) || isNaNBits(b)) {
+    const invalid: boolean = comparison != "eq" || isSignalingNaN(a) || isSignalingNaN(b);
+    return { bits: 0, flags: invalid ? ExceptionFlag.INVALID : 0 };
+  }
+  const [x, y] = [bitsToSingle(a), bitsToSingle(b)];
+  const holds: boolean = comparison == "eq" ? x == y : comparison == "lt" ? x < y : x <= y;
+  return { bits: holds ? 1 : 0, flags: 0 };
+}
+
+export function classifySingle(a: number): number {
+  /**
+   * Works out the class of a single for FCLASS.S, as a mask with exactly one of
+   * these bits set: 0 for -infinity, 1 for a negative normal number, 2 for a
+   * negative subnormal number, 3 for -0, 4 for +0, 5 for a positive subnormal
+   * number, 6 for a positive normal number, 7 for +infinity, 8 for a signaling
+   * NaN and 9 for a quiet NaN.
+   */
+  if (isNaNBits(a)) {
+    return isSignalingNaN(a) ? 1 << 8 : 1 << 9;
+  }
+  const value: number = bitsToSingle(a);
+  const negative: boolean = (a & SIGN_BIT) != 0;
+  let positiveClass: number;
+  if (!Number.isFinite(value)) {
+    positiveClass = 7;
+  } else if (value == 0) {
+    positiveClass = 4;
+  } else if (Math.abs(value) < SMALLEST_NORMAL) {
+    positiveClass = 5;
+  } else {
+    positiveClass = 6;
+  }
+  return 1 << (negative ? 7 - positiveClass : positiveClass);
+}
@@ -0,0 +1,222 @@
+/*
+The purpose of this file is to split an instruction's machine code into the
+fields its format is made of, such as the opcode, funct3, the registers and
+the immediate, so that the page can show which bits of a word hold what. The
+immediates of B-type and J-type instructions are split into the scrambled
+pieces they are stored as.
+*/
+import { COMPRESSED_INSTRUCTION_TO_INFO, compressedLayoutOf } from "./compressed-instructions.js";
+import { decodeInstructionValue } from "./disassembler.js";
+import {
+  B_TYPE,
+  Base,
+  COMPRESSED_INSTRUCTION_LENGTH,
+  CSR_IMMEDIATE_TYPE,
+  CSR_TYPE,
+  EncodingField,
+  EncodingLayout,
+  FLOAT_COMPARE_TYPE,
+  FLOAT_LOAD_TYPE,
+  FLOAT_R4_TYPE,
+  FLOAT_R_TYPE,
+  FLOAT_STORE_TYPE,
+  FLOAT_TO_INTEGER_TYPE,
+  FLOAT_UNARY_TYPE,
+  FieldKind,
+  INSTRUCTION_LENGTH,
+  INSTRUCTION_TO_INFO,
+  INTEGER_TO_FLOAT_TYPE,
+  I_TYPE,
+  InstructionDecodeInfo,
+  InstructionInfo,
+  J_TYPE,
+  NONE_TYPE,
+  OperandType,
+  R_TYPE,
+  S_TYPE,
+  U_TYPE,
+  immediateFieldOf,
+  zeroExtend,
+} from "./utils.js";
+
+/*** Types ***/
+// A field of an instruction, along with the bits it holds in one particular encoding
+export interface InstructionField extends EncodingField {
+  bits: string; // most significant bit first
+  value: number; // the bits read as an unsigned number
+}
+
+export interface InstructionEncoding {
+  instructionName: string;
+  formatName: string; // e.g. "I-type", or "CI" for a compressed instruction
+  length: number; // in bytes
+  fields: InstructionField[];
+}
+
+/*** Encoding Field Functions ***/
+function field(name: string, kind: FieldKind, high: number, low: number): EncodingField {
+  return { name: name, kind: kind, high: high, low: low };
+}
+
+/*** Constants ***/
+const OPCODE_FIELD: EncodingField = field("opcode", FieldKind.OPCODE, 6, 0);
+const RD_FIELD: EncodingField = field("rd", FieldKind.REGISTER, 11, 7);
+const FUNCT3_FIELD: EncodingField = field("funct3", FieldKind.FUNCT, 14, 12);
+const RS1_FIELD: EncodingField = field("rs1", FieldKind.REGISTER, 19, 15);
+const RS2_FIELD: EncodingField = field("rs2", FieldKind.REGISTER, 24, 20);
+const CSR_FIELD: EncodingField = field("csr", FieldKind.CSR, 31, 20);
+
+const R_LAYOUT: EncodingLayout = {
+  formatName: "R-type",
+  fields: [field("funct7", FieldKind.FUNCT, 31, 25), RS2_FIELD, RS1_FIELD, FUNCT3_FIELD, RD_FIELD, OPCODE_FIELD],
+};
+const R4_LAYOUT: EncodingLayout = {
+  formatName: "R4-type",
+  fields: [
+    field("rs3", FieldKind.REGISTER, 31, 27), field("fmt", FieldKind.FUNCT, 26, 25),
+    RS2_FIELD, RS1_FIELD, field("rm", FieldKind.FUNCT, 14, 12), RD_FIELD, OPCODE_FIELD,
+  ],
+};
+const I_LAYOUT: EncodingLayout = {
+  formatName: "I-type",
+  fields: [field("imm[11:0]", FieldKind.IMMEDIATE, 31, 20), RS1_FIELD, FUNCT3_FIELD, RD_FIELD, OPCODE_FIELD],
+};
+const S_LAYOUT: EncodingLayout = {
+  formatName: "S-type",
+  fields: [
+    field("imm[11:5]", FieldKind.IMMEDIATE, 31, 25), RS2_FIELD, RS1_FIELD, FUNCT3_FIELD,
+    field("imm[4:0]", FieldKind.IMMEDIATE, 11, 7), OPCODE_FIELD,
+  ],
+};
+// Bits 12 and 11 of a branch offset are moved, so that its other bits sit where they are in an S-type immediate
+const B_LAYOUT: EncodingLayout = {
+  formatName: "B-type",
+  fields: [
+    field("imm[12]", FieldKind.IMMEDIATE, 31, 31), field("imm[10:5]", FieldKind.IMMEDIATE, 30, 25),
+    RS2_FIELD, RS1_FIELD, FUNCT3_FIELD,
+    field("imm[4:1]", FieldKind.IMMEDIATE, 11, 8), field("imm[11]", FieldKind.IMMEDIATE, 7, 7), OPCODE_FIELD,
+  ],
+};
+const U_LAYOUT: EncodingLayout = {
+  formatName: "U-type",
+  fields: [field("imm[31:12]", FieldKind.IMMEDIATE, 31, 12), RD_FIELD, OPCODE_FIELD],
+};
+// Likewise, a jump offset's bits sit where they are in I-type and U-type immediates as far as possible
+const J_LAYOUT: EncodingLayout = {
+  formatName: "J-type",
+  fields: [
+    field("imm[20]", FieldKind.IMMEDIATE, 31, 31), field("imm[10:1]", FieldKind.IMMEDIATE, 30, 21),
+    field("imm[11]", FieldKind.IMMEDIATE, 20, 20), field("imm[19:12]", FieldKind.IMMEDIATE, 19, 12),
+    RD_FIELD, OPCODE_FIELD,
+  ],
+};
+// The Zicsr and system instructions are I-type, with a CSR's address or a funct12 in place of the immediate
+const CSR_LAYOUT: EncodingLayout = {
+  formatName: "I-type",
+  fields: [CSR_FIELD, RS1_FIELD, FUNCT3_FIELD, RD_FIELD, OPCODE_FIELD],
+};
+const CSR_IMMEDIATE_LAYOUT: EncodingLayout = {
+  formatName: "I-type",
+  fields: [CSR_FIELD, field("uimm[4:0]", FieldKind.IMMEDIATE, 19, 15), FUNCT3_FIELD, RD_FIELD, OPCODE_FIELD],
+};
+const SYSTEM_LAYOUT: EncodingLayout = {
+  formatName: "I-type",
+  fields: [field("funct12", FieldKind.FUNCT, 31, 20), RS1_FIELD, FUNCT3_FIELD, RD_FIELD, OPCODE_FIELD],
+};
+
+const FORMAT_LAYOUTS: ReadonlyMap<OperandType[], EncodingLayout> = new Map([
+  [R_TYPE, R_LAYOUT],
+  [I_TYPE, I_LAYOUT],
+  [S_TYPE, S_LAYOUT],
+  [B_TYPE, B_LAYOUT],
+  [U_TYPE, U_LAYOUT],
+  [J_TYPE, J_LAYOUT],
+  [NONE_TYPE, SYSTEM_LAYOUT],
+  [CSR_TYPE, CSR_LAYOUT],
+  [CSR_IMMEDIATE_TYPE, CSR_IMMEDIATE_LAYOUT],
+  [FLOAT_LOAD_TYPE, I_LAYOUT],
+  [FLOAT_STORE_TYPE, S_LAYOUT],
+  [FLOAT_R_TYPE, R_LAYOUT],
+  [FLOAT_R4_TYPE, R4_LAYOUT],
+  [FLOAT_UNARY_TYPE, R_LAYOUT],
+  [FLOAT_COMPARE_TYPE, R_LAYOUT],
+  [FLOAT_TO_INTEGER_TYPE, R_LAYOUT],
+  [INTEGER_TO_FLOAT_TYPE, R_LAYOUT],
+]);
+
+/*** Functions ***/
+function adjustField(encodingField: EncodingField, instructionInfo: InstructionInfo): EncodingField[] {
+  // Some instructions use the fields of their format for something else
+  const decodeInfo: InstructionDecodeInfo = instructionInfo.decodeInfo!;
+  if (encodingField.kind == FieldKind.IMMEDIATE && instructionInfo.instructionFormat === I_TYPE
+    && decodeInfo.funct7 != undefined) {
+    // A shift amount fills the low bits of the immediate, beneath a funct7 (or a funct6, when it is 6 bits wide)
+    const shiftBits: number = immediateFieldOf(instructionInfo)!.bits;
+    return [
+      field(`funct${12 - shiftBits}`, FieldKind.FUNCT, 31, 20 + shiftBits),
+      field(`shamt[${shiftBits - 1}:0]`, FieldKind.IMMEDIATE, 19 + shiftBits, 20),
+    ];
+  } else if (encodingField === FUNCT3_FIELD && instructionInfo.roundingMode) {
+    return [field("rm", FieldKind.FUNCT, 14, 12)];
+  } else if (encodingField === RS2_FIELD && decodeInfo.funct12 != undefined) {
+    // Instructions with one source register tell their variants apart in rs2, like FCVT.W.S and FCVT.WU.S
+    return [field("rs2", FieldKind.FUNCT, 24, 20)];
+  }
+  return [encodingField];
+}
+
+export function layoutOf(instructionName: string): EncodingLayout | undefined {
+  /**
+   * Finds the fields an instruction's encoding is split into, e.g. imm[11:0],
+   * rs1, funct3, rd and opcode for ADDI. The shifts by an immediate split the
+   * immediate into a funct7 and the shift amount, and floating-point
+   * instructions which round hold the rounding mode in place of funct3.
+   *
+   * @param instructionName - The name of a base or compressed instruction
+   * @returns The name of its format and its fields from the most significant
+   *   bit down, or undefined if there is no such instruction
+   */
+  if (COMPRESSED_INSTRUCTION_TO_INFO.has(instructionName)) {
+    return compressedLayoutOf(instructionName);
+  }
+  const instructionInfo: InstructionInfo | undefined = INSTRUCTION_TO_INFO.get(instructionName);
+  const layout: EncodingLayout | undefined = instructionInfo != undefined
+    ? FORMAT_LAYOUTS.get(instructionInfo.instructionFormat)
+    : undefined;
+  if (instructionInfo == undefined || layout == undefined) {
+    return undefined;
+  }
+  return {
+    formatName: layout.formatName,
+    fields: layout.fields.flatMap((encodingField: EncodingField) => adjustField(encodingField, instructionInfo)),
+  };
+}
+
+export function splitInstruction(value: number): InstructionEncoding | undefined {
+  /**
+   * Splits the machine code of an instruction into its fields. A value whose
+   * lowest two bits aren't 11 is a compressed instruction.
+   *
+   * @param value - The halfword or word
+   * @returns The instruction, its format and its fields with the bits each one
+   *   holds, or undefined if the value isn't a valid instruction
+   */
+  const instruction: string[] | undefined = decodeInstructionValue(value);
+  const layout: EncodingLayout | undefined = instruction != undefined ? layoutOf(instruction[0]) : undefined;
+  if (instruction == undefined || layout == undefined) {
+    return undefined;
+  }
+  const length: number = COMPRESSED_INSTRUCTION_TO_INFO.has(instruction[0])
+    ? COMPRESSED_INSTRUCTION_LENGTH
+    : INSTRUCTION_LENGTH;
+  const bits: string = zeroExtend((value >>> 0).toString(Base.BINARY), length * 8);
+  return {
+    instructionName: instruction[0],
+    formatName: layout.formatName,
+    length: length,
+    fields: layout.fields.map((encodingField: EncodingField) => {
+      const fieldBits: string = bits.slice(bits.length - 1 - encodingField.high, bits.length - encodingField.low);
+      return { ...encodingField, bits: fieldBits, value: parseInt(fieldBits, Base.BINARY) };
+    }),
+  };
+}
@@ -0,0 +1,155 @@
+/*
+The purpose of this file is to implement the lexer used by the assembler. It
+splits each line of a program into tokens which remember the column they
+started at, so that problems can be pointed out precisely, and reads the
+integer and character literals which can be written as immediates, and the
+floating-point literals which can be written as data.
+*/
+import { STRING_ESCAPES } from "./utils.js";
+
+/*** Constants and Types ***/
+// Characters which start a comment running to the end of the line
+const COMMENT_CHARACTERS: string[] = ["#", ";"];
+// Characters which separate tokens, outside of parentheses and literals
+const SEPARATOR_CHARACTERS: string[] = [" ", "\t", ","];
+const QUOTE_CHARACTERS: string[] = ["\"", "'"];
+// Decimal, hexadecimal (0x1F), binary (0b101) and octal (0o17) integers, with an optional sign
+const INTEGER_LITERAL_REGEX: RegExp = /^([+-]?)(0x[0-9a-f]+|0b[01]+|0o[0-7]+|[0-9]+)$/i;
+// A single character or escape sequence in single quotes, e.g. 'a' or '\n'
+const CHARACTER_LITERAL_REGEX: RegExp = /^'(\\.|[^\\'])'$/;
+// A decimal number with a fraction or exponent, e.g. 1.5, -.25 or 6.02e23, or inf or nan
+const FLOAT_LITERAL_REGEX: RegExp = /^[+-]?((\d+\.?\d*|\.\d+)(e[+-]?\d+)?|inf|nan)$/i;
+
+// A mnemonic, operand, directive, string or ":" found on a line of source
+export interface Token {
+  text: string;
+  column: number; // column of the token's first character, counting from 1
+}
+
+export interface LexedLine {
+  tokens: Token[];
+  error: { message: string; token: Token } | undefined; // the first problem found on the line
+}
+
+/*** Functions ***/
+export function lexLine(line: string): LexedLine {
+  /**
+   * Splits a line of assembly into tokens.
+   *
+   * Tokens are separated by spaces, tabs and commas, and a ":" after a label is
+   * a token of its own. Anything inside parentheses (as in "8(sp)") or quotes
+   * (as in "Hello, world" or ',') stays part of a single token, and the rest
+   * of the line after a "#" or ";" is a comment.
+   *
+   * @param line - A line of assembly source
+   * @returns The tokens on the line, and the first problem found while reading them
+   */
+  const tokens: Token[] = [];
+  let tokenStart: number | undefined = undefined;
+  let quote: string | undefined = undefined; // the quote character of the literal being read
+  let quoteStart: number = 0;
+  let parenthesisDepth: number = 0;
+  let parenthesisStart: number = 0;
+  const endToken = (end: number): void => {
+    if (tokenStart == undefined) { return; }
+    tokens.push({ text: line.slice(tokenStart, end), column: tokenStart + 1 });
+    tokenStart = undefined;
+  };
+  const errorAt = (start: number, end: number, message: string): LexedLine => (
+    { tokens: tokens, error: { message: message, token: { text: line.slice(start, end), column: start + 1 } } }
+  );
+
+  let end: number = line.length;
+  for (let i: number = 0; i < line.length; i++) {
+    const character: string = line[i];
+    if (quote != undefined) {
+      if (character === "\\") {
+        i++; // skip the escaped character
+      } else if (character === quote) {
+        quote = undefined;
+      }
+    } else if (COMMENT_CHARACTERS.includes(character)) {
+      end = i;
+      break;
+    } else if (parenthesisDepth == 0 && SEPARATOR_CHARACTERS.includes(character)) {
+      endToken(i);
+    } else if (parenthesisDepth == 0 && character === ":") {
+      endToken(i);
+      tokens.push({ text: ":", column: i + 1 });
+    } else {
+      if (tokenStart == undefined) { tokenStart = i; }
+      if (QUOTE_CHARACTERS.includes(character)) {
+        quote = character;
+        quoteStart = i;
+      } else if (character === "(") {
+        if (parenthesisDepth == 0) { parenthesisStart = i; }
+        parenthesisDepth++;
+      } else if (character === ")") {
+        if (parenthesisDepth == 0) { return errorAt(i, i + 1, "Found \")\" without a matching \"(\"."); }
+        parenthesisDepth--;
+      }
+    }
+  }
+
+  if (quote != undefined) {
+    return errorAt(quoteStart, line.length, quote === "\"" ? "String is missing its closing quote." : "Character is missing its closing quote.");
+  } else if (parenthesisDepth > 0) {
+    return errorAt(parenthesisStart, end, "Found \"(\" without a matching \")\".");
+  }
+  endToken(end);
+  return { tokens: tokens, error: undefined };
+}
+
+export function parseIntegerLiteral(text: string): number | undefined {
+  /**
+   * Reads an integer written in decimal, hexadecimal (0x), binary (0b) or
+   * octal (0o), or a character in single quotes, which stands for its code.
+   *
+   * @param text - The literal as written in the source
+   * @returns The value of the literal, or undefined if it is not an integer literal
+   */
+  const value: bigint | undefined = parseBigIntegerLiteral(text);
+  return value == undefined ? undefined : Number(value);
+}
+
+export function parseBigIntegerLiteral(text: string): bigint | undefined {
+  /**
+   * Reads an integer literal exactly, as parseIntegerLiteral does, for values
+   * such as 64-bit constants which a number can't hold without rounding.
+   *
+   * @param text - The literal as written in the source
+   * @returns The value of the literal, or undefined if it is not an integer literal
+   */
+  const characterMatch: RegExpMatchArray | null = text.match(CHARACTER_LITERAL_REGEX);
+  if (characterMatch != null) {
+    const contents: string = characterMatch[1];
+    const character: string | undefined = contents.length == 1 ? contents : STRING_ESCAPES.get(contents[1]);
+    return character == undefined ? undefined : BigInt(character.charCodeAt(0));
+  }
+  const integerMatch: RegExpMatchArray | null = text.match(INTEGER_LITERAL_REGEX);
+  if (integerMatch == null) {
+    return undefined;
+  }
+  // BigInt() reads the 0x, 0b and 0o prefixes, but only in lower case
+  const magnitude: bigint = BigInt(integerMatch[2].toLowerCase());
+  return integerMatch[1] === "-" ? -magnitude : magnitude;
+}
+
+export function parseFloatLiteral(text: string): number | undefined {
+  /**
+   * Reads a number written in decimal with a fraction or exponent, such as 1.5
+   * or -2.5e-3, or as inf or nan. Integer literals are accepted too.
+   *
+   * @param text - The literal as written in the source
+   * @returns The value of the literal, or undefined if it is not a number
+   */
+  const integer: number | undefined = parseIntegerLiteral(text);
+  if (integer != undefined) {
+    return integer;
+  } else if (!FLOAT_LITERAL_REGEX.test(text)) {
+    return undefined;
+  }
+  const magnitudeText: string = text.replace(/^[+-]/, "").toLowerCase();
+  const magnitude: number = magnitudeText === "inf" ? Infinity : magnitudeText === "nan" ? NaN : Number(magnitudeText);
+  return text.startsWith("-") ? -magnitude : magnitude;
+}
@@ -0,0 +1,252 @@
+/*
+The purpose of this file is to read programs which were compiled and linked
+elsewhere, such as by a riscv32 cross-compiler, so that the simulator can run
+them without their source. An ELF executable places its segments at the
+addresses it was linked for and says where execution starts, while a flat
+binary is copied byte for byte to an address chosen by the user.
+*/
+import {
+  COMPRESSED_INSTRUCTION_LENGTH,
+  Extension,
+  LoaderResult,
+  MAX_MEMORY_SIZE,
+  MemorySegment,
+  ParserStatus,
+  ProgramImage,
+  formatAddress,
+} from "./utils.js";
+
+/*** Constants ***/
+// The fields of the ELF header, program headers, section headers and symbols which the loader reads,
+// at their byte offsets in the 32-bit layout
+const ELF_MAGIC: number[] = [0x7f, 0x45, 0x4c, 0x46]; // "\x7fELF"
+const EI_CLASS: number = 4;
+const EI_DATA: number = 5;
+const ELFCLASS32: number = 1;
+const ELFCLASS64: number = 2;
+const ELFDATA2LSB: number = 1; // little-endian
+const E_TYPE: number = 16;
+const E_MACHINE: number = 18;
+const E_ENTRY: number = 24;
+const E_PHOFF: number = 28;
+const E_SHOFF: number = 32;
+const E_FLAGS: number = 36;
+const E_PHENTSIZE: number = 42;
+const E_PHNUM: number = 44;
+const E_SHENTSIZE: number = 46;
+const E_SHNUM: number = 48;
+const ELF_HEADER_SIZE: number = 52;
+const ET_EXEC: number = 2;
+const EM_RISCV: number = 243;
+const EF_RISCV_RVC: number = 0x1; // set when the program contains compressed instructions
+
+const PROGRAM_HEADER_SIZE: number = 32;
+const P_TYPE: number = 0;
+const P_OFFSET: number = 4;
+const P_VADDR: number = 8;
+const P_FILESZ: number = 16;
+const P_MEMSZ: number = 20;
+const P_FLAGS: number = 24;
+const PT_LOAD: number = 1;
+const PF_X: number = 0x1;
+
+const SECTION_HEADER_SIZE: number = 40;
+const SH_TYPE: number = 4;
+const SH_OFFSET: number = 16;
+const SH_SIZE: number = 20;
+const SH_LINK: number = 24;
+const SHT_SYMTAB: number = 2;
+
+const SYMBOL_SIZE: number = 16;
+const ST_NAME: number = 0;
+const ST_VALUE: number = 4;
+const ST_INFO: number = 12;
+const ST_SHNDX: number = 14;
+const SHN_UNDEF: number = 0;
+// Only symbols naming code or data become labels, not those naming sections or source files
+const LABEL_SYMBOL_TYPES: number[] = [0, 1, 2]; // STT_NOTYPE, STT_OBJECT, STT_FUNC
+
+/*** Functions ***/
+function loaderError(message: string): LoaderResult {
+  return { status: ParserStatus.ERR, errMessage: message, warningMessage: "", image: undefined };
+}
+
+function fitsInMemory(address: number, length: number): boolean {
+  // Memory is enlarged to fit a program when it is loaded, up to the largest size the simulator has
+  return address >= 0 && address + length <= MAX_MEMORY_SIZE;
+}
+
+function segmentError(address: number, length: number): string {
+  return `The segment at ${formatAddress(address)} is ${length} bytes long, which doesn't fit in the simulator's `
+    + `${MAX_MEMORY_SIZE / 1024} KiB of memory. Link the program at a lower address, such as with -Wl,-Ttext=0.`;
+}
+
+function readString(bytes: Uint8Array, offset: number): string {
+  // Strings in an ELF file end with a zero byte
+  let end: number = offset;
+  while (end < bytes.length && bytes[end] != 0) {
+    end++;
+  }
+  // Decoded byte for byte, as a name can be longer than the arguments a function call can be spread over
+  return new TextDecoder("latin1").decode(bytes.subarray(offset, end));
+}
+
+function readSymbols(bytes: Uint8Array, view: DataView): Map<string, number> {
+  /**
+   * Reads the labels defined in an ELF file's symbol table, if it has one.
+   * Compilers add their own local labels, starting with ".L" or "$", which
+   * are left out.
+   *
+   * @param bytes - The contents of the file
+   * @param view - A view of the same bytes, for reading multi-byte fields
+   * @returns label name -> address the label refers to
+   */
+  const symbols: Map<string, number> = new Map();
+  const sectionHeaderOffset: number = view.getUint32(E_SHOFF, true);
+  const sectionCount: number = view.getUint16(E_SHNUM, true);
+  if (sectionHeaderOffset == 0 || view.getUint16(E_SHENTSIZE, true) != SECTION_HEADER_SIZE
+    || sectionHeaderOffset + sectionCount * SECTION_HEADER_SIZE > bytes.length) {
+    return symbols;
+  }
+  const sectionHeader = (index: number): number => sectionHeaderOffset + index * SECTION_HEADER_SIZE;
+  for (let section: number = 0; section < sectionCount; section++) {
+    if (view.getUint32(sectionHeader(section) + SH_TYPE, true) != SHT_SYMTAB) { continue; }
+    // The names of the symbols are in the string table section which the symbol table links to
+    const stringTable: number = view.getUint32(sectionHeader(section) + SH_LINK, true);
+    if (stringTable >= sectionCount) { continue; }
+    const stringsOffset: number = view.getUint32(sectionHeader(stringTable) + SH_OFFSET, true);
+    const tableOffset: number = view.getUint32(sectionHeader(section) + SH_OFFSET, true);
+    const tableEnd: number = Math.min(tableOffset + view.getUint32(sectionHeader(section) + SH_SIZE, true), bytes.length);
+    for (let symbol: number = tableOffset; symbol + SYMBOL_SIZE <= tableEnd; symbol += SYMBOL_SIZE) {
+      const name: string = readString(bytes, stringsOffset + view.getUint32(symbol + ST_NAME, true));
+      if (
+        name === "" || name.startsWith(".L") || name.startsWith("$")
+        || !LABEL_SYMBOL_TYPES.includes(bytes[symbol + ST_INFO] & 0xf)
+        || view.getUint16(symbol + ST_SHNDX, true) == SHN_UNDEF
+      ) {
+        continue;
+      }
+      symbols.set(name, view.getUint32(symbol + ST_VALUE, true));
+    }
+  }
+  return symbols;
+}
+
+export function parseElf(bytes: Uint8Array, extensions: ReadonlySet<Extension> = new Set()): LoaderResult {
+  /**
+   * Reads a 32-bit little-endian RISC-V ELF executable. Each loadable segment
+   * is placed at the address it was linked for, with the part of it which
+   * isn't in the file (such as .bss) filled with zeros, and execution starts
+   * at the entry point. The symbol table, if the executable has one, provides
+   * the program's labels. Every segment must lie below MAX_MEMORY_SIZE, and at
+   * least one must hold code.
+   *
+   * @param bytes - The contents of the file
+   * @param extensions - The extensions the machine executes, which are checked against the program's
+   * @returns The program image, or an error explaining why the file can't be loaded
+   */
+  if (ELF_MAGIC.some((byte: number, i: number) => bytes[i] != byte)) {
+    return loaderError("The file is not an ELF file.");
+  } else if (bytes.length < ELF_HEADER_SIZE) {
+    return loaderError("The file's ELF header is cut short.");
+  } else if (bytes[EI_CLASS] == ELFCLASS64) {
+    return loaderError("The file is a 64-bit ELF file, but only 32-bit (RV32) executables can be loaded.");
+  } else if (bytes[EI_CLASS] != ELFCLASS32 || bytes[EI_DATA] != ELFDATA2LSB) {
+    return loaderError("The file is not a 32-bit little-endian ELF file.");
+  }
+  const view: DataView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(E_MACHINE, true) != EM_RISCV) {
+    return loaderError("The file is not a RISC-V program.");
+  } else if (view.getUint16(E_TYPE, true) != ET_EXEC) {
+    return loaderError("The file is not an executable. Object files and shared libraries must be linked first.");
+  }
+
+  const programHeaderOffset: number = view.getUint32(E_PHOFF, true);
+  const programHeaderCount: number = view.getUint16(E_PHNUM, true);
+  if (
+    programHeaderCount == 0 || view.getUint16(E_PHENTSIZE, true) != PROGRAM_HEADER_SIZE
+    || programHeaderOffset + programHeaderCount * PROGRAM_HEADER_SIZE > bytes.length
+  ) {
+    return loaderError("The executable's program headers are missing or cut short.");
+  }
+  const segments: MemorySegment[] = [];
+  for (let i: number = 0; i < programHeaderCount; i++) {
+    const header: number = programHeaderOffset + i * PROGRAM_HEADER_SIZE;
+    if (view.getUint32(header + P_TYPE, true) != PT_LOAD) { continue; }
+    const fileOffset: number = view.getUint32(header + P_OFFSET, true);
+    const fileSize: number = view.getUint32(header + P_FILESZ, true);
+    const address: number = view.getUint32(header + P_VADDR, true);
+    const memorySizeOfSegment: number = view.getUint32(header + P_MEMSZ, true);
+    if (fileOffset + fileSize > bytes.length || fileSize > memorySizeOfSegment) {
+      return loaderError(`Segment ${i} of the executable is cut short.`);
+    } else if (!fitsInMemory(address, memorySizeOfSegment)) {
+      // Checked before the segment's bytes are allocated, as the file can claim a segment of up to 4 GiB
+      return loaderError(segmentError(address, memorySizeOfSegment));
+    }
+    const segment: MemorySegment = {
+      address: address,
+      bytes: new Uint8Array(memorySizeOfSegment),
+      executable: (view.getUint32(header + P_FLAGS, true) & PF_X) != 0,
+    };
+    segment.bytes.set(bytes.subarray(fileOffset, fileOffset + fileSize));
+    segments.push(segment);
+  }
+  if (segments.length == 0) {
+    return loaderError("The executable has no segments to load.");
+  } else if (!segments.some((segment: MemorySegment) => segment.executable)) {
+    return loaderError("The executable has no segment of code to run.");
+  }
+
+  const entry: number = view.getUint32(E_ENTRY, true);
+  const warningMessage: string = (view.getUint32(E_FLAGS, true) & EF_RISCV_RVC) != 0 && !extensions.has(Extension.C)
+    ? "The program was compiled with compressed instructions, which the C extension has to be turned on to run."
+    : "";
+  return {
+    status: ParserStatus.OK,
+    errMessage: "",
+    warningMessage: warningMessage,
+    image: { segments: segments, entry: entry, symbols: readSymbols(bytes, view) },
+  };
+}
+
+export function parseFlatBinary(bytes: Uint8Array, baseAddress: number): LoaderResult {
+  /**
+   * Reads a flat binary, such as one made by objcopy -O binary, which is
+   * nothing but the bytes of the program. They are placed in memory from the
+   * base address, and execution starts at the first of them.
+   *
+   * @param bytes - The contents of the file
+   * @param baseAddress - The byte address the first byte is placed at
+   * @returns The program image, or an error explaining why the file can't be loaded
+   */
+  if (!Number.isInteger(baseAddress) || baseAddress < 0 || baseAddress % COMPRESSED_INSTRUCTION_LENGTH != 0) {
+    return loaderError(`Base address ${baseAddress} must be an address on a halfword boundary, such as 0x0.`);
+  } else if (bytes.length == 0) {
+    return loaderError("The file is empty.");
+  }
+  if (!fitsInMemory(baseAddress, bytes.length)) {
+    return loaderError(segmentError(baseAddress, bytes.length));
+  }
+  const segment: MemorySegment = { address: baseAddress, bytes: bytes.slice(), executable: true };
+  const image: ProgramImage = { segments: [segment], entry: baseAddress, symbols: new Map() };
+  return { status: ParserStatus.OK, errMessage: "", warningMessage: "", image: image };
+}
+
+export function parseProgramFile(
+  bytes: Uint8Array,
+  baseAddress: number,
+  extensions: ReadonlySet<Extension> = new Set(),
+): LoaderResult {
+  /**
+   * Reads a compiled program, which is an ELF executable if it starts with
+   * the ELF magic number and a flat binary otherwise.
+   *
+   * @param bytes - The contents of the file
+   * @param baseAddress - The byte address a flat binary is placed at; an ELF executable says where it goes
+   * @param extensions - The extensions the machine executes
+   * @returns The program image, or an error explaining why the file can't be loaded
+   */
+  return ELF_MAGIC.every((byte: number, i: number) => bytes[i] == byte)
+    ? parseElf(bytes, extensions)
+    : parseFlatBinary(bytes, baseAddress);
+}
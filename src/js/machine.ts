@@ -0,0 +1,1168 @@
+/*
+The purpose of this file is to implement the machine which RISC-V programs run
+on: its registers, its memory, and the environment programs reach through
+environment calls. The machine doesn't touch the page, so the same machine can
+be driven by the simulator page, by Node scripts and by tests. Anything which
+wants to know when the machine changes subscribes to it with a MachineObserver.
+*/
+import { encodeInstruction, programSegments } from "./assembler.js";
+import {
+  decodeCompressedInstruction,
+  expandCompressedInstruction,
+  instructionLengthOf,
+} from "./compressed-instructions.js";
+import { disassemble } from "./disassembler.js";
+import { parseBigIntegerLiteral } from "./lexer.js";
+import {
+  Base,
+  Breakpoint,
+  BreakpointCondition,
+  BreakpointKind,
+  CLINT_BASE,
+  CLINT_MSIP,
+  CLINT_MTIME,
+  CLINT_MTIMECMP,
+  COMPRESSED_INSTRUCTION_LENGTH,
+  COUNTER_COPIES,
+  CSR_FCSR,
+  CSR_FFLAGS,
+  CSR_FRM,
+  CSR_MCAUSE,
+  CSR_MCYCLE,
+  CSR_MCYCLEH,
+  CSR_MEPC,
+  CSR_MIE,
+  CSR_MINSTRET,
+  CSR_MINSTRETH,
+  CSR_MIP,
+  CSR_MSTATUS,
+  CSR_MTVAL,
+  CSR_MTVEC,
+  CSR_RESET_VALUES,
+  CSR_WRITABLE_BITS,
+  DEFAULT_EXTENSIONS,
+  DEFAULT_MEMORY_SIZE,
+  DecodedInstruction,
+  EnvironmentState,
+  ExceptionCause,
+  Extension,
+  FFLAGS_MASK,
+  FRM_SHIFT,
+  HistoryEntry,
+  INSTRUCTION_LENGTH,
+  INSTRUCTION_TO_INFO,
+  INTERRUPT_CAUSE_DESCRIPTIONS,
+  INTERRUPT_PRIORITY,
+  InstructionInfo,
+  InterruptCause,
+  MAX_HISTORY_LENGTH,
+  MAX_MEMORY_SIZE,
+  MCAUSE_INTERRUPT,
+  MIN_STACK_SIZE,
+  MIP_MEIP,
+  MIP_MSIP,
+  MIP_MTIP,
+  MSTATUS_MIE,
+  MSTATUS_MPIE,
+  MTVEC_MODE_MASK,
+  MTVEC_VECTORED,
+  MemorySegment,
+  PC_MOD_INSTRUCTIONS,
+  ParserResult,
+  ParserStatus,
+  ProgramImage,
+  REGISTER_COUNT,
+  STRINGS_TO_FLOAT_REGISTERS,
+  STRINGS_TO_REGISTERS,
+  SUPPORTED_XLENS,
+  TEXT_SEGMENT_BASE,
+  Trap,
+  XLEN,
+  binaryToHex,
+  dataSegmentBase,
+  decodeInstructionWord,
+  describeTrapCause,
+  formatAddress,
+  formatCsr,
+  setXlen,
+  zeroExtend,
+} from "./utils.js";
+
+/*** Types ***/
+// Why the machine stopped executing instructions
+export enum StopReason {
+  ERROR, // an instruction could not be executed, or there is no program
+  FINISHED, // the pc reached the end of the program
+  EXITED, // the program made an exit environment call
+  EBREAK, // the program executed EBREAK
+  WAITING_FOR_INPUT, // the program tried to read input which hasn't been provided
+  BREAKPOINT, // run() reached a breakpoint
+  INSTRUCTION_LIMIT, // run() executed the maximum number of instructions
+}
+export interface StopEvent { reason: StopReason; message: string; }
+
+// An instruction as it was fetched from memory, and what decoding it found
+interface FetchedInstruction {
+  value: number; // the halfword or word stored in memory, which an illegal instruction exception reports
+  length: number; // the number of bytes the instruction takes up
+  word: string | undefined; // the instruction word to execute, or undefined for an invalid compressed instruction
+  decodedInstruction: DecodedInstruction | undefined; // undefined if the word is not a valid instruction
+  setsPc: boolean; // whether the instruction writes the pc itself, so it mustn't be advanced
+}
+
+// Callbacks for the changes a machine reports; observers only implement the ones they need
+export interface MachineObserver {
+  registerChanged?: (register: number, value: bigint) => void;
+  floatRegisterChanged?: (register: number, value: number) => void;
+  csrChanged?: (address: number, value: number) => void;
+  memoryChanged?: (address: number, numBytes: number) => void;
+  consoleChanged?: (text: string) => void;
+  stopped?: (event: StopEvent) => void;
+}
+
+/*** Functions ***/
+function recordChange<K, V>(changes: Map<K, V> | undefined, key: K, value: V): Map<K, V> {
+  /**
+   * Records the value something had before the instruction being executed
+   * changed it. Most instructions change little, so the map of changes is only
+   * made once there is a change to record.
+   *
+   * @param changes - The changes recorded so far, if any
+   * @param key - What changed, such as a register number or byte address
+   * @param value - Its value, which is only kept if it is the first recorded for the key
+   * @returns The changes, including this one
+   */
+  const recorded: Map<K, V> = changes ?? new Map();
+  if (!recorded.has(key)) {
+    recorded.set(key, value);
+  }
+  return recorded;
+}
+
+/*** Machine ***/
+export class Machine {
+  // Register values indexed by register number (REGISTER_COUNT is the pc). Each holds an XLEN-bit
+  // value sign-extended to 64 bits, so registers are read as signed numbers whatever XLEN is
+  readonly registers: BigInt64Array = new BigInt64Array(REGISTER_COUNT + 1);
+  // The F extension's registers, f0 to f31, holding the 32-bit patterns of single-precision numbers
+  readonly floatRegisters: Uint32Array = new Uint32Array(32);
+  // Control and status registers by address; fflags and frm are fields of fcsr, and cycle,
+  // instret, cycleh and instreth copies of the machine counters, rather than registers of their own
+  readonly csrs: Map<number, number> = new Map(CSR_RESET_VALUES);
+  // Memory is an array of bytes; multi-byte values are stored in little-endian order
+  memory: Uint8Array;
+  // The bytes of the CLINT's registers by address, which loads and stores reach just like memory
+  readonly clint: Map<number, number> = new Map();
+
+  // The assembled program, which reset() loads back into memory
+  program: ParserResult | undefined = undefined;
+  // A program loaded from an ELF executable or flat binary instead, which reset() also loads back into memory
+  image: ProgramImage | undefined = undefined;
+  programEnd: number = TEXT_SEGMENT_BASE; // address just past the last assembled or loaded instruction
+  // The bytes the assembled or loaded program places in memory before it starts
+  segments: MemorySegment[] = [];
+  lineToAddress: Map<number, number> = new Map(); // source line -> address of its instruction
+
+  // Executed instructions, oldest first, so that they can be undone
+  history: HistoryEntry[] = [];
+  breakpoints: Breakpoint[] = [];
+
+  // Output written by the program and input waiting to be read by it
+  consoleOutput: string = "";
+  pendingInput: string[] = [];
+  // Set when the program tries to read input before any has been provided
+  waitingForInput: boolean = false;
+  // The heap grows upwards from the end of the data segment through SBRK
+  heapBreak: number;
+  exitCode: number | undefined = undefined;
+  // Set by EBREAK to stop execution once it has finished
+  breakRequested: boolean = false;
+  // Instructions from any other extension are treated as invalid
+  extensions: Set<Extension> = new Set(DEFAULT_EXTENSIONS);
+  // The length of the instruction being executed, which is where it leaves the pc unless it jumps
+  instructionLength: number = INSTRUCTION_LENGTH;
+
+  // While an instruction executes, the values it overwrites are recorded here
+  private recordingEntry: HistoryEntry | undefined = undefined;
+  // Instructions already decoded, by the halfword or word they are stored as, so that a loop isn't
+  // decoded again on every pass. Decoding depends on XLEN, so the cache is only for the XLEN it was made with
+  private decodeCache: Map<number, FetchedInstruction> = new Map();
+  private decodeCacheXlen: number = XLEN;
+  private observers: MachineObserver[] = [];
+
+  constructor(memorySize: number = DEFAULT_MEMORY_SIZE) {
+    this.memory = new Uint8Array(memorySize);
+    this.heapBreak = dataSegmentBase(memorySize);
+    this.resetClint();
+  }
+
+  /*** Observers ***/
+
+  subscribe(observer: MachineObserver): () => void {
+    /**
+     * Registers an observer to be told about changes to the machine.
+     *
+     * @param observer - The callbacks to call
+     * @returns A function which unsubscribes the observer
+     */
+    this.observers.push(observer);
+    return () => { this.observers = this.observers.filter((other) => other !== observer); };
+  }
+
+  private stop(reason: StopReason, message: string): StopEvent {
+    const event: StopEvent = { reason: reason, message: message };
+    this.observers.forEach((observer) => observer.stopped?.(event));
+    return event;
+  }
+
+  /*** Registers ***/
+
+  get pc(): number {
+    return Number(BigInt.asUintN(XLEN, this.registers[REGISTER_COUNT]));
+  }
+
+  getRegister(reg: string): bigint {
+    /**
+     * Reads an integer register, or the pc.
+     *
+     * @param reg - The register's name, such as "x5", "t0" or "pc"
+     * @returns The register's value, as a signed XLEN-bit number
+     */
+    return this.registers[STRINGS_TO_REGISTERS.get(reg)!];
+  }
+
+  setRegister(rd: string, value: bigint): void {
+    /**
+     * Writes an integer register, or the pc. Only the lowest XLEN bits of the
+     * value are kept, and writes to x0 are ignored as it is always zero.
+     *
+     * @param rd - The register's name, such as "x5", "t0" or "pc"
+     * @param value - The value to write, signed or unsigned
+     */
+    const register: number = STRINGS_TO_REGISTERS.get(rd)!;
+    if (register == 0) {
+      return;
+    } else if (this.recordingEntry != undefined && register != REGISTER_COUNT) {
+      // The pc isn't recorded, as undoing an instruction always returns it to the instruction's address
+      this.recordingEntry.registerChanges = recordChange(
+        this.recordingEntry.registerChanges, register, this.registers[register],
+      );
+    }
+    this.writeRegister(register, BigInt.asIntN(XLEN, value));
+  }
+
+  private writeRegister(register: number, value: bigint): void {
+    this.registers[register] = value;
+    this.observers.forEach((observer) => observer.registerChanged?.(register, value));
+  }
+
+  getFloatRegister(reg: string): number {
+    // The bits of the single-precision number, as an unsigned 32-bit number
+    return this.floatRegisters[STRINGS_TO_FLOAT_REGISTERS.get(reg)!];
+  }
+
+  setFloatRegister(rd: string, bits: number): void {
+    const register: number = STRINGS_TO_FLOAT_REGISTERS.get(rd)!;
+    if (this.recordingEntry != undefined) {
+      this.recordingEntry.floatRegisterChanges = recordChange(
+        this.recordingEntry.floatRegisterChanges, register, this.floatRegisters[register],
+      );
+    }
+    this.writeFloatRegister(register, bits);
+  }
+
+  private writeFloatRegister(register: number, bits: number): void {
+    this.floatRegisters[register] = bits;
+    this.observers.forEach((observer) => observer.floatRegisterChanged?.(register, this.floatRegisters[register]));
+  }
+
+  getCsr(address: number): number {
+    /**
+     * Reads a control and status register, or one of the fields of fcsr which
+     * have addresses of their own.
+     *
+     * @param address - The CSR's 12-bit address
+     * @returns The value of the CSR
+     */
+    const fcsr: number = this.csrs.get(CSR_FCSR)!;
+    if (address == CSR_FFLAGS) {
+      return fcsr & FFLAGS_MASK;
+    } else if (address == CSR_FRM) {
+      return fcsr >>> FRM_SHIFT;
+    } else if (COUNTER_COPIES.has(address)) {
+      return this.csrs.get(COUNTER_COPIES.get(address)!)!;
+    } else if (!this.csrs.has(address)) {
+      throw new Trap(ExceptionCause.ILLEGAL_INSTRUCTION, `There is no CSR at address 0x${address.toString(16)}.`);
+    }
+    return this.csrs.get(address)!;
+  }
+
+  setCsr(address: number, value: number): void {
+    /**
+     * Writes a control and status register, or one of the fields of fcsr. Bits
+     * of the CSR which can't be written keep their value.
+     *
+     * @param address - The CSR's 12-bit address
+     * @param value - The value to write
+     */
+    const fcsr: number = this.csrs.get(CSR_FCSR)!;
+    if (address == CSR_FFLAGS) {
+      this.setCsr(CSR_FCSR, (fcsr & ~FFLAGS_MASK) | (value & FFLAGS_MASK));
+      return;
+    } else if (address == CSR_FRM) {
+      this.setCsr(CSR_FCSR, (fcsr & FFLAGS_MASK) | ((value & 0x7) << FRM_SHIFT));
+      return;
+    } else if (address >>> 10 == 0b11) {
+      // CSRs whose address starts with 0b11 are read-only
+      throw new Trap(ExceptionCause.ILLEGAL_INSTRUCTION, `CSR ${formatCsr(address)} is read-only.`);
+    } else if (!this.csrs.has(address)) {
+      throw new Trap(ExceptionCause.ILLEGAL_INSTRUCTION, `There is no CSR at address 0x${address.toString(16)}.`);
+    }
+    const writableBits: number = CSR_WRITABLE_BITS.get(address) ?? 0xffffffff;
+    this.changeCsr(address, ((this.csrs.get(address)! & ~writableBits) | (value & writableBits)) >>> 0);
+  }
+
+  private changeCsr(address: number, value: number): void {
+    // Unlike setCsr, this can change any bit, as the machine does when an interrupt becomes pending
+    if (this.recordingEntry != undefined) {
+      this.recordingEntry.csrChanges = recordChange(this.recordingEntry.csrChanges, address, this.csrs.get(address)!);
+    }
+    this.writeCsr(address, value);
+  }
+
+  private writeCsr(address: number, value: number): void {
+    this.csrs.set(address, value);
+    this.observers.forEach((observer) => observer.csrChanged?.(address, value));
+  }
+
+  resetRegisters(): void {
+    /**
+     * Sets every register, including the pc, the f registers and the CSRs, back
+     * to zero. Undoing an instruction would restore values from before the reset,
+     * so the history is cleared too.
+     */
+    for (let i: number = 0; i < REGISTER_COUNT + 1; i++) {
+      this.writeRegister(i, BigInt(0));
+    }
+    this.floatRegisters.forEach((_, register: number) => this.writeFloatRegister(register, 0));
+    CSR_RESET_VALUES.forEach((value: number, address: number) => this.writeCsr(address, value));
+    this.history = [];
+  }
+
+  /*** Memory ***/
+
+  setMemorySize(numBytes: number): boolean {
+    /**
+     * Replaces memory with a new, zeroed memory of the given size. The program
+     * no longer exists in the new memory, so it has to be loaded again.
+     *
+     * The size must be a whole number of words, and large enough for each half,
+     * the text segment and the data segment, to hold a doubleword.
+     *
+     * @param numBytes - The number of bytes of memory
+     * @returns true if memory was resized, false if the size is invalid
+     */
+    if (!Number.isInteger(numBytes) || numBytes % 4 != 0 || dataSegmentBase(numBytes) == 0) {
+      return false;
+    }
+    this.memory = new Uint8Array(numBytes);
+    this.unload();
+    return true;
+  }
+
+  setXlen(xlen: number): boolean {
+    /**
+     * Switches between RV32I and RV64I by changing the width of the integer
+     * registers. The width is shared with the assembler, and a program assembled
+     * for one width may not run on the other, so the program is unloaded and
+     * has to be assembled again.
+     *
+     * @param xlen - The width of the registers, 32 or 64
+     * @returns true if the width was changed, false if it isn't supported
+     */
+    if (!SUPPORTED_XLENS.includes(xlen)) {
+      return false;
+    }
+    setXlen(xlen);
+    this.unload();
+    return true;
+  }
+
+  private resetClint(): void {
+    // No interrupt is requested, and the timer doesn't go off until mtimecmp is written
+    for (let i: number = 0; i < 4; i++) { this.clint.set(CLINT_MSIP + i, 0); }
+    for (let i: number = 0; i < 8; i++) {
+      this.clint.set(CLINT_MTIMECMP + i, 0xff);
+      this.clint.set(CLINT_MTIME + i, 0);
+    }
+  }
+
+  private checkMemoryRange(address: number, numBytes: number, cause: ExceptionCause): void {
+    const inMemory: boolean = address >= 0 && address + numBytes <= this.memory.length;
+    // The CLINT's registers are far apart, so an access which starts and ends in them stays within one
+    if (!inMemory && !(this.isClintAddress(address) && this.isClintAddress(address + numBytes - 1))) {
+      throw new Trap(
+        cause,
+        `Memory access of ${numBytes} byte(s) at address ${formatAddress(address)} is outside of memory.`,
+        address,
+      );
+    }
+  }
+
+  private isClintAddress(address: number): boolean {
+    // Comparing with the CLINT's base address first saves looking up every address of memory
+    return address >= CLINT_BASE && this.clint.has(address);
+  }
+
+  private readByte(address: number): number {
+    return this.isClintAddress(address) ? this.clint.get(address)! : this.memory[address];
+  }
+
+  private writeByte(address: number, value: number): void {
+    if (!this.isClintAddress(address)) {
+      this.memory[address] = value;
+    } else if (address >= CLINT_MSIP && address < CLINT_MSIP + 4) {
+      // Only bit 0 of msip exists
+      this.clint.set(address, address == CLINT_MSIP ? value & 1 : 0);
+    } else {
+      this.clint.set(address, value);
+    }
+  }
+
+  private readWord(address: number, numBytes: number): number {
+    // Up to 4 bytes fit in a number, which is quicker to assemble than a BigInt
+    let value: number = 0;
+    for (let i: number = numBytes - 1; i >= 0; i--) {
+      value = value * 256 + this.readByte(address + i);
+    }
+    return value;
+  }
+
+  loadFromMemory(address: number, numBytes: number): bigint {
+    /**
+     * Reads consecutive bytes of memory, or of the CLINT's registers, as a
+     * single little-endian value. The address does not need to be aligned to
+     * the size of the value.
+     *
+     * @param address - The byte address of the least significant byte
+     * @param numBytes - The number of bytes to read (1, 2, 4 or 8)
+     * @returns The value, read as an unsigned number
+     */
+    this.checkMemoryRange(address, numBytes, ExceptionCause.LOAD_ACCESS_FAULT);
+    if (numBytes <= 4) {
+      return BigInt(this.readWord(address, numBytes));
+    }
+    return (BigInt(this.readWord(address + 4, numBytes - 4)) << BigInt(32)) | BigInt(this.readWord(address, 4));
+  }
+
+  storeToMemory(address: number, value: bigint, numBytes: number): void {
+    /**
+     * Writes the lowest bytes of a value to consecutive bytes of memory, or of
+     * the CLINT's registers, in little-endian order. The address does not need
+     * to be aligned to the size of the value.
+     *
+     * @param address - The byte address which receives the least significant byte
+     * @param value - The value, of which only the lowest numBytes bytes are written
+     * @param numBytes - The number of bytes to write (1, 2, 4 or 8)
+     */
+    this.checkMemoryRange(address, numBytes, ExceptionCause.STORE_ACCESS_FAULT);
+    const lowerWord: number = Number(BigInt.asUintN(32, value));
+    const upperWord: number = numBytes > 4 ? Number(BigInt.asUintN(32, value >> BigInt(32))) : 0;
+    for (let i: number = 0; i < numBytes; i++) {
+      if (this.recordingEntry != undefined) {
+        this.recordingEntry.memoryChanges = recordChange(
+          this.recordingEntry.memoryChanges, address + i, this.readByte(address + i),
+        );
+      }
+      this.writeByte(address + i, ((i < 4 ? lowerWord : upperWord) >>> (8 * (i % 4))) & 0xff);
+    }
+    this.observers.forEach((observer) => observer.memoryChanged?.(address, numBytes));
+  }
+
+  /*** Programs ***/
+
+  load(program: ParserResult): void {
+    /**
+     * Loads an assembled program and resets the machine to run it from the start.
+     *
+     * @param program - A program assembled without errors by parseInput
+     */
+    if (program.status != ParserStatus.OK) {
+      throw new Error("Only a program which assembled without errors can be loaded.");
+    }
+    this.program = program;
+    this.image = undefined;
+    this.segments = programSegments(program);
+    const lastIndex: number = program.output.length - 1;
+    this.programEnd = lastIndex >= 0
+      ? program.addresses[lastIndex] + instructionLengthOf(program.output[lastIndex])
+      : TEXT_SEGMENT_BASE;
+    // A line holding a pseudo-instruction may expand to several instructions, and starts at the first
+    this.lineToAddress = new Map();
+    program.lineNumbers.forEach((lineNumber: number, i: number) => {
+      if (!this.lineToAddress.has(lineNumber)) {
+        this.lineToAddress.set(lineNumber, program.addresses[i]);
+      }
+    });
+    this.reset();
+  }
+
+  loadImage(image: ProgramImage): void {
+    /**
+     * Loads a program read from an ELF executable or flat binary by the loader,
+     * and resets the machine to run it from its entry point, with sp at the top
+     * of memory. The program ends when it exits through ECALL, or when
+     * execution reaches the end of its last executable segment.
+     *
+     * Memory is enlarged, to the next power of two, if the program doesn't fit
+     * in it with MIN_STACK_SIZE bytes to spare for the stack.
+     *
+     * @param image - A program read without errors by parseElf or parseFlatBinary
+     */
+    const programTop: number = Math.max(...image.segments
+      .map((segment: MemorySegment) => segment.address + segment.bytes.length));
+    let memorySize: number = this.memory.length;
+    while (memorySize < programTop + MIN_STACK_SIZE && memorySize < MAX_MEMORY_SIZE) {
+      memorySize *= 2;
+    }
+    if (memorySize != this.memory.length) {
+      this.memory = new Uint8Array(Math.min(memorySize, MAX_MEMORY_SIZE));
+    }
+    this.program = undefined;
+    this.image = image;
+    this.segments = image.segments;
+    this.programEnd = Math.max(...image.segments
+      .filter((segment: MemorySegment) => segment.executable)
+      .map((segment: MemorySegment) => segment.address + segment.bytes.length));
+    // Line breakpoints have no source lines to refer to
+    this.lineToAddress = new Map();
+    this.reset();
+  }
+
+  unload(): void {
+    /**
+     * Removes the program from the machine and resets it, leaving nothing to execute.
+     */
+    this.program = undefined;
+    this.image = undefined;
+    this.segments = [];
+    this.programEnd = TEXT_SEGMENT_BASE;
+    this.lineToAddress = new Map();
+    this.reset();
+  }
+
+  reset(): void {
+    /**
+     * Puts the machine back in the state it was in before the program started:
+     * memory holds only the program's instructions and data, every register is
+     * zero, the console is empty and there is no history. Input which has been
+     * provided ahead of time is kept.
+     */
+    this.memory.fill(0);
+    this.resetClint();
+    this.resetRegisters();
+    this.consoleOutput = "";
+    this.waitingForInput = false;
+    this.exitCode = undefined;
+    this.breakRequested = false;
+    this.heapBreak = dataSegmentBase(this.memory.length);
+    this.segments.forEach((segment: MemorySegment) => this.memory.set(segment.bytes, segment.address));
+    if (this.program != undefined) {
+      // The heap starts at the first word boundary after the data segment
+      this.heapBreak = Math.ceil((this.program.dataSegmentAddress + this.program.dataSegment.length) / 4) * 4;
+    } else if (this.image != undefined) {
+      this.setRegister("pc", BigInt(this.image.entry));
+      // The stack grows down from the top of memory, as it would under an operating system
+      this.setRegister("sp", BigInt(this.memory.length));
+      // The heap starts at the first word boundary after the highest segment
+      this.heapBreak = Math.ceil(Math.max(...this.image.segments
+        .map((segment: MemorySegment) => segment.address + segment.bytes.length)) / 4) * 4;
+    }
+    this.observers.forEach((observer) => {
+      observer.memoryChanged?.(0, this.memory.length);
+      observer.consoleChanged?.(this.consoleOutput);
+    });
+  }
+
+  get symbols(): Map<string, number> {
+    // The labels of the assembled or loaded program
+    return this.program?.symbols ?? this.image?.symbols ?? new Map();
+  }
+
+  describeInstructionAt(address: number): string {
+    const index: number = this.program?.addresses.indexOf(address) ?? -1;
+    const assembledInstruction: string[] | undefined = this.program?.output[index];
+    const pseudoInstruction: string[] | undefined = this.program?.expandedFrom[index];
+    const label: string | undefined = Array.from(this.symbols.keys())
+      .find((name: string) => this.symbols.get(name) == address);
+    return `${formatAddress(address)}${label != undefined ? ` <${label}>` : ""}: `
+      + (assembledInstruction ? assembledInstruction.join(" ") : this.disassembleAt(address) ?? "(unknown)")
+      + (pseudoInstruction ? ` (from ${pseudoInstruction.join(" ")})` : "");
+  }
+
+  instructionValueAt(address: number): number | undefined {
+    /**
+     * Reads the machine code of the instruction at an address as it is in
+     * memory now: a word, unless the lowest two bits of its first halfword
+     * aren't 11, in which case it is a compressed instruction's halfword.
+     *
+     * @param address - The byte address of the instruction
+     * @returns The halfword or word, or undefined if the address is outside of memory
+     */
+    if (address < 0 || address + COMPRESSED_INSTRUCTION_LENGTH > this.memory.length) {
+      return undefined;
+    }
+    const halfword: number = this.memory[address] | (this.memory[address + 1] << 8);
+    return (halfword & 0b11) == 0b11 && address + INSTRUCTION_LENGTH <= this.memory.length
+      ? (halfword | (this.memory[address + 2] << 16) | (this.memory[address + 3] << 24)) >>> 0
+      : halfword;
+  }
+
+  private disassembleAt(address: number): string | undefined {
+    // A program loaded without its source is described by disassembling the instruction in memory
+    const value: number | undefined = this.instructionValueAt(address);
+    return value != undefined
+      ? disassemble(value, { abiNames: true, address: address, symbols: this.symbols })
+      : undefined;
+  }
+
+  describeHistoryEntry(entry: HistoryEntry): string {
+    // Entries are only described when they are shown, as describing every executed instruction would slow runs down
+    return this.describeInstructionAt(entry.address) + entry.outcome;
+  }
+
+  /*** Execution ***/
+
+  get instructionAlignment(): number {
+    // Compressed instructions only need to start on a halfword
+    return this.extensions.has(Extension.C) ? COMPRESSED_INSTRUCTION_LENGTH : INSTRUCTION_LENGTH;
+  }
+
+  private decodeEncoding(value: number): FetchedInstruction {
+    /**
+     * Decodes the halfword or word an instruction is stored as. A compressed
+     * instruction is expanded to the instruction word it stands for first.
+     *
+     * @param value - The word, or the halfword of a compressed instruction
+     * @returns The decoded instruction
+     */
+    let word: string | undefined = zeroExtend(value.toString(Base.BINARY), 32);
+    let length: number = INSTRUCTION_LENGTH;
+    if ((value & 0b11) != 0b11) {
+      length = COMPRESSED_INSTRUCTION_LENGTH;
+      const compressedInstruction: string[] | undefined = decodeCompressedInstruction(word.slice(16));
+      word = compressedInstruction != undefined
+        ? encodeInstruction(expandCompressedInstruction(compressedInstruction)) : undefined;
+    }
+    const decodedInstruction: DecodedInstruction | undefined = word != undefined ? decodeInstructionWord(word) : undefined;
+    return {
+      value: value,
+      length: length,
+      word: word,
+      decodedInstruction: decodedInstruction,
+      setsPc: decodedInstruction != undefined && PC_MOD_INSTRUCTIONS.includes(decodedInstruction.instructionName),
+    };
+  }
+
+  private fetchInstruction(address: number): FetchedInstruction {
+    /**
+     * Reads the instruction stored at an address, which is 32 bits long unless
+     * the lowest two bits of its first halfword aren't 11, and decodes it.
+     *
+     * @param address - The byte address of the instruction
+     * @returns The instruction, decoded
+     */
+    this.checkMemoryRange(address, COMPRESSED_INSTRUCTION_LENGTH, ExceptionCause.INSTRUCTION_ACCESS_FAULT);
+    let value: number = this.readWord(address, COMPRESSED_INSTRUCTION_LENGTH);
+    if ((value & 0b11) == 0b11) {
+      this.checkMemoryRange(address, INSTRUCTION_LENGTH, ExceptionCause.INSTRUCTION_ACCESS_FAULT);
+      value = this.readWord(address, INSTRUCTION_LENGTH);
+    } else if (!this.extensions.has(Extension.C)) {
+      throw new Trap(
+        ExceptionCause.ILLEGAL_INSTRUCTION,
+        `The halfword 0x${value.toString(Base.HEXADECIMAL).padStart(4, "0")} at address ${formatAddress(address)} `
+        + "is a compressed instruction, but the C extension is turned off.",
+        value,
+      );
+    }
+    if (this.decodeCacheXlen != XLEN) {
+      this.decodeCache.clear();
+      this.decodeCacheXlen = XLEN;
+    }
+    let fetchedInstruction: FetchedInstruction | undefined = this.decodeCache.get(value);
+    if (fetchedInstruction == undefined) {
+      fetchedInstruction = this.decodeEncoding(value);
+      this.decodeCache.set(value, fetchedInstruction);
+    }
+    return fetchedInstruction;
+  }
+
+  private executeInstruction(address: number): void {
+    /**
+     * Fetches the instruction stored at an address, decodes it and executes it.
+     *
+     * The pc is moved on to the next instruction unless the instruction is a jump
+     * or branch, which set the pc themselves. An instruction which raises an
+     * exception throws a Trap.
+     *
+     * @param address - The byte address of the instruction, normally the pc
+     */
+    if (address % this.instructionAlignment != 0) {
+      throw new Trap(
+        ExceptionCause.INSTRUCTION_ADDRESS_MISALIGNED,
+        `Instruction address ${formatAddress(address)} is not aligned to ${this.instructionAlignment} bytes.`,
+        address,
+      );
+    }
+    if (this.isClintAddress(address)) {
+      throw new Trap(
+        ExceptionCause.INSTRUCTION_ACCESS_FAULT,
+        `Instructions can't be fetched from the CLINT at address ${formatAddress(address)}.`,
+        address,
+      );
+    }
+    const { value, length, word, decodedInstruction, setsPc } = this.fetchInstruction(address);
+    this.instructionLength = length;
+    if (word == undefined) {
+      throw new Trap(
+        ExceptionCause.ILLEGAL_INSTRUCTION,
+        `The halfword 0x${value.toString(Base.HEXADECIMAL).padStart(4, "0")} at address ${formatAddress(address)} `
+        + "is not a valid compressed instruction.",
+        value,
+      );
+    } else if (decodedInstruction == undefined) {
+      throw new Trap(
+        ExceptionCause.ILLEGAL_INSTRUCTION,
+        `The word 0x${binaryToHex(word)} at address ${formatAddress(address)} is not a valid instruction.`,
+        value,
+      );
+    }
+    const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get(decodedInstruction.instructionName)!;
+    if (instructionInfo.extension != undefined && !this.extensions.has(instructionInfo.extension)) {
+      throw new Trap(
+        ExceptionCause.ILLEGAL_INSTRUCTION,
+        `The word 0x${binaryToHex(word)} at address ${formatAddress(address)} is ${decodedInstruction.instructionName}, `
+        + `but the ${instructionInfo.extension} extension is turned off.`,
+        value,
+      );
+    }
+    try {
+      instructionInfo.executionFunction(this, decodedInstruction.inputParams);
+    } catch (error) {
+      // An illegal instruction exception reports the instruction itself in mtval
+      throw error instanceof Trap && error.cause == ExceptionCause.ILLEGAL_INSTRUCTION
+        ? new Trap(error.cause, error.message, value)
+        : error;
+    }
+    if (!setsPc) {
+      this.setRegister("pc", this.registers[REGISTER_COUNT] + BigInt(length));
+    }
+  }
+
+  step(): boolean {
+    /**
+     * Executes the instruction at the pc, telling observers why execution
+     * cannot continue when the program has finished or an error occurs.
+     *
+     * @returns true if the instruction was executed and execution can continue, false otherwise
+     */
+    if ((this.program == undefined || this.program.output.length == 0) && this.image == undefined) {
+      this.stop(StopReason.ERROR, "Instructions must be assembled or loaded before execution.");
+      return false;
+    }
+    const pc: number = this.pc;
+    if (this.exitCode != undefined) {
+      this.stop(StopReason.EXITED, `Program exited with code ${this.exitCode}.`);
+      return false;
+    } else if (pc == this.programEnd) {
+      this.stop(StopReason.FINISHED, "Program has finished executing.");
+      return false;
+    }
+    const entry: HistoryEntry = {
+      address: pc,
+      outcome: "",
+      retired: false,
+      registerChanges: undefined,
+      floatRegisterChanges: undefined,
+      csrChanges: undefined,
+      memoryChanges: undefined,
+      environmentBefore: undefined,
+    };
+    this.recordingEntry = entry;
+    try {
+      this.executeInstruction(pc);
+      entry.retired = true;
+    } catch (error) {
+      // Leave the state as it was before the instruction started
+      this.undoHistoryEntry(entry);
+      if (!(error instanceof Trap) || !this.hasTrapHandler()) {
+        this.recordingEntry = undefined;
+        this.stop(
+          this.waitingForInput ? StopReason.WAITING_FOR_INPUT : StopReason.ERROR,
+          (error as Error).message,
+        );
+        return false;
+      }
+      // The instruction doesn't finish, but its exception is handled by the program
+      this.takeTrap(error.cause, error.value, pc);
+      entry.outcome += ` \u2192 trap: ${describeTrapCause(error.cause)}`;
+    }
+    this.countInstruction(entry.retired, 1);
+    // Interrupts arrive between instructions, so the next one to run is the handler's first
+    this.refreshPendingInterrupts();
+    const interrupt: InterruptCause | undefined = this.exitCode == undefined && !this.breakRequested
+      ? this.takePendingInterrupt() : undefined;
+    if (interrupt != undefined) {
+      entry.outcome += ` \u2192 interrupt: ${INTERRUPT_CAUSE_DESCRIPTIONS.get(interrupt)}`;
+    }
+    this.recordingEntry = undefined;
+    this.history.push(entry);
+    if (this.history.length > MAX_HISTORY_LENGTH) {
+      this.history.shift();
+    }
+    if (this.exitCode != undefined) {
+      this.stop(StopReason.EXITED, `Program exited with code ${this.exitCode}.`);
+      return false;
+    } else if (this.breakRequested) {
+      this.breakRequested = false;
+      this.stop(StopReason.EBREAK, `Stopped at EBREAK at address ${formatAddress(pc)}.`);
+      return false;
+    }
+    return true;
+  }
+
+  /*** Traps ***/
+
+  hasTrapHandler(): boolean {
+    // mtvec holds the address of the trap handler, once the program has set it
+    return (this.getCsr(CSR_MTVEC) & ~0x3) != 0;
+  }
+
+  private takeTrap(cause: number, value: number, address: number): void {
+    /**
+     * Jumps to the trap handler, recording the cause of the trap and the
+     * address of the instruction it interrupted so that MRET can return there.
+     * Interrupts are turned off while the handler runs.
+     *
+     * @param cause - The value written to mcause
+     * @param value - The value written to mtval
+     * @param address - The address of the instruction which caused the trap, or
+     *   which an interrupt stopped from running
+     */
+    const mstatus: number = this.getCsr(CSR_MSTATUS);
+    const interruptsEnabled: boolean = (mstatus & MSTATUS_MIE) != 0;
+    this.setCsr(CSR_MSTATUS, (mstatus & ~(MSTATUS_MIE | MSTATUS_MPIE)) | (interruptsEnabled ? MSTATUS_MPIE : 0));
+    this.setCsr(CSR_MEPC, address);
+    this.setCsr(CSR_MCAUSE, cause);
+    this.setCsr(CSR_MTVAL, value >>> 0);
+    const mtvec: number = this.getCsr(CSR_MTVEC);
+    const vectored: boolean = (cause & MCAUSE_INTERRUPT) != 0 && (mtvec & MTVEC_MODE_MASK) == MTVEC_VECTORED;
+    const handler: number = (mtvec & ~MTVEC_MODE_MASK) + (vectored ? 4 * ((cause & ~MCAUSE_INTERRUPT) >>> 0) : 0);
+    this.setRegister("pc", BigInt(handler >>> 0));
+  }
+
+  /*** Interrupts ***/
+
+  private readClintRegister(address: number): bigint {
+    return this.loadFromMemory(address, 8);
+  }
+
+  private tickTimer(ticks: number): void {
+    /**
+     * Adds 1 to mtime, or takes 1 away, a byte at a time. mtime counts
+     * instructions rather than real time, so a program is interrupted at the
+     * same point every run.
+     *
+     * @param ticks - 1, or -1 when an instruction is undone
+     */
+    let carry: number = ticks;
+    for (let i: number = 0; i < 8 && carry != 0; i++) {
+      const sum: number = this.clint.get(CLINT_MTIME + i)! + carry;
+      this.clint.set(CLINT_MTIME + i, sum & 0xff);
+      carry = sum >> 8;
+    }
+    this.observers.forEach((observer) => observer.memoryChanged?.(CLINT_MTIME, 8));
+  }
+
+  private timerReached(): boolean {
+    // Whether mtime >= mtimecmp, comparing their bytes from the most significant down
+    for (let i: number = 7; i >= 0; i--) {
+      const difference: number = this.clint.get(CLINT_MTIME + i)! - this.clint.get(CLINT_MTIMECMP + i)!;
+      if (difference != 0) {
+        return difference > 0;
+      }
+    }
+    return true;
+  }
+
+  private refreshPendingInterrupts(): void {
+    // The CLINT decides whether the timer and software interrupts are pending; the external one stays as it is
+    const timerPending: boolean = this.timerReached();
+    const softwarePending: boolean = (this.clint.get(CLINT_MSIP)! & 1) != 0;
+    const mip: number = (this.getCsr(CSR_MIP) & MIP_MEIP)
+      | (timerPending ? MIP_MTIP : 0)
+      | (softwarePending ? MIP_MSIP : 0);
+    if (mip != this.getCsr(CSR_MIP)) {
+      this.changeCsr(CSR_MIP, mip);
+    }
+  }
+
+  private takePendingInterrupt(): InterruptCause | undefined {
+    /**
+     * Jumps to the trap handler for the most important interrupt which is both
+     * pending in mip and enabled in mie, provided interrupts are enabled in
+     * mstatus and the program has a trap handler.
+     *
+     * @returns The interrupt taken, or undefined if none was
+     */
+    if ((this.getCsr(CSR_MSTATUS) & MSTATUS_MIE) == 0 || !this.hasTrapHandler()) {
+      return undefined;
+    }
+    const mip: number = this.getCsr(CSR_MIP);
+    const pending: number = mip & this.getCsr(CSR_MIE);
+    const interrupt: InterruptCause | undefined = INTERRUPT_PRIORITY.find(
+      (cause: InterruptCause) => (pending & (1 << cause)) != 0,
+    );
+    if (interrupt == undefined) {
+      return undefined;
+    } else if (interrupt == InterruptCause.MACHINE_EXTERNAL) {
+      // Taking the external interrupt acknowledges it, as there is no interrupt controller to claim it from
+      this.changeCsr(CSR_MIP, mip & ~MIP_MEIP);
+    }
+    this.takeTrap((MCAUSE_INTERRUPT | interrupt) >>> 0, 0, this.pc);
+    return interrupt;
+  }
+
+  raiseExternalInterrupt(): void {
+    /**
+     * Makes the external interrupt pending, as a device outside the machine
+     * would. It stays pending until the program takes it.
+     */
+    this.writeCsr(CSR_MIP, this.getCsr(CSR_MIP) | MIP_MEIP);
+  }
+
+  waitForInterrupt(): void {
+    /**
+     * Carries out WFI, which waits until an interrupt enabled in mie is
+     * pending. Rather than executing nothing until the timer goes off, mtime
+     * skips ahead so that it reaches mtimecmp as WFI finishes. An interrupt
+     * which can't arrive by itself stops execution instead, so that an external
+     * interrupt can be raised before WFI is retried.
+     */
+    const enabled: number = this.getCsr(CSR_MIE);
+    if ((this.getCsr(CSR_MIP) & enabled) != 0) {
+      return;
+    } else if ((enabled & MIP_MTIP) != 0) {
+      const mtimecmp: bigint = this.readClintRegister(CLINT_MTIMECMP);
+      if (this.readClintRegister(CLINT_MTIME) < mtimecmp - BigInt(1)) {
+        this.storeToMemory(CLINT_MTIME, mtimecmp - BigInt(1), 8);
+      }
+      return;
+    } else if ((enabled & MIP_MEIP) != 0) {
+      throw new Error("WFI is waiting for an external interrupt.");
+    }
+    throw new Error("WFI would wait forever, as no interrupt it could wait for is enabled in mie.");
+  }
+
+  private incrementCounter(lowAddress: number, highAddress: number, increment: number): void {
+    // The counters are 64 bits wide, so the upper half counts each time the lower half wraps around
+    const low: number = (this.csrs.get(lowAddress)! + increment) >>> 0;
+    this.writeCsr(lowAddress, low);
+    if (low == (increment > 0 ? 0 : 0xffffffff)) {
+      this.writeCsr(highAddress, (this.csrs.get(highAddress)! + increment) >>> 0);
+    }
+  }
+
+  private countInstruction(retired: boolean, increment: number): void {
+    /**
+     * Counts an executed instruction in mcycle, in minstret if it retired, and
+     * in mtime. They change with every instruction, so rather than recording
+     * their old values in the history, undoing an instruction counts it again
+     * with an increment of -1.
+     *
+     * @param retired - Whether the instruction completed rather than trapping
+     * @param increment - 1 to count the instruction, or -1 to take it back
+     */
+    if (retired) {
+      this.incrementCounter(CSR_MINSTRET, CSR_MINSTRETH, increment);
+    }
+    this.incrementCounter(CSR_MCYCLE, CSR_MCYCLEH, increment);
+    this.tickTimer(increment);
+  }
+
+  run(maxInstructions: number, resumeFromBreakpoint: boolean = true): StopEvent {
+    /**
+     * Executes instructions until the program stops, a breakpoint is reached or
+     * the maximum number of instructions has been executed.
+     *
+     * Breakpoints stop execution before the instruction at their address runs.
+     * The first instruction is always executed, so that running again continues
+     * from the breakpoint it last stopped at, unless resumeFromBreakpoint is
+     * false. A long run split into several calls passes false to all but the
+     * first, so that a breakpoint where one call ends still stops the next.
+     *
+     * @param maxInstructions - The most instructions to execute
+     * @param resumeFromBreakpoint - Whether a breakpoint at the current pc is passed over
+     * @returns Why execution stopped
+     */
+    let lastStop: StopEvent | undefined = undefined;
+    const unsubscribe = this.subscribe({ stopped: (event: StopEvent) => { lastStop = event; } });
+    try {
+      for (let executed: number = 0; ; executed++) {
+        const breakpoint: Breakpoint | undefined = executed > 0 || !resumeFromBreakpoint
+          ? this.breakpointHit(this.pc)
+          : undefined;
+        if (executed >= maxInstructions) {
+          return this.stop(
+            StopReason.INSTRUCTION_LIMIT,
+            `Execution stopped after ${maxInstructions} instructions, the maximum allowed.`,
+          );
+        } else if (breakpoint != undefined) {
+          return this.stop(
+            StopReason.BREAKPOINT,
+            `Stopped at breakpoint at address ${formatAddress(this.pc)}.`,
+          );
+        } else if (!this.step()) {
+          return lastStop!;
+        }
+      }
+    } finally {
+      unsubscribe();
+    }
+  }
+
+  /*** History ***/
+
+  private undoHistoryEntry(entry: HistoryEntry): void {
+    this.writeRegister(REGISTER_COUNT, BigInt(entry.address));
+    entry.registerChanges?.forEach((value: bigint, register: number) => this.writeRegister(register, value));
+    entry.floatRegisterChanges?.forEach((value: number, register: number) => this.writeFloatRegister(register, value));
+    entry.csrChanges?.forEach((value: number, address: number) => this.writeCsr(address, value));
+    entry.memoryChanges?.forEach((value: number, address: number) => {
+      this.writeByte(address, value);
+      this.observers.forEach((observer) => observer.memoryChanged?.(address, 1));
+    });
+    if (entry.environmentBefore != undefined) {
+      this.restoreEnvironment(entry.environmentBefore);
+    }
+  }
+
+  rewind(length: number): void {
+    /**
+     * Undoes executed instructions, newest first, until only the given number
+     * of instructions remain in the history.
+     *
+     * @param length - The number of history entries to keep
+     */
+    while (this.history.length > length) {
+      const entry: HistoryEntry = this.history.pop()!;
+      // The instruction was counted after it wrote its recorded values, so it is taken back first
+      this.countInstruction(entry.retired, -1);
+      this.undoHistoryEntry(entry);
+    }
+    // The instruction waiting for input may no longer be the next to execute
+    this.waitingForInput = false;
+  }
+
+  stepBack(): boolean {
+    /**
+     * Undoes the most recently executed instruction.
+     *
+     * @returns true if an instruction was undone, false if there was none to undo
+     */
+    if (this.history.length == 0) {
+      return false;
+    }
+    this.rewind(this.history.length - 1);
+    return true;
+  }
+
+  /*** Breakpoints ***/
+
+  breakpointAddress(breakpoint: Breakpoint): number | undefined {
+    return breakpoint.kind == BreakpointKind.ADDRESS
+      ? breakpoint.location
+      : this.lineToAddress.get(breakpoint.location);
+  }
+
+  private conditionOperandValue(operand: string): bigint {
+    // Register names are case-insensitive, as they are in the assembler, and numbers are read as integer literals
+    return STRINGS_TO_REGISTERS.has(operand.toLowerCase())
+      ? this.getRegister(operand.toLowerCase())
+      : parseBigIntegerLiteral(operand) ?? BigInt(0);
+  }
+
+  private conditionHolds(condition: BreakpointCondition | undefined): boolean {
+    if (condition == undefined) { return true; }
+    const left: bigint = this.conditionOperandValue(condition.left);
+    const right: bigint = this.conditionOperandValue(condition.right);
+    switch (condition.operator) {
+      case "==": return left == right;
+      case "!=": return left != right;
+      case "<": return left < right;
+      case "<=": return left <= right;
+      case ">": return left > right;
+      default: return left >= right;
+    }
+  }
+
+  breakpointHit(pc: number): Breakpoint | undefined {
+    return this.breakpoints.find(
+      (breakpoint: Breakpoint) => this.breakpointAddress(breakpoint) == pc && this.conditionHolds(breakpoint.condition),
+    );
+  }
+
+  /*** Environment ***/
+
+  provideInput(line: string): void {
+    /**
+     * Queues a line of input for the program to read. The program doesn't
+     * resume by itself if it was waiting; the caller steps or runs it again.
+     *
+     * @param line - The line, without its line break
+     */
+    this.pendingInput.push(line);
+    this.waitingForInput = false;
+  }
+
+  recordEnvironment(): void {
+    if (this.recordingEntry != undefined && this.recordingEntry.environmentBefore == undefined) {
+      this.recordingEntry.environmentBefore = {
+        consoleLength: this.consoleOutput.length,
+        pendingInput: [...this.pendingInput],
+        heapBreak: this.heapBreak,
+        exitCode: this.exitCode,
+      };
+    }
+  }
+
+  private restoreEnvironment(environment: EnvironmentState): void {
+    this.consoleOutput = this.consoleOutput.slice(0, environment.consoleLength);
+    this.pendingInput = [...environment.pendingInput];
+    this.heapBreak = environment.heapBreak;
+    this.exitCode = environment.exitCode;
+    this.observers.forEach((observer) => observer.consoleChanged?.(this.consoleOutput));
+  }
+
+  writeConsole(text: string): void {
+    this.consoleOutput += text;
+    this.observers.forEach((observer) => observer.consoleChanged?.(this.consoleOutput));
+  }
+
+  readConsoleLine(): string {
+    /**
+     * Takes the next line of input, echoing it into the console output.
+     * If no input has been provided yet the program has to wait, so the
+     * instruction is abandoned and will be retried once input arrives.
+     *
+     * @returns The line, without its line break
+     */
+    if (this.pendingInput.length == 0) {
+      this.waitingForInput = true;
+      throw new Error("Waiting for input: type into the console and press Enter.");
+    }
+    const line: string = this.pendingInput.shift()!;
+    this.writeConsole(line + "\n");
+    return line;
+  }
+}
@@ -5,6 +5,39 @@ tsc compiler. The .js file will be used by the linked to the index.html file.
 Author: Anjali Phukan (https://github.com/ZaraPhu).
 Creation Date: April 2, 2025.
 */
+import { instructionLengthOf } from "./compressed-instructions.js";
+import { DisassembledInstruction } from "./disassembler.js";
+import { EXCEPTION_FLAG_NAMES, ROUNDING_MODE_NAMES, formatSingle } from "./floating-point.js";
+import { InstructionEncoding, InstructionField } from "./instruction-fields.js";
+import {
+  Base,
+  Breakpoint,
+  BreakpointCondition,
+  BreakpointKind,
+  CSR_FCSR,
+  CSR_MCAUSE,
+  CSR_RESET_VALUES,
+  Diagnostic,
+  FFLAGS_MASK,
+  FLEN,
+  FRM_SHIFT,
+  FieldKind,
+  HISTORY_DISPLAY_LENGTH,
+  HistoryEntry,
+  INSTRUCTION_LENGTH,
+  ParserResult,
+  REGISTER_COUNT,
+  STRINGS_TO_FLOAT_REGISTERS,
+  Severity,
+  TEXT_SEGMENT_BASE,
+  XLEN,
+  binaryToHex,
+  dataSegmentBase,
+  describeTrapCause,
+  formatAddress,
+  formatCsr,
+  zeroExtend,
+} from "./utils.js";
 
 // DOM elements and state for dark mode functionality
 const htmlRootNode = document.querySelector("html") as HTMLElement;
@@ -13,22 +46,33 @@ const darkModeButton = document.querySelector(
 ) as HTMLButtonElement | null;
 let darkModeEnabled: boolean = false;
 
+// Current base for displaying register values
+let registerBase: number = Base.BINARY;
+
 // DOM element for the register display panel
 const registerList = document.querySelector(
   "#register-list",
 ) as HTMLUListElement | null;
+// and for its floating-point tab
+const floatRegisterList = document.querySelector(
+  "#float-register-list",
+) as HTMLUListElement | null;
+// and for its CSR tab
+const csrList = document.querySelector(
+  "#csr-list",
+) as HTMLUListElement | null;
 
 // used to set the number representation of the registers
-const binaryCheck: HTMLInputElement = document.querySelector(
+export const binaryCheck: HTMLInputElement = document.querySelector(
   "#binary-check",
 ) as HTMLInputElement;
-const decimalCheck: HTMLInputElement = document.querySelector(
+export const decimalCheck: HTMLInputElement = document.querySelector(
   "#decimal-check",
 ) as HTMLInputElement;
-const hexadecimalCheck: HTMLInputElement = document.querySelector(
+export const hexadecimalCheck: HTMLInputElement = document.querySelector(
   "#hexadecimal-check",
 ) as HTMLInputElement;
-const octalCheck: HTMLInputElement = document.querySelector(
+export const octalCheck: HTMLInputElement = document.querySelector(
   "#octal-check",
 ) as HTMLInputElement;
 
@@ -37,12 +81,52 @@ const memoryGrid: HTMLUListElement = document.querySelector(
   "#memory-grid",
 ) as HTMLUListElement;
 
+// shows the instructions pasted into the disassembler as hex
+const disassemblyList: HTMLUListElement = document.querySelector(
+  "#disassembly-list",
+) as HTMLUListElement;
+
+// shows the fields of the selected instruction's encoding
+const encodingView: HTMLDivElement = document.querySelector(
+  "#encoding-view",
+) as HTMLDivElement;
+// colours each kind of field the same way in every format
+const FIELD_KIND_CLASSES: ReadonlyMap<FieldKind, string> = new Map([
+  [FieldKind.OPCODE, "text-bg-danger"],
+  [FieldKind.FUNCT, "text-bg-warning"],
+  [FieldKind.REGISTER, "text-bg-success"],
+  [FieldKind.IMMEDIATE, "text-bg-info"],
+  [FieldKind.CSR, "text-bg-primary"],
+]);
+
+// for the breakpoint gutter beside the assembly editor and the breakpoint panel
+export const editorGutter: HTMLDivElement = document.querySelector(
+  "#editor-gutter",
+) as HTMLDivElement;
+// lies over the assembly editor to underline the parts of the program with errors
+export const editorDiagnostics: HTMLDivElement = document.querySelector(
+  "#editor-diagnostics",
+) as HTMLDivElement;
+const breakpointList: HTMLUListElement = document.querySelector(
+  "#breakpoint-list",
+) as HTMLUListElement;
+
+// for the timeline of executed instructions
+const historyList: HTMLUListElement = document.querySelector(
+  "#history-list",
+) as HTMLUListElement;
+
+// for the console which programs write to and read from through environment calls
+const consoleOutputText: HTMLPreElement = document.querySelector(
+  "#console-output",
+) as HTMLPreElement;
+
 /*** Functions ***/
 function createRegister(index: number): HTMLLIElement {
   /**
    * Creates a new HTML list item element that represents a RISC-V register
    *
-   * @param index - The register index (0 to XLEN-1 for standard registers, XLEN for pc)
+   * @param index - The register index (0 to 31 for standard registers, REGISTER_COUNT for pc)
    * @returns An HTMLLIElement that displays both the register name and its value
    */
   // Create the main list item element
@@ -67,11 +151,11 @@ function createRegister(index: number): HTMLLIElement {
   registerValue.classList.add("fs-6");
 
   // Set the register name and ID based on the index
-  if (index < XLEN) {
+  if (index < REGISTER_COUNT) {
     // Standard registers x0 through x31
     registerName.textContent = `x${index}`;
     registerValue.setAttribute("id", `register-${index}`);
-  } else if (index == XLEN) {
+  } else if (index == REGISTER_COUNT) {
     // Program counter (pc) register
     registerName.textContent = "pc";
     registerValue.setAttribute("id", "pc-register");
@@ -101,12 +185,85 @@ function populateRegisterList(): void {
    * the HTML elements for each register and appends them to the registerList
    * element in the DOM.
    */
-  for (let i: number = 0; i < XLEN + 1; i++) {
+  for (let i: number = 0; i < REGISTER_COUNT + 1; i++) {
     let newRegister = createRegister(i);
     registerList?.appendChild(newRegister);
   }
 }
 
+function createFloatRegister(index: number): HTMLLIElement {
+  /**
+   * Creates a list item for an f register, or for fcsr when the index is
+   * REGISTER_COUNT. An f register shows its value in decimal above its IEEE-754 bits,
+   * which are split into the sign, exponent and mantissa.
+   *
+   * @param index - The register index (0 to 31 for f registers, REGISTER_COUNT for fcsr)
+   * @returns An HTMLLIElement that displays the register's names and its value
+   */
+  const newRegister = document.createElement("li");
+  newRegister.classList.add("list-group-item");
+  const innerDiv = document.createElement("div");
+  innerDiv.classList.add("d-flex", "justify-content-between", "align-items-center");
+
+  const registerName = document.createElement("p");
+  registerName.classList.add("px-2", "fs-6");
+  const registerValue = document.createElement("div");
+  registerValue.classList.add("fs-6", "text-end");
+  if (index < REGISTER_COUNT) {
+    // The first name of a register is f0 to f31, and the second its ABI name
+    const names: string[] = Array.from(STRINGS_TO_FLOAT_REGISTERS.keys())
+      .filter((name: string) => STRINGS_TO_FLOAT_REGISTERS.get(name) == index);
+    registerName.textContent = `${names[0]} (${names[1]})`;
+    registerValue.setAttribute("id", `float-register-${index}`);
+  } else {
+    registerName.textContent = "fcsr";
+    registerValue.setAttribute("id", "fcsr-register");
+  }
+
+  innerDiv.appendChild(registerName);
+  innerDiv.appendChild(registerValue);
+  newRegister.appendChild(innerDiv);
+  return newRegister;
+}
+
+function populateFloatRegisterList(): void {
+  for (let i: number = 0; i < REGISTER_COUNT + 1; i++) {
+    floatRegisterList?.appendChild(createFloatRegister(i));
+  }
+}
+
+function createCsr(address: number): HTMLLIElement {
+  /**
+   * Creates a list item for a machine-mode CSR, showing its name and address.
+   *
+   * @param address - The CSR's 12-bit address
+   * @returns An HTMLLIElement that displays the CSR's name and its value
+   */
+  const newCsr = document.createElement("li");
+  newCsr.classList.add("list-group-item");
+  const innerDiv = document.createElement("div");
+  innerDiv.classList.add("d-flex", "justify-content-between", "align-items-center");
+
+  const csrName = document.createElement("p");
+  csrName.classList.add("px-2", "fs-6");
+  csrName.textContent = `${formatCsr(address)} (0x${address.toString(16).padStart(3, "0")})`;
+  const csrValue = document.createElement("div");
+  csrValue.classList.add("fs-6", "text-end", "font-monospace");
+  csrValue.setAttribute("id", `csr-${address}`);
+
+  innerDiv.appendChild(csrName);
+  innerDiv.appendChild(csrValue);
+  newCsr.appendChild(innerDiv);
+  return newCsr;
+}
+
+function populateCsrList(): void {
+  // fcsr is shown on the floating-point tab instead
+  Array.from(CSR_RESET_VALUES.keys())
+    .filter((address: number) => address != CSR_FCSR)
+    .forEach((address: number) => csrList?.appendChild(createCsr(address)));
+}
+
 function populateMemoryGrid(rows: number, columns: number) {
   /**
    * Populates the memory grid display with a specified number of rows and columns.
@@ -132,16 +289,393 @@ function populateMemoryGrid(rows: number, columns: number) {
   }
 }
 
-function fillMemoryGrid(currentMemory: Map<number, string>): void {
+function createMemorySegmentHeader(title: string): HTMLLIElement {
+  const segmentHeader = document.createElement("li");
+  segmentHeader.classList.add("list-group-item", "list-group-item-secondary", "fw-bold");
+  segmentHeader.textContent = title;
+  return segmentHeader;
+}
+
+export function fillMemoryGrid(
+  currentMemory: Uint8Array,
+  program: ParserResult | undefined = undefined,
+  disassembly: DisassembledInstruction[] = [],
+  onSelect: (address: number) => void = () => {},
+): void {
+  /**
+   * Displays every word of memory in the memory peeker, labelled with its byte
+   * address. Headers mark where the text and data segments begin, and each
+   * word of the program's text is followed by the instruction it was assembled
+   * from, along with the pseudo-instruction that was expanded into it. A
+   * compressed instruction is shown as a halfword of its own, so the cells
+   * follow the boundaries between the program's instructions.
+   *
+   * The disassembly of the program's memory is shown beside the bits, so that
+   * an instruction the program has overwritten, or one loaded without its
+   * source, can still be read.
+   *
+   * @param currentMemory - The bytes of memory to display
+   * @param program - The program loaded into memory, if any
+   * @param disassembly - The instructions disassembled from the program's executable memory
+   * @param onSelect - Called with the address of an instruction when it is clicked
+   */
   memoryGrid.innerHTML = "";
-  currentMemory.forEach((instruction: string, i: number) => {
+  const addressToIndex: Map<number, number> = new Map(program?.addresses.map((address: number, i: number) => [address, i]));
+  const addressToInstruction: Map<number, DisassembledInstruction> = new Map(
+    disassembly.map((instruction: DisassembledInstruction) => [instruction.address, instruction]),
+  );
+  const dataSegmentAddress: number = program?.dataSegmentAddress ?? dataSegmentBase(currentMemory.length);
+  let length: number = INSTRUCTION_LENGTH;
+  for (let address: number = 0; address < currentMemory.length; address += length) {
+    const index: number | undefined = addressToIndex.get(address);
+    const instruction: DisassembledInstruction | undefined = addressToInstruction.get(address);
+    // Past the end of the program, a halfword brings the cells back to word boundaries
+    length = index != undefined
+      ? instructionLengthOf(program!.output[index])
+      : instruction?.length ?? INSTRUCTION_LENGTH - address % INSTRUCTION_LENGTH;
+    const word: string = Array.from(currentMemory.slice(address, address + length))
+      .reverse()
+      .map((byte: number) => zeroExtend(byte.toString(Base.BINARY), 8))
+      .join("");
+    if (address == TEXT_SEGMENT_BASE) {
+      memoryGrid.appendChild(createMemorySegmentHeader("Text Segment (.text)"));
+    } else if (address == dataSegmentAddress) {
+      memoryGrid.appendChild(createMemorySegmentHeader("Data Segment (.data)"));
+    }
     const memoryCell = document.createElement("li");
     memoryCell.classList.add("list-group-item");
-    memoryCell.textContent = `${i+1}: ${instruction}`;
+    memoryCell.textContent = `0x${binaryToHex(zeroExtend(address.toString(Base.BINARY), 32))}: ${word}`;
+    if (index != undefined || instruction?.text != undefined) {
+      const cellAddress: number = address;
+      memoryCell.classList.add("list-group-item-action");
+      memoryCell.setAttribute("title", "Show this instruction's encoding");
+      memoryCell.addEventListener("click", () => onSelect(cellAddress));
+    }
+    if (instruction?.text != undefined) {
+      const disassembled = document.createElement("span");
+      disassembled.classList.add("ms-3", "font-monospace", "text-primary-emphasis");
+      disassembled.textContent = instruction.text;
+      memoryCell.appendChild(disassembled);
+    }
+    if (program != undefined && index != undefined) {
+      const source = document.createElement("div");
+      source.classList.add("small", "text-body-secondary", "font-monospace");
+      const pseudoInstruction: string[] | undefined = program.expandedFrom[index];
+      source.textContent = program.output[index].join(" ")
+        + (pseudoInstruction ? ` \u2190 ${pseudoInstruction.join(" ")}` : "");
+      memoryCell.appendChild(source);
+    }
     memoryGrid.appendChild(memoryCell);
+  }
+}
+
+export function describeBreakpoint(
+  breakpoint: Breakpoint,
+  addressOf: (breakpoint: Breakpoint) => number | undefined,
+): string {
+  /**
+   * Describes where a breakpoint is and when it stops execution, e.g.
+   * "line 4 (0x0000000c) if x5 == 10".
+   *
+   * @param breakpoint - The breakpoint to describe
+   * @param addressOf - Finds the address of the instruction the breakpoint is on
+   * @returns A short description of the breakpoint
+   */
+  const address: number | undefined = addressOf(breakpoint);
+  let description: string = breakpoint.kind == BreakpointKind.LINE
+    ? `line ${breakpoint.location} (${address == undefined ? "no instruction" : formatAddress(address)})`
+    : `address ${formatAddress(breakpoint.location)}`;
+  if (breakpoint.condition != undefined) {
+    const condition: BreakpointCondition = breakpoint.condition;
+    description += ` if ${condition.left} ${condition.operator} ${condition.right}`;
+  }
+  return description;
+}
+
+export function fillEditorGutter(
+  lineCount: number,
+  breakpointLines: number[],
+  onToggle: (lineNumber: number) => void,
+): void {
+  /**
+   * Shows a line number beside each line of the assembly editor. Clicking a line
+   * number toggles a breakpoint on that line, which is marked with a red dot.
+   *
+   * @param lineCount - The number of lines in the assembly editor
+   * @param breakpointLines - The lines which have a breakpoint
+   * @param onToggle - Called with the line number when a line is clicked
+   */
+  editorGutter.innerHTML = "";
+  for (let lineNumber: number = 1; lineNumber <= lineCount; lineNumber++) {
+    const gutterLine = document.createElement("div");
+    gutterLine.classList.add("gutter-line", "px-1");
+    if (breakpointLines.includes(lineNumber)) {
+      gutterLine.classList.add("text-danger", "fw-bold");
+      gutterLine.textContent = `\u25CF ${lineNumber}`;
+    } else {
+      gutterLine.textContent = `${lineNumber}`;
+    }
+    gutterLine.addEventListener("click", () => onToggle(lineNumber));
+    editorGutter.appendChild(gutterLine);
+  }
+}
+
+export function fillEditorDiagnostics(lines: string[], diagnostics: Diagnostic[]): void {
+  /**
+   * Underlines the parts of the program in the assembly editor which the
+   * diagnostics refer to. The text itself is invisible, and only positions the
+   * underlines beneath the matching characters of the editor.
+   *
+   * @param lines - The lines of the program in the assembly editor
+   * @param diagnostics - The problems found when the program was assembled
+   */
+  editorDiagnostics.innerHTML = "";
+  lines.forEach((line: string, i: number) => {
+    const spans: { start: number; end: number; severity: Severity }[] = diagnostics
+      .filter((diagnostic: Diagnostic) => diagnostic.line == i + 1)
+      .map((diagnostic: Diagnostic) => diagnostic.column == undefined
+        ? { start: 0, end: line.length, severity: diagnostic.severity }
+        : {
+          start: diagnostic.column - 1,
+          end: diagnostic.column - 1 + Math.max(diagnostic.length, 1),
+          severity: diagnostic.severity,
+        })
+      .sort((a, b) => a.start - b.start);
+    let position: number = 0;
+    spans.forEach((span) => {
+      // Overlapping problems are already underlined by the earlier one
+      if (span.start < position) { return; }
+      editorDiagnostics.append(line.slice(position, span.start));
+      const underline = document.createElement("span");
+      underline.classList.add("diagnostic");
+      if (span.severity == Severity.WARNING) { underline.classList.add("warning"); }
+      underline.textContent = line.slice(span.start, span.end) || " ";
+      editorDiagnostics.appendChild(underline);
+      position = span.end;
+    });
+    editorDiagnostics.append(`${line.slice(position)}\n`);
   });
 }
 
+export function fillBreakpointList(
+  currentBreakpoints: Breakpoint[],
+  addressOf: (breakpoint: Breakpoint) => number | undefined,
+  onRemove: (index: number) => void,
+): void {
+  breakpointList.innerHTML = "";
+  currentBreakpoints.forEach((breakpoint: Breakpoint, i: number) => {
+    const breakpointItem = document.createElement("li");
+    breakpointItem.classList.add(
+      "list-group-item",
+      "d-flex",
+      "justify-content-between",
+      "align-items-center",
+    );
+    breakpointItem.textContent = describeBreakpoint(breakpoint, addressOf);
+
+    const removeButton = document.createElement("button");
+    removeButton.classList.add("btn-close", "ms-2");
+    removeButton.setAttribute("aria-label", "Remove breakpoint");
+    removeButton.addEventListener("click", () => onRemove(i));
+    breakpointItem.appendChild(removeButton);
+
+    breakpointList.appendChild(breakpointItem);
+  });
+}
+
+export function fillHistoryList(
+  history: HistoryEntry[],
+  describe: (entry: HistoryEntry) => string,
+  onRewind: (length: number) => void,
+): void {
+  /**
+   * Shows the most recently executed instructions, newest first. Clicking an
+   * instruction rewinds the simulator to the state just before it executed.
+   *
+   * @param history - Every recorded instruction, oldest first
+   * @param describe - Describes an instruction as it appears in the timeline
+   * @param onRewind - Called with the number of instructions to keep in the history
+   */
+  historyList.innerHTML = "";
+  const firstShown: number = Math.max(0, history.length - HISTORY_DISPLAY_LENGTH);
+  for (let i: number = history.length - 1; i >= firstShown; i--) {
+    const historyItem = document.createElement("li");
+    historyItem.classList.add("list-group-item", "list-group-item-action");
+    historyItem.textContent = `${i + 1}. ${describe(history[i])}`;
+    historyItem.setAttribute("title", "Rewind to before this instruction");
+    historyItem.addEventListener("click", () => onRewind(i));
+    historyList.appendChild(historyItem);
+  }
+}
+
+export function fillDisassemblyList(instructions: DisassembledInstruction[]): void {
+  /**
+   * Shows the instructions disassembled from the machine code pasted into the
+   * disassembler, each after its address and its encoding in hexadecimal.
+   *
+   * @param instructions - The disassembled instructions, in order
+   */
+  disassemblyList.innerHTML = "";
+  instructions.forEach((instruction: DisassembledInstruction) => {
+    const disassemblyItem = document.createElement("li");
+    disassemblyItem.classList.add("list-group-item");
+    const encoding: string = instruction.value.toString(Base.HEXADECIMAL).padStart(instruction.length * 2, "0");
+    disassemblyItem.textContent = `${formatAddress(instruction.address)}: ${encoding}  `
+      + (instruction.text ?? "(not an instruction)");
+    disassemblyList.appendChild(disassemblyItem);
+  });
+}
+
+function createEncodingField(field: InstructionField): HTMLDivElement {
+  /**
+   * Creates a box for one field of an instruction, showing its name above its
+   * bits and their value in decimal, coloured by what kind of field it is.
+   *
+   * @param field - The field, with the bits it holds
+   * @returns An HTMLDivElement that displays the field
+   */
+  const fieldBox = document.createElement("div");
+  fieldBox.classList.add("encoding-field", "px-1", FIELD_KIND_CLASSES.get(field.kind)!);
+  fieldBox.setAttribute("title", field.high == field.low ? `bit ${field.high}` : `bits ${field.high} to ${field.low}`);
+  [field.name, field.bits, `${field.value}`].forEach((text: string) => {
+    const line = document.createElement("div");
+    line.textContent = text;
+    fieldBox.appendChild(line);
+  });
+  return fieldBox;
+}
+
+export function fillEncodingView(descriptions: string[], encodings: (InstructionEncoding | undefined)[]): void {
+  /**
+   * Shows the selected instructions split into the fields of their formats.
+   * A line of the assembly editor can hold a pseudo-instruction which expands
+   * to several instructions, so each one is shown beneath the other.
+   *
+   * @param descriptions - Describes each instruction, e.g. with its address and source
+   * @param encodings - The fields of each instruction, or undefined where memory doesn't hold a valid instruction
+   */
+  encodingView.innerHTML = "";
+  descriptions.forEach((description: string, i: number) => {
+    const heading = document.createElement("div");
+    heading.classList.add("font-monospace", "mb-1");
+    heading.textContent = description;
+    const encoding: InstructionEncoding | undefined = encodings[i];
+    if (encoding != undefined) {
+      const format = document.createElement("span");
+      format.classList.add("badge", "text-bg-secondary", "ms-2");
+      format.textContent = encoding.formatName;
+      heading.appendChild(format);
+    }
+    encodingView.appendChild(heading);
+
+    const fields = document.createElement("div");
+    fields.classList.add("d-flex", "flex-wrap", "font-monospace", "text-center", "small", "mb-3");
+    if (encoding != undefined) {
+      encoding.fields.forEach((field: InstructionField) => fields.appendChild(createEncodingField(field)));
+    } else {
+      fields.textContent = "(not an instruction)";
+    }
+    encodingView.appendChild(fields);
+  });
+}
+
+export function fillConsoleOutput(text: string): void {
+  consoleOutputText.textContent = text;
+  // Keep the newest output in view
+  consoleOutputText.scrollTop = consoleOutputText.scrollHeight;
+}
+
+export function setRegisterBase(base: number) {
+  registerBase = [
+    Base.BINARY,
+    Base.OCTAL,
+    Base.DECIMAL,
+    Base.HEXADECIMAL,
+  ].includes(base)
+    ? base
+    : Base.DECIMAL;
+}
+
+export function setWideRegisters(wide: boolean): void {
+  // 64-bit values need more room, especially in binary
+  registerList?.classList.toggle("wide-registers", wide);
+}
+
+function formatRegisterValue(value: bigint): string {
+  // Registers hold signed values, whose bits are shown as the unsigned XLEN-bit number with the same bits
+  const bits: bigint = BigInt.asUintN(XLEN, value);
+  if (registerBase == Base.BINARY) {
+    return `0b${zeroExtend(bits.toString(Base.BINARY))}`;
+  } else if (registerBase == Base.OCTAL) {
+    return `0o${bits.toString(Base.OCTAL).padStart(Math.ceil(XLEN / 3), "0")}`;
+  } else if (registerBase == Base.HEXADECIMAL) {
+    return `0x${bits.toString(Base.HEXADECIMAL).padStart(XLEN / 4, "0")}`;
+  }
+  return `${value}`;
+}
+
+export function updateRegisterDisplay(register: number, value: bigint): void {
+  registerDisplays[register].textContent = formatRegisterValue(value);
+}
+
+export function updateRegisterDisplays(registers: BigInt64Array): void {
+  registers.forEach((value: bigint, register: number) => updateRegisterDisplay(register, value));
+}
+
+export function updateFloatRegisterDisplay(register: number, value: number): void {
+  const display: HTMLDivElement = floatRegisterDisplays[register];
+  display.innerHTML = "";
+  const decimal = document.createElement("p");
+  decimal.classList.add("mb-0");
+  decimal.textContent = formatSingle(value);
+  const bitString: string = zeroExtend(value.toString(Base.BINARY), FLEN);
+  const bits = document.createElement("p");
+  bits.classList.add("mb-0", "small", "text-body-secondary", "font-monospace");
+  bits.textContent = `${bitString.slice(0, 1)} ${bitString.slice(1, 9)} ${bitString.slice(9)}`;
+  bits.setAttribute("title", "Sign, exponent and mantissa");
+  display.append(decimal, bits);
+}
+
+export function updateFloatRegisterDisplays(registers: Uint32Array): void {
+  registers.forEach((value: number, register: number) => updateFloatRegisterDisplay(register, value));
+}
+
+export function updateFcsrDisplay(fcsr: number): void {
+  /**
+   * Shows the rounding mode in the frm field of fcsr, and the names of the
+   * exception flags which are set in its fflags field.
+   *
+   * @param fcsr - The value of fcsr
+   */
+  const frm: number = fcsr >>> FRM_SHIFT;
+  const roundingMode: string = Array.from(ROUNDING_MODE_NAMES.keys())
+    .find((name: string) => ROUNDING_MODE_NAMES.get(name) == frm) ?? `invalid (${frm})`;
+  const flags: string[] = Array.from(EXCEPTION_FLAG_NAMES.keys())
+    .filter((flag: number) => (fcsr & FFLAGS_MASK & flag) != 0)
+    .map((flag) => EXCEPTION_FLAG_NAMES.get(flag)!);
+  fcsrDisplay.textContent = `frm ${roundingMode}, fflags ${flags.length > 0 ? flags.join(" ") : "none"}`;
+}
+
+export function updateCsrDisplay(address: number, value: number): void {
+  /**
+   * Shows the value of a CSR in hexadecimal, along with the kind of trap it
+   * describes for mcause.
+   *
+   * @param address - The CSR's address
+   * @param value - The CSR's new value
+   */
+  const display: HTMLDivElement | undefined = csrDisplays.get(address);
+  if (display == undefined) { return; }
+  // CSRs are 32 bits wide, even in RV64I
+  const hex: string = `0x${value.toString(16).padStart(8, "0")}`;
+  const description: string | undefined = describeTrapCause(value);
+  display.textContent = address == CSR_MCAUSE && description != undefined ? `${hex} (${description})` : hex;
+}
+
+export function updateCsrDisplays(csrs: Map<number, number>): void {
+  csrs.forEach((value: number, address: number) => updateCsrDisplay(address, value));
+}
+
 /*** Program Starting Point */
 // sets up the dark mode toggle button
 darkModeButton?.addEventListener("click", () => {
@@ -156,11 +690,25 @@ darkModeButton?.addEventListener("click", () => {
 // sets up the register list and populates it
 populateRegisterList();
 
-// set up memory grid
-fillMemoryGrid(memory);
-
 const registerDisplays: HTMLParagraphElement[] = [];
-for (let i = 0; i < XLEN; i++) {
+for (let i = 0; i < REGISTER_COUNT; i++) {
   registerDisplays.push(document.querySelector(`#register-${i}`)!);
 }
 registerDisplays.push(document.querySelector("#pc-register")!);
+
+// sets up the floating-point tab of the register list
+populateFloatRegisterList();
+
+const floatRegisterDisplays: HTMLDivElement[] = [];
+for (let i = 0; i < REGISTER_COUNT; i++) {
+  floatRegisterDisplays.push(document.querySelector(`#float-register-${i}`)!);
+}
+const fcsrDisplay: HTMLDivElement = document.querySelector("#fcsr-register")!;
+
+// sets up the CSR tab of the register list
+populateCsrList();
+
+const csrDisplays: Map<number, HTMLDivElement> = new Map();
+for (const address of CSR_RESET_VALUES.keys()) {
+  if (address != CSR_FCSR) { csrDisplays.set(address, document.querySelector(`#csr-${address}`)!); }
+}
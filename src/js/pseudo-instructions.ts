@@ -0,0 +1,418 @@
+/*
+The purpose of this file is to describe the pseudo-instructions which the
+assembler accepts. Pseudo-instructions have no encoding of their own, so each
+one is expanded into the real instructions which do its job before the
+program is encoded.
+*/
+import { parseBigIntegerLiteral } from "./lexer.js";
+import {
+  B_TYPE,
+  CSR_READ_TYPE,
+  CSR_WRITE_IMMEDIATE_TYPE,
+  CSR_WRITE_TYPE,
+  Extension,
+  FLOAT_UNARY_TYPE,
+  I_IMMEDIATE,
+  NONE_TYPE,
+  OperandType,
+  PSEUDO_TYPE_A,
+  PSEUDO_TYPE_B,
+  PSEUDO_TYPE_C,
+  PSEUDO_TYPE_D,
+  R_TYPE,
+  XLEN,
+  lowerImmediate,
+  upperImmediate,
+} from "./utils.js";
+
+/*** Types ***/
+export interface PseudoInstructionInfo {
+  instructionFormat: OperandType[];
+  // Whether a label operand stands for its offset from the instruction, as for a branch, rather than its address
+  pcRelative: boolean;
+  // The number of base instructions the pseudo-instruction expands to, given its operands as written
+  length: (operands: string[]) => number;
+  // Produces the base instructions, given the operands (with labels resolved) and the address of the first one
+  expand: (operands: string[], address: number) => string[][];
+  // The extension whose instructions it expands to, or undefined if it only needs base instructions
+  extension?: Extension;
+  // Whether it expands to instructions which only exist when XLEN is 64
+  rv64Only?: boolean;
+}
+
+/*** Functions ***/
+function fitsInAddi(value: number): boolean {
+  return value >= I_IMMEDIATE.min && value <= I_IMMEDIATE.max;
+}
+
+function loadImmediateLength(operands: string[]): number {
+  // The length depends on the value, so LI is expanded just to count its instructions
+  const value: bigint | undefined = parseBigIntegerLiteral(operands[1] ?? "");
+  return value == undefined ? 1 : loadImmediate([operands[0], value.toString()]).length;
+}
+
+function loadImmediate([rd, immediate]: string[]): string[][] {
+  /**
+   * Loads a constant with ADDI alone for a 12-bit constant, LUI alone when the
+   * lower 12 bits are zero, and LUI followed by ADDI otherwise. In RV64I, a
+   * constant which doesn't fit in 32 bits is built from a shorter constant,
+   * shifted into place with SLLI before its lowest 12 bits are added.
+   */
+  // Constants may be written unsigned, e.g. 0xfffff800 for -2048 in RV32I
+  const value: bigint = BigInt.asIntN(XLEN, BigInt(immediate));
+  if (value != BigInt.asIntN(32, value)) {
+    return loadWideImmediate(rd, value);
+  } else if (fitsInAddi(Number(value))) {
+    return [["ADDI", rd, "x0", value.toString()]];
+  }
+  const lower: number = lowerImmediate(Number(value));
+  const upperInstruction: string[] = ["LUI", rd, upperImmediate(Number(value)).toString()];
+  // LUI sign-extends its result in RV64I, which ADDIW undoes for a constant such as 0x7fffffff
+  const lowerInstruction: string[] = [XLEN == 64 ? "ADDIW" : "ADDI", rd, rd, lower.toString()];
+  return lower == 0 ? [upperInstruction] : [upperInstruction, lowerInstruction];
+}
+
+function loadWideImmediate(rd: string, value: bigint): string[][] {
+  // The remaining upper bits are loaded with their trailing zeros dropped, then shifted back up
+  const lower: bigint = BigInt.asIntN(12, value);
+  let upper: bigint = BigInt.asIntN(XLEN, value - lower) >> BigInt(12);
+  let shift: number = 12;
+  for (; (upper & BigInt(1)) == BigInt(0); shift++) {
+    upper >>= BigInt(1);
+  }
+  const instructions: string[][] = [...loadImmediate([rd, upper.toString()]), ["SLLI", rd, rd, shift.toString()]];
+  return lower == BigInt(0) ? instructions : [...instructions, ["ADDI", rd, rd, lower.toString()]];
+}
+
+function pcRelativePair(
+  upperRegister: string,
+  lowerInstruction: string,
+  lowerRegister: string,
+  target: number,
+  address: number,
+): string[][] {
+  /**
+   * Reaches an address anywhere in memory with an AUIPC, which adds the upper
+   * part of the offset to the target to the pc, followed by an instruction
+   * which adds the lower part of the offset (e.g. ADDI or JALR).
+   *
+   * @param upperRegister - The register AUIPC writes to
+   * @param lowerInstruction - The instruction which adds the lower part
+   * @param lowerRegister - The register that instruction writes to
+   * @param target - The address to reach
+   * @param address - The address of the AUIPC
+   */
+  const offset: number = target - address;
+  return [
+    ["AUIPC", upperRegister, upperImmediate(offset).toString()],
+    [lowerInstruction, lowerRegister, upperRegister, lowerImmediate(offset).toString()],
+  ];
+}
+
+/*** Constants ***/
+export const PSEUDO_INSTRUCTION_TO_INFO: ReadonlyMap<string, PseudoInstructionInfo> = new Map([
+  ["NOP", {
+    instructionFormat: NONE_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: () => [["ADDI", "x0", "x0", "0"]],
+  }],
+  ["LI", {
+    instructionFormat: PSEUDO_TYPE_C,
+    pcRelative: false,
+    length: loadImmediateLength,
+    expand: loadImmediate,
+  }],
+  ["LA", {
+    instructionFormat: PSEUDO_TYPE_C,
+    pcRelative: false,
+    length: () => 2,
+    expand: ([rd, target]: string[], address: number) => pcRelativePair(rd, "ADDI", rd, Number(target), address),
+  }],
+  ["MV", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["ADDI", rd, rs, "0"]],
+  }],
+  ["NOT", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["XORI", rd, rs, "-1"]],
+  }],
+  ["NEG", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["SUB", rd, "x0", rs]],
+  }],
+  ["NEGW", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["SUBW", rd, "x0", rs]],
+    rv64Only: true,
+  }],
+  ["SEXT.W", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["ADDIW", rd, rs, "0"]],
+    rv64Only: true,
+  }],
+  ["SEQZ", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["SLTIU", rd, rs, "1"]],
+  }],
+  ["SNEZ", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["SLTU", rd, "x0", rs]],
+  }],
+  ["SLTZ", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["SLT", rd, rs, "x0"]],
+  }],
+  ["SGTZ", {
+    instructionFormat: PSEUDO_TYPE_A,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["SLT", rd, "x0", rs]],
+  }],
+  ["SGT", {
+    instructionFormat: R_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs1, rs2]: string[]) => [["SLT", rd, rs2, rs1]],
+  }],
+  ["J", {
+    instructionFormat: PSEUDO_TYPE_B,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([offset]: string[]) => [["JAL", "x0", offset]],
+  }],
+  ["JR", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rs]: string[]) => [["JALR", "x0", rs, "0"]],
+  }],
+  ["RET", {
+    instructionFormat: NONE_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: () => [["JALR", "x0", "ra", "0"]],
+  }],
+  ["CALL", {
+    instructionFormat: PSEUDO_TYPE_B,
+    pcRelative: false,
+    length: () => 2,
+    expand: ([target]: string[], address: number) => pcRelativePair("ra", "JALR", "ra", Number(target), address),
+  }],
+  ["TAIL", {
+    instructionFormat: PSEUDO_TYPE_B,
+    pcRelative: false,
+    length: () => 2,
+    expand: ([target]: string[], address: number) => pcRelativePair("t1", "JALR", "x0", Number(target), address),
+  }],
+  ["BEQZ", {
+    instructionFormat: PSEUDO_TYPE_C,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs, offset]: string[]) => [["BEQ", rs, "x0", offset]],
+  }],
+  ["BNEZ", {
+    instructionFormat: PSEUDO_TYPE_C,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs, offset]: string[]) => [["BNE", rs, "x0", offset]],
+  }],
+  ["BLTZ", {
+    instructionFormat: PSEUDO_TYPE_C,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs, offset]: string[]) => [["BLT", rs, "x0", offset]],
+  }],
+  ["BGEZ", {
+    instructionFormat: PSEUDO_TYPE_C,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs, offset]: string[]) => [["BGE", rs, "x0", offset]],
+  }],
+  ["BGTZ", {
+    instructionFormat: PSEUDO_TYPE_C,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs, offset]: string[]) => [["BLT", "x0", rs, offset]],
+  }],
+  ["BLEZ", {
+    instructionFormat: PSEUDO_TYPE_C,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs, offset]: string[]) => [["BGE", "x0", rs, offset]],
+  }],
+  // The remaining branches test the reversed condition of a base branch, with the registers swapped
+  ["BGT", {
+    instructionFormat: B_TYPE,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs1, rs2, offset]: string[]) => [["BLT", rs2, rs1, offset]],
+  }],
+  ["BLE", {
+    instructionFormat: B_TYPE,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs1, rs2, offset]: string[]) => [["BGE", rs2, rs1, offset]],
+  }],
+  ["BGTU", {
+    instructionFormat: B_TYPE,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs1, rs2, offset]: string[]) => [["BLTU", rs2, rs1, offset]],
+  }],
+  ["BLEU", {
+    instructionFormat: B_TYPE,
+    pcRelative: true,
+    length: () => 1,
+    expand: ([rs1, rs2, offset]: string[]) => [["BGEU", rs2, rs1, offset]],
+  }],
+  // Moving, negating and taking the absolute value of a single are sign injections with rs1 as both sources
+  ["FMV.S", {
+    instructionFormat: FLOAT_UNARY_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["FSGNJ.S", rd, rs, rs]],
+    extension: Extension.F,
+  }],
+  ["FNEG.S", {
+    instructionFormat: FLOAT_UNARY_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["FSGNJN.S", rd, rs, rs]],
+    extension: Extension.F,
+  }],
+  ["FABS.S", {
+    instructionFormat: FLOAT_UNARY_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, rs]: string[]) => [["FSGNJX.S", rd, rs, rs]],
+    extension: Extension.F,
+  }],
+  // Reading or only writing a CSR, which discards the old value in x0
+  ["CSRR", {
+    instructionFormat: CSR_READ_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd, csr]: string[]) => [["CSRRS", rd, csr, "x0"]],
+  }],
+  ["CSRW", {
+    instructionFormat: CSR_WRITE_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([csr, rs]: string[]) => [["CSRRW", "x0", csr, rs]],
+  }],
+  ["CSRS", {
+    instructionFormat: CSR_WRITE_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([csr, rs]: string[]) => [["CSRRS", "x0", csr, rs]],
+  }],
+  ["CSRC", {
+    instructionFormat: CSR_WRITE_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([csr, rs]: string[]) => [["CSRRC", "x0", csr, rs]],
+  }],
+  ["CSRWI", {
+    instructionFormat: CSR_WRITE_IMMEDIATE_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([csr, imm]: string[]) => [["CSRRWI", "x0", csr, imm]],
+  }],
+  ["CSRSI", {
+    instructionFormat: CSR_WRITE_IMMEDIATE_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([csr, imm]: string[]) => [["CSRRSI", "x0", csr, imm]],
+  }],
+  ["CSRCI", {
+    instructionFormat: CSR_WRITE_IMMEDIATE_TYPE,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([csr, imm]: string[]) => [["CSRRCI", "x0", csr, imm]],
+  }],
+  // Reading the counters
+  ["RDCYCLE", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd]: string[]) => [["CSRRS", rd, "cycle", "x0"]],
+  }],
+  ["RDCYCLEH", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd]: string[]) => [["CSRRS", rd, "cycleh", "x0"]],
+  }],
+  ["RDINSTRET", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd]: string[]) => [["CSRRS", rd, "instret", "x0"]],
+  }],
+  ["RDINSTRETH", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd]: string[]) => [["CSRRS", rd, "instreth", "x0"]],
+  }],
+  // Reading and writing fcsr and its fields
+  ["FRCSR", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd]: string[]) => [["CSRRS", rd, "fcsr", "x0"]],
+    extension: Extension.F,
+  }],
+  ["FSCSR", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rs]: string[]) => [["CSRRW", "x0", "fcsr", rs]],
+    extension: Extension.F,
+  }],
+  ["FRRM", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd]: string[]) => [["CSRRS", rd, "frm", "x0"]],
+    extension: Extension.F,
+  }],
+  ["FSRM", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rs]: string[]) => [["CSRRW", "x0", "frm", rs]],
+    extension: Extension.F,
+  }],
+  ["FRFLAGS", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rd]: string[]) => [["CSRRS", rd, "fflags", "x0"]],
+    extension: Extension.F,
+  }],
+  ["FSFLAGS", {
+    instructionFormat: PSEUDO_TYPE_D,
+    pcRelative: false,
+    length: () => 1,
+    expand: ([rs]: string[]) => [["CSRRW", "x0", "fflags", rs]],
+    extension: Extension.F,
+  }],
+]);
@@ -7,6 +7,59 @@ Author: AnjaliPhukan.
 Creation Date: April 3, 2025.
 */
 
+import { parseInput } from "./assembler.js";
+import { DisassembledInstruction, HexDisassembly, disassembleBytes, disassembleHex } from "./disassembler.js";
+import { EXPORT_FILE_NAMES, ExportFormat, exportProgram } from "./exporter.js";
+import { splitInstruction } from "./instruction-fields.js";
+import { parseBigIntegerLiteral } from "./lexer.js";
+import { parseProgramFile } from "./loader.js";
+import { Machine, StopEvent, StopReason } from "./machine.js";
+import {
+  binaryCheck,
+  decimalCheck,
+  describeBreakpoint,
+  editorDiagnostics,
+  editorGutter,
+  fillBreakpointList,
+  fillConsoleOutput,
+  fillDisassemblyList,
+  fillEncodingView,
+  fillEditorDiagnostics,
+  fillEditorGutter,
+  fillHistoryList,
+  fillMemoryGrid,
+  hexadecimalCheck,
+  octalCheck,
+  setRegisterBase,
+  setWideRegisters,
+  updateCsrDisplay,
+  updateCsrDisplays,
+  updateFcsrDisplay,
+  updateFloatRegisterDisplay,
+  updateFloatRegisterDisplays,
+  updateRegisterDisplay,
+  updateRegisterDisplays,
+} from "./page-behaviour.js";
+import {
+  BREAKPOINT_CONDITION_REGEX,
+  Base,
+  Breakpoint,
+  BreakpointCondition,
+  BreakpointKind,
+  CSR_FCSR,
+  Extension,
+  HistoryEntry,
+  LINE_LOCATION_REGEX,
+  LoaderResult,
+  MemorySegment,
+  ParserResult,
+  ParserStatus,
+  RUN_SLICE_CHECK_INTERVAL,
+  RUN_SLICE_DURATION,
+  STRINGS_TO_REGISTERS,
+  formatAddress,
+} from "./utils.js";
+
 /*** Constants and Variables ***/
 const assemblyEditor = document.querySelector(
   "#assembly-editor",
@@ -14,6 +67,15 @@ const assemblyEditor = document.querySelector(
 const assembleButton = document.querySelector(
   "#assemble-button",
 ) as HTMLButtonElement | null;
+const programFileInput = document.querySelector(
+  "#program-file-input",
+) as HTMLInputElement | null;
+const loadBaseAddressInput = document.querySelector(
+  "#load-base-address-input",
+) as HTMLInputElement | null;
+const loadProgramButton = document.querySelector(
+  "#load-program-button",
+) as HTMLButtonElement | null;
 const stepButton = document.querySelector(
   "#step-button",
 ) as HTMLButtonElement | null;
@@ -23,6 +85,69 @@ const errorText = document.querySelector(
 const resetRegistersButton = document.querySelector(
   "#reset-registers-btn",
 ) as HTMLButtonElement | null;
+const stepBackButton = document.querySelector(
+  "#step-back-button",
+) as HTMLButtonElement | null;
+const runButton = document.querySelector(
+  "#run-button",
+) as HTMLButtonElement | null;
+const pauseButton = document.querySelector(
+  "#pause-button",
+) as HTMLButtonElement | null;
+const interruptButton = document.querySelector(
+  "#interrupt-button",
+) as HTMLButtonElement | null;
+const instructionLimitInput = document.querySelector(
+  "#instruction-limit-input",
+) as HTMLInputElement | null;
+const breakpointLocationInput = document.querySelector(
+  "#breakpoint-location-input",
+) as HTMLInputElement | null;
+const breakpointConditionInput = document.querySelector(
+  "#breakpoint-condition-input",
+) as HTMLInputElement | null;
+const addBreakpointButton = document.querySelector(
+  "#add-breakpoint-button",
+) as HTMLButtonElement | null;
+const clearBreakpointsButton = document.querySelector(
+  "#clear-breakpoints-button",
+) as HTMLButtonElement | null;
+const exportFormatSelect = document.querySelector(
+  "#export-format-select",
+) as HTMLSelectElement | null;
+const exportButton = document.querySelector(
+  "#export-button",
+) as HTMLButtonElement | null;
+const consoleInput = document.querySelector(
+  "#console-input",
+) as HTMLInputElement | null;
+const memorySizeSelect = document.querySelector(
+  "#memory-size-select",
+) as HTMLSelectElement | null;
+const immediateWarningsCheck = document.querySelector(
+  "#immediate-warnings-check",
+) as HTMLInputElement | null;
+const mExtensionCheck = document.querySelector(
+  "#m-extension-check",
+) as HTMLInputElement | null;
+const fExtensionCheck = document.querySelector(
+  "#f-extension-check",
+) as HTMLInputElement | null;
+const cExtensionCheck = document.querySelector(
+  "#c-extension-check",
+) as HTMLInputElement | null;
+const rv64Check = document.querySelector(
+  "#rv64-check",
+) as HTMLInputElement | null;
+const abiNamesCheck = document.querySelector(
+  "#abi-names-check",
+) as HTMLInputElement | null;
+const disassemblerInput = document.querySelector(
+  "#disassembler-input",
+) as HTMLTextAreaElement | null;
+const disassembleButton = document.querySelector(
+  "#disassemble-button",
+) as HTMLButtonElement | null;
 
 /*** Functions ***/
 function raiseError(message: string = "") {
@@ -44,233 +169,595 @@ function clearError() {
   raiseError();
 }
 
-function appendParsingError(parsingResult: ParserResult, errMessage: string) {
-  parsingResult.status = ParserStatus.ERR;
-  parsingResult.errMessage += errMessage;
+function refreshMemoryGrid(): void {
+  /**
+   * Redraws the memory peeker, with the program's executable memory
+   * disassembled as it is now, so that instructions the program has
+   * overwritten are shown as they will execute.
+   */
+  const disassembly: DisassembledInstruction[] = machine.segments
+    .filter((segment: MemorySegment) => segment.executable)
+    .flatMap((segment: MemorySegment) => disassembleBytes(
+      machine.memory.subarray(segment.address, segment.address + segment.bytes.length),
+      segment.address,
+      { abiNames: abiNamesCheck?.checked ?? false, address: undefined, symbols: machine.symbols },
+    ));
+  fillMemoryGrid(machine.memory, machine.program, disassembly, (address: number) => showEncodings([address]));
 }
 
-function parseInput(instructionList: string[]): ParserResult {
-  const parsingResult: ParserResult = {
-    output: [],
-    status: ParserStatus.OK,
-    errMessage: "",
-  };
+function showEncodings(addresses: number[]): void {
+  // Read from memory, so an instruction the program has overwritten is shown as it will execute
+  fillEncodingView(
+    addresses.map((address: number) => machine.describeInstructionAt(address)),
+    addresses.map((address: number) => {
+      const value: number | undefined = machine.instructionValueAt(address);
+      return value != undefined ? splitInstruction(value) : undefined;
+    }),
+  );
+}
 
-  // Iterate through each instruction in the provided list
-  for (let i: number = 0; i < instructionList.length; i++) {
-    let destructuredInstruction: string[] = instructionList[i]
-      .split(" ")
-      .map(element => element.replace(",", ""));
-    destructuredInstruction = destructuredInstruction.filter(
-      (element) => !(element === " ") && !(element === "")
-    );
-    let commentIndex: number = destructuredInstruction.findIndex((element: string) => { return element === "#";  });
-    if (commentIndex >= 0) { destructuredInstruction = destructuredInstruction.slice(0, commentIndex); }
-    
-    // If the instruction is empty (after splitting), mark as error
-    if (destructuredInstruction.length == 0) {
-      appendParsingError(parsingResult, `Line ${i + 1}: Empty instruction.\n`);
-      continue;
-    }
+function selectEditorLine(): void {
+  /**
+   * Shows the encoding of the instructions which the line the cursor is on in
+   * the assembly editor was assembled into, if any.
+   */
+  const program: ParserResult | undefined = machine.program;
+  if (assemblyEditor == null || program == undefined) {
+    return;
+  }
+  const lineNumber: number = assemblyEditor.value.slice(0, assemblyEditor.selectionStart).split("\n").length;
+  const addresses: number[] = program.addresses
+    .filter((_, i: number) => program.lineNumbers[i] == lineNumber);
+  if (addresses.length > 0) {
+    showEncodings(addresses);
+  }
+}
+
+function disassembleInput(): void {
+  // Targets of branches and jumps are worked out as though the pasted instructions started at address 0
+  const result: HexDisassembly = disassembleHex(disassemblerInput?.value ?? "", {
+    abiNames: abiNamesCheck?.checked ?? false,
+    address: undefined,
+    symbols: new Map(),
+  });
+  if (result.errMessage !== "") {
+    raiseError(result.errMessage);
+    return;
+  }
+  clearError();
+  fillDisassemblyList(result.instructions);
+}
+
+function rewindHistory(length: number): void {
+  machine.rewind(length);
+  refreshMemoryGrid();
+  refreshHistoryDisplay();
+}
 
-    const instructionInfo: InstructionInfo | undefined = INSTRUCTION_TO_INFO.get(destructuredInstruction[0]);
+function stepBack(): void {
+  if (!machine.stepBack()) {
+    raiseError("There are no executed instructions to step back over.");
+    return;
+  }
+  clearError();
+  refreshMemoryGrid();
+  refreshHistoryDisplay();
+}
+
+function refreshHistoryDisplay(): void {
+  fillHistoryList(machine.history, (entry: HistoryEntry) => machine.describeHistoryEntry(entry), rewindHistory);
+}
 
-    if (instructionInfo == undefined) {
-      appendParsingError(
-        parsingResult,
-        `Line ${i + 1}: Instruction ${destructuredInstruction[0]} was not recognized.\n`,
-      );
-      continue;
+function requestRegisterRender(): void {
+  if (!registerRenderRequested) {
+    registerRenderRequested = true;
+    requestAnimationFrame(renderChangedRegisters);
+  }
+}
+
+function renderChangedRegisters(): void {
+  /**
+   * Draws the registers and CSRs which have changed since they were last drawn.
+   *
+   * A running program can change a register thousands of times between frames,
+   * so the machine's changes are only noted as they happen, and each changed
+   * register is formatted and drawn once, with its latest value, in the next frame.
+   */
+  registerRenderRequested = false;
+  changedRegisters.forEach((register: number) => updateRegisterDisplay(register, machine.registers[register]));
+  changedFloatRegisters.forEach(
+    (register: number) => updateFloatRegisterDisplay(register, machine.floatRegisters[register]),
+  );
+  changedCsrs.forEach((address: number) => {
+    if (address == CSR_FCSR) {
+      updateFcsrDisplay(machine.csrs.get(address)!);
+    } else {
+      updateCsrDisplay(address, machine.csrs.get(address)!);
     }
-    const format: OperandType[] = instructionInfo.instructionFormat;
-
-    // Extract just the operands (everything after the opcode)
-    const operands: string[] = destructuredInstruction.slice(1);
-    // Check if the number of operands matches the expected format
-    if (!(operands.length == format!.length)) {
-      appendParsingError(
-        parsingResult,
-        `Line ${i + 1}: ${operands.length} operands supplied but expected ${format!.length} operands.\n`,
-      );
-      continue;
+  });
+  [changedRegisters, changedFloatRegisters, changedCsrs].forEach((changed: Set<number>) => changed.clear());
+}
+
+function isConditionOperand(operand: string): boolean {
+  // A register name in any case, or an integer literal as the assembler reads it, such as -1, 0x1f or 'a'
+  return STRINGS_TO_REGISTERS.has(operand.toLowerCase()) || parseBigIntegerLiteral(operand) != undefined;
+}
+
+function parseBreakpointCondition(conditionText: string): BreakpointCondition | undefined {
+  /**
+   * Parses a breakpoint condition such as "x5 == 10" or "a0 >= t1".
+   *
+   * Each side of the comparison is a register name or a number, and registers
+   * are compared as signed values.
+   *
+   * @param conditionText - The condition as typed by the user
+   * @returns The parsed condition, or undefined if it is not a valid condition
+   */
+  const conditionMatch: RegExpMatchArray | null = conditionText.match(BREAKPOINT_CONDITION_REGEX);
+  if (
+    conditionMatch == null
+    || !isConditionOperand(conditionMatch[1])
+    || !isConditionOperand(conditionMatch[3])
+  ) {
+    return undefined;
+  }
+  return { left: conditionMatch[1], operator: conditionMatch[2], right: conditionMatch[3] };
+}
+
+function addBreakpoint(locationText: string, conditionText: string): void {
+  /**
+   * Adds a breakpoint from the values typed into the breakpoint panel.
+   *
+   * @param locationText - An address (e.g. "0x10" or "16"), a label (e.g. "main") or a source line (e.g. "line 5")
+   * @param conditionText - An optional condition which must hold for execution to stop
+   */
+  let condition: BreakpointCondition | undefined = undefined;
+  if (conditionText.trim() !== "") {
+    condition = parseBreakpointCondition(conditionText);
+    if (condition == undefined) {
+      raiseError(`Breakpoint condition "${conditionText}" is not valid. Use a comparison such as "x5 == 10".`);
+      return;
     }
+  }
 
-    // Validate each operand based on its expected type
-    for (let j: number = 0; j < format.length; j++) {
-      const expectedOperand: OperandType = format[j];
-      if (expectedOperand == OperandType.REGISTER) {
-        if (operands[j].localeCompare("pc") == 0) {
-          appendParsingError(
-            parsingResult,
-            `Line ${i + 1}: Register 'pc' cannot be addressed by any instruction.\n`,
-          );
-          continue;
-        }
-        // For register operands, check if it's a valid register name
-        if (!Array.from(STRINGS_TO_REGISTERS.keys()).includes(operands[j])) {
-          appendParsingError(
-            parsingResult,
-            `Line ${i + 1}: Operand "${operands[j]}" is not a valid register.\n`,
+  const lineMatch: RegExpMatchArray | null = locationText.match(LINE_LOCATION_REGEX);
+  // A label stands for the address it refers to
+  const address: number = machine.symbols.get(locationText.trim()) ?? Number(locationText.trim());
+  let breakpoint: Breakpoint;
+  if (lineMatch != null && parseInt(lineMatch[1]) > 0) {
+    breakpoint = { kind: BreakpointKind.LINE, location: parseInt(lineMatch[1]), condition: condition };
+  } else if (locationText.trim() !== "" && Number.isInteger(address) && address >= 0 && address % machine.instructionAlignment == 0) {
+    breakpoint = { kind: BreakpointKind.ADDRESS, location: address, condition: condition };
+  } else {
+    raiseError(`Breakpoint location "${locationText}" must be an instruction address (e.g. 0x10), a label (e.g. main) or a line (e.g. line 5).`);
+    return;
+  }
+  clearError();
+  machine.breakpoints = machine.breakpoints.filter(
+    (existing: Breakpoint) => !(existing.kind == breakpoint.kind && existing.location == breakpoint.location),
+  );
+  machine.breakpoints.push(breakpoint);
+  refreshBreakpointDisplays();
+}
+
+function removeBreakpoint(index: number): void {
+  machine.breakpoints.splice(index, 1);
+  refreshBreakpointDisplays();
+}
+
+function toggleLineBreakpoint(lineNumber: number): void {
+  const index: number = machine.breakpoints.findIndex(
+    (breakpoint: Breakpoint) => breakpoint.kind == BreakpointKind.LINE && breakpoint.location == lineNumber,
+  );
+  if (index >= 0) {
+    machine.breakpoints.splice(index, 1);
+  } else {
+    machine.breakpoints.push({ kind: BreakpointKind.LINE, location: lineNumber, condition: undefined });
+  }
+  refreshBreakpointDisplays();
+}
+
+function breakpointAddress(breakpoint: Breakpoint): number | undefined {
+  return machine.breakpointAddress(breakpoint);
+}
+
+function refreshBreakpointDisplays(): void {
+  fillEditorGutter(
+    assemblyEditor?.value.split("\n").length || 1,
+    machine.breakpoints
+      .filter((breakpoint: Breakpoint) => breakpoint.kind == BreakpointKind.LINE)
+      .map((breakpoint: Breakpoint) => breakpoint.location),
+    toggleLineBreakpoint,
+  );
+  fillBreakpointList(machine.breakpoints, breakpointAddress, removeBreakpoint);
+}
+
+function setRunning(isRunning: boolean): void {
+  running = isRunning;
+  if (!isRunning) {
+    clearTimeout(runTimer);
+    // The memory peeker and history aren't redrawn while a program runs, so they catch up however it stops
+    refreshMemoryGrid();
+    refreshHistoryDisplay();
+  }
+  [assembleButton, loadProgramButton, stepButton, stepBackButton, runButton, memorySizeSelect].forEach((control) => {
+    if (control != null) { control.disabled = isRunning; }
+  });
+  if (pauseButton != null) { pauseButton.disabled = !isRunning; }
+}
+
+function runProgram(): void {
+  /**
+   * Executes instructions until the program finishes, an error occurs, a
+   * breakpoint is reached, the user pauses it, or the maximum number of
+   * instructions has been executed.
+   *
+   * Breakpoints stop execution before the instruction at their address runs.
+   * The first instruction is always executed, so that Run can continue from
+   * the breakpoint it last stopped at.
+   *
+   * Instructions are run in short slices which hand control back to the browser
+   * in between, so the page stays responsive while long programs run.
+   */
+  const instructionLimit: number = Number(instructionLimitInput?.value);
+  if (!Number.isInteger(instructionLimit) || instructionLimit <= 0) {
+    raiseError("The maximum number of instructions must be a positive whole number.");
+    return;
+  }
+  let executedInstructions: number = 0;
+
+  const runSlice = (): void => {
+    const sliceEnd: number = performance.now() + RUN_SLICE_DURATION;
+    while (running && performance.now() < sliceEnd) {
+      const budget: number = Math.min(RUN_SLICE_CHECK_INTERVAL, instructionLimit - executedInstructions);
+      const event: StopEvent = machine.run(budget, executedInstructions == 0);
+      if (event.reason == StopReason.INSTRUCTION_LIMIT) {
+        executedInstructions += budget;
+        if (executedInstructions >= instructionLimit) {
+          raiseError(
+            `Execution stopped after ${instructionLimit} instructions, the maximum allowed. ` +
+            "The program may be stuck in an infinite loop; raise the maximum to keep running it.",
           );
-          continue;
+          setRunning(false);
         }
       } else {
-        // For immediate value operands, check if it's a valid number
-        if (Number.isNaN(parseInt(operands[j]))) {
-          appendParsingError(
-            parsingResult,
-            `Line ${i + 1}: Operand "${operands[j]}" is not a number.\n`,
-          );
-          continue;
-        }
-        const operand_j: number = parseInt(operands[j]);
-        if (
-          operand_j < -1 * Math.pow(2, XLEN - 1) ||
-          operand_j > Math.pow(2, XLEN - 1)
-        ) {
-          appendParsingError(
-            parsingResult,
-            `Line ${i + 1}: Immediate value for instruction ${destructuredInstruction[0]} must be between -${Math.pow(2, XLEN - 1)} and ${Math.pow(2, XLEN - 1)} (inclusive).\n`,
-          );
-          continue;
+        if (event.reason == StopReason.BREAKPOINT) {
+          const breakpoint: Breakpoint = machine.breakpointHit(machine.pc)!;
+          raiseError(`Stopped at breakpoint on ${describeBreakpoint(breakpoint, breakpointAddress)}.`);
         }
+        // Carry on running once the input the program is waiting for arrives
+        resumeRunAfterInput = event.reason == StopReason.WAITING_FOR_INPUT;
+        setRunning(false);
       }
     }
-    // Add the processed instruction to the output regardless of validity
-    parsingResult.output.push(destructuredInstruction);
+    if (running) {
+      runTimer = setTimeout(runSlice, 0);
+    }
+  };
+
+  clearError();
+  setRunning(true);
+  runSlice();
+}
+
+function loadProgramFile(bytes: Uint8Array): void {
+  /**
+   * Loads a compiled program chosen with the file picker in place of the
+   * assembled one.
+   *
+   * @param bytes - The contents of the chosen file
+   */
+  const loaderResult: LoaderResult = parseProgramFile(
+    bytes,
+    Number(loadBaseAddressInput?.value.trim() || "0"),
+    machine.extensions,
+  );
+  if (loaderResult.status == ParserStatus.ERR) {
+    machine.unload();
+    raiseError(loaderResult.errMessage);
+  } else {
+    const previousMemorySize: number = machine.memory.length;
+    machine.loadImage(loaderResult.image!);
+    const resized: string = machine.memory.length != previousMemorySize
+      ? `Memory was enlarged to ${machine.memory.length / 1024} KiB to fit the program. `
+      : "";
+    raiseError(resized + loaderResult.warningMessage);
+    showMemorySize();
   }
-  return parsingResult;
+  resumeRunAfterInput = false;
+  // The underlined errors belong to the assembly editor's program, which is no longer loaded
+  editorDiagnostics.innerHTML = "";
+  refreshMemoryGrid();
+  refreshBreakpointDisplays();
+  refreshHistoryDisplay();
 }
 
-function fillInputParams(instructionFormat: OperandType[], destructuredInstruction: string[]): InstructionInput {
-  const inputParams: InstructionInput = { rd: "", rs1: "", rs2: "", imm: 0 };
-  switch (instructionFormat) {
-    case I_TYPE:
-      [inputParams.rd, inputParams.rs1] = destructuredInstruction.slice(1, 3);
-      inputParams.imm = Number(destructuredInstruction[3]);
-      break;
-    case R_TYPE:
-      [inputParams.rd, inputParams.rs1, inputParams.rs2] = destructuredInstruction.slice(1);
-      break;
-    case U_TYPE:
-      inputParams.rd = destructuredInstruction[1];
-      inputParams.imm = Number(destructuredInstruction[2]);
-      break;
-    case PSEUDO_TYPE_A:
-      [inputParams.rd, inputParams.rs1] = destructuredInstruction.slice(1, 3);
-      inputParams.imm = Number(destructuredInstruction[3]);
-      break;
-    case PSEUDO_TYPE_B:
-      inputParams.imm = Number(destructuredInstruction[1]);
-      break;
-    case PSEUDO_TYPE_C:
-      inputParams.rs1 = destructuredInstruction[1];
-      inputParams.imm = Number(destructuredInstruction[2]);
-      break;
-    case J_TYPE:
-      inputParams.rd = destructuredInstruction[1];
-      inputParams.imm = Number(destructuredInstruction[2]);
-      break;
-    case B_TYPE:
-      [inputParams.rs1, inputParams.rs2] = destructuredInstruction.slice(1, 3);
-      inputParams.imm = Number(destructuredInstruction[3]);
-      break;
-    default:
-      console.log("Got an invalid instruction type.");
-      break;
+function showMemorySize(): void {
+  // A loaded program can enlarge memory beyond the sizes the menu offers
+  if (memorySizeSelect == null) {
+    return;
+  }
+  const size: string = `${machine.memory.length}`;
+  if (memorySizeSelect.querySelector(`option[value="${size}"]`) == null) {
+    const option = document.createElement("option");
+    option.value = size;
+    option.textContent = `${machine.memory.length / 1024} KiB`;
+    memorySizeSelect.appendChild(option);
   }
-  return inputParams;
+  memorySizeSelect.value = size;
 }
 
-function executeInstruction(destructuredInstruction: string[], decode: boolean = false): string {
-  const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get(destructuredInstruction[0])!;
-  const instructionFormat: OperandType[] = instructionInfo.instructionFormat;
-  const inputParams: InstructionInput = fillInputParams(instructionFormat, destructuredInstruction);
-  if (decode) {
-    return instructionInfo.decodeFunction(inputParams);
-  } else {
-    instructionInfo.executionFunction(inputParams);
-    return "";
+function downloadProgram(format: ExportFormat): void {
+  /**
+   * Downloads the machine code of the assembled or loaded program in one of
+   * the export formats. The program is exported as it was before it started,
+   * so stores it has made since then aren't included.
+   *
+   * @param format - The format to write the file in
+   */
+  if (machine.segments.length == 0) {
+    raiseError("Assemble or load a program before exporting it.");
+    return;
+  }
+  clearError();
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(new Blob([exportProgram(machine.segments, format)]));
+  link.download = EXPORT_FILE_NAMES.get(format)!;
+  link.click();
+  // The download reads the file after the click returns, so it is only released once that has started
+  setTimeout(() => URL.revokeObjectURL(link.href));
+}
+
+function provideInput(line: string): void {
+  /**
+   * Passes a line typed into the console to the program, resuming it if it
+   * stopped to wait for input.
+   *
+   * @param line - The line typed by the user
+   */
+  const wasWaiting: boolean = machine.waitingForInput;
+  machine.provideInput(line);
+  if (!wasWaiting || running) { return; }
+  clearError();
+  if (resumeRunAfterInput) {
+    resumeRunAfterInput = false;
+    runProgram();
+  } else if (machine.step()) {
+    refreshMemoryGrid();
+    refreshHistoryDisplay();
   }
 }
 
 /*** Program Starting Point ***/
-let instructionsList: string[][] = [];
-let currentLineNumber: number = 0;
+const machine: Machine = new Machine();
+let running: boolean = false;
+let runTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+let resumeRunAfterInput: boolean = false; // whether Run stopped to wait for console input
+// Registers, f registers and CSRs which have changed since they were last drawn
+const changedRegisters: Set<number> = new Set();
+const changedFloatRegisters: Set<number> = new Set();
+const changedCsrs: Set<number> = new Set();
+let registerRenderRequested: boolean = false;
+
+// Keep the page in step with the machine
+machine.subscribe({
+  registerChanged: (register: number) => {
+    changedRegisters.add(register);
+    requestRegisterRender();
+  },
+  floatRegisterChanged: (register: number) => {
+    changedFloatRegisters.add(register);
+    requestRegisterRender();
+  },
+  csrChanged: (address: number) => {
+    changedCsrs.add(address);
+    requestRegisterRender();
+  },
+  consoleChanged: fillConsoleOutput,
+  // Run reports the breakpoints and instruction limits it stops at itself, as it runs the program in slices
+  stopped: (event: StopEvent) => {
+    if (event.reason != StopReason.BREAKPOINT && event.reason != StopReason.INSTRUCTION_LIMIT) {
+      raiseError(event.message);
+    }
+  },
+});
 
 // Initialize registers with default values in binary
-updateRegisterDisplays();
+updateRegisterDisplays(machine.registers);
+updateFloatRegisterDisplays(machine.floatRegisters);
+updateFcsrDisplay(machine.getCsr(CSR_FCSR));
+updateCsrDisplays(machine.csrs);
+refreshMemoryGrid();
+refreshBreakpointDisplays();
 
 // adding event listeners which can change the representation
 binaryCheck.addEventListener("click", () => {
   setRegisterBase(Base.BINARY);
-  updateRegisterDisplays();
+  updateRegisterDisplays(machine.registers);
 });
 octalCheck.addEventListener("click", () => {
   setRegisterBase(Base.OCTAL);
-  updateRegisterDisplays();
+  updateRegisterDisplays(machine.registers);
 });
 decimalCheck.addEventListener("click", () => {
   setRegisterBase(Base.DECIMAL);
-  updateRegisterDisplays();
+  updateRegisterDisplays(machine.registers);
 });
 hexadecimalCheck.addEventListener("click", () => {
   setRegisterBase(Base.HEXADECIMAL);
-  updateRegisterDisplays();
+  updateRegisterDisplays(machine.registers);
 });
 
 // Add click event listener to the assemble button
 assembleButton?.addEventListener("click", () => {
-  for (let i = 0; i < instructionsList.length; i++) { memory.set(i, "0".repeat(XLEN)); }
-  fillMemoryGrid(memory);
-
   // Split the assembly editor's content into an array of instructions
   const inputInstructions: string[] = assemblyEditor?.value.split("\n") || [];
 
   // Call the assembleInput function to validate the instructions
   // and store the result in status (true = valid, false = invalid)
-  const parsingResult: ParserResult = parseInput(inputInstructions);
+  const parsingResult: ParserResult = parseInput(
+    inputInstructions,
+    machine.memory.length,
+    immediateWarningsCheck?.checked ?? false,
+    machine.extensions,
+  );
+  fillEditorDiagnostics(inputInstructions, parsingResult.diagnostics);
 
   // If the assembly is invalid, log which line caused the error
   if (parsingResult.status == ParserStatus.ERR) {
+    machine.unload();
     raiseError(parsingResult.errMessage);
   } else {
-    clearError();
-    setRegister("pc", zeroExtend("0"));
-    instructionsList = parsingResult.output;
-    currentLineNumber = 0;
+    // Warnings don't stop the program from running, but are still worth reading
+    raiseError(parsingResult.warningMessage);
+    machine.load(parsingResult);
   }
+  resumeRunAfterInput = false;
+  refreshMemoryGrid();
+  refreshBreakpointDisplays();
+  refreshHistoryDisplay();
+});
 
-  for (let i = 0; i < instructionsList.length; i++) {
-    memory.set(i, executeInstruction(instructionsList[i], true));
+loadProgramButton?.addEventListener("click", () => {
+  const file: File | undefined = programFileInput?.files?.[0];
+  if (file == undefined) {
+    raiseError("Choose an ELF executable or flat binary to load first.");
+    return;
   }
-  fillMemoryGrid(memory);
+  // A file which can't be read, such as one deleted since it was chosen, is reported like a file which can't be loaded
+  file.arrayBuffer().then(
+    (buffer: ArrayBuffer) => loadProgramFile(new Uint8Array(buffer)),
+    (error: Error) => raiseError(`${file.name} couldn't be read: ${error.message}`),
+  );
 });
 
 stepButton?.addEventListener("click", () => {
-  if (instructionsList.length == 0) {
-    raiseError("Instructions must be assembled before execution.");
+  if (machine.step()) {
+    // Stores may have changed memory
+    refreshMemoryGrid();
+    refreshHistoryDisplay();
+  }
+});
+
+exportButton?.addEventListener("click", () => {
+  downloadProgram((exportFormatSelect?.value ?? ExportFormat.INTEL_HEX) as ExportFormat);
+});
+
+consoleInput?.addEventListener("keydown", (event: KeyboardEvent) => {
+  if (event.key != "Enter") { return; }
+  provideInput(consoleInput.value);
+  consoleInput.value = "";
+});
+
+stepBackButton?.addEventListener("click", () => {
+  stepBack();
+});
+
+runButton?.addEventListener("click", () => {
+  runProgram();
+});
+
+pauseButton?.addEventListener("click", () => {
+  setRunning(false);
+  raiseError(`Paused at address ${formatAddress(machine.pc)}.`);
+});
+
+interruptButton?.addEventListener("click", () => {
+  // A running program takes the interrupt between instructions; a stopped one when it is next stepped
+  machine.raiseExternalInterrupt();
+});
+
+addBreakpointButton?.addEventListener("click", () => {
+  addBreakpoint(breakpointLocationInput?.value || "", breakpointConditionInput?.value || "");
+});
+
+clearBreakpointsButton?.addEventListener("click", () => {
+  machine.breakpoints = [];
+  refreshBreakpointDisplays();
+});
+
+assemblyEditor?.addEventListener("input", () => {
+  refreshBreakpointDisplays();
+  // The underlined errors no longer line up with the edited program
+  editorDiagnostics.innerHTML = "";
+});
+
+// The cursor moves by clicking or with the keyboard
+assemblyEditor?.addEventListener("click", () => {
+  selectEditorLine();
+});
+
+assemblyEditor?.addEventListener("keyup", () => {
+  selectEditorLine();
+});
+
+assemblyEditor?.addEventListener("scroll", () => {
+  editorGutter.scrollTop = assemblyEditor.scrollTop;
+  editorDiagnostics.scrollTop = assemblyEditor.scrollTop;
+  editorDiagnostics.scrollLeft = assemblyEditor.scrollLeft;
+});
+
+memorySizeSelect?.addEventListener("change", () => {
+  if (!machine.setMemorySize(Number(memorySizeSelect.value))) {
+    raiseError(`Memory size ${memorySizeSelect.value} is not valid.`);
+    return;
+  }
+  // The old program no longer exists in the new memory
+  refreshMemoryGrid();
+  refreshHistoryDisplay();
+  raiseError("Memory was resized, so the program must be assembled again.");
+});
+
+mExtensionCheck?.addEventListener("change", () => {
+  // A program which was already assembled stops at the first instruction it can no longer use
+  if (mExtensionCheck.checked) {
+    machine.extensions.add(Extension.M);
   } else {
-    if (instructionsList[currentLineNumber]) {
-      executeInstruction(instructionsList[currentLineNumber]);
-      // TODO: alter for all branch instructions too
-      if (!["JAL", "JALR"].includes(instructionsList[currentLineNumber][0])) {
-        setRegister("pc", binaryAdd(registers.get(STRINGS_TO_REGISTERS.get("pc")!)!, "100", zeroExtend));
-      }
-      currentLineNumber = parseInt(
-        registers.get(STRINGS_TO_REGISTERS.get("pc")!)!,
-        Base.BINARY,
-      ) / 4;
-    } else {
-      raiseError("Program has finished executing.");
-    }
+    machine.extensions.delete(Extension.M);
   }
 });
 
-resetRegistersButton?.addEventListener("click", () => {
-  // reset all registers to 0
-  for (let i: number = 0; i < XLEN + 1; i++) {
-    registers.set(i, zeroExtend("0"));
+fExtensionCheck?.addEventListener("change", () => {
+  if (fExtensionCheck.checked) {
+    machine.extensions.add(Extension.F);
+  } else {
+    machine.extensions.delete(Extension.F);
   }
-  updateRegisterDisplays();
+});
+
+cExtensionCheck?.addEventListener("change", () => {
+  // Programs are only compressed as they are assembled, so one which is already loaded keeps its layout
+  if (cExtensionCheck.checked) {
+    machine.extensions.add(Extension.C);
+  } else {
+    machine.extensions.delete(Extension.C);
+  }
+});
+
+rv64Check?.addEventListener("change", () => {
+  // Switching the register width resets the machine, whose registers redraw at their new width
+  const xlen: number = rv64Check.checked ? 64 : 32;
+  setWideRegisters(xlen == 64);
+  machine.setXlen(xlen);
+  refreshMemoryGrid();
+  refreshHistoryDisplay();
+  raiseError(`Registers are now ${xlen} bits wide, so the program must be assembled again.`);
+});
+
+abiNamesCheck?.addEventListener("change", () => {
+  refreshMemoryGrid();
+  // The pasted instructions are redrawn with the new names too
+  if (disassemblerInput?.value.trim()) {
+    disassembleInput();
+  }
+});
+
+disassembleButton?.addEventListener("click", () => {
+  disassembleInput();
+});
+
+resetRegistersButton?.addEventListener("click", () => {
+  // reset all registers to 0, which also clears the history
+  machine.resetRegisters();
+  refreshHistoryDisplay();
 });
@@ -0,0 +1,804 @@
+/*
+The purpose of this file is to run the test programs in tests.txt against the
+simulator core from Node, and report which of them pass. Run it with `npm test`.
+
+Each test is a block of instructions beneath a "# Test ..." comment, and blocks
+are grouped into sections by headers such as "/*** ADDI ***\/". An instruction
+can carry assertions which are checked just after it executes (all of it, for
+a pseudo-instruction which expands to several instructions), e.g.
+  ADDI x1, x0, 5      # expected: x1 = 5
+  SW x1, x2, 0        # expected: mem[0x200] = 5, pc = 8
+Registers are named as in the assembler (or pc), mem[address] is the word at a
+byte address, and values may be written in decimal or hexadecimal. CSRs can be
+checked by name too, e.g. mcause = 2. An f register is compared by its
+single-precision value, e.g. f1 = 1.5 or f2 = -inf, unless the expected value is
+written in hexadecimal, in which case its bits are compared. The tests in a
+section whose name starts with "RV64" are assembled and run with 64-bit
+registers, and the rest with 32-bit registers. Those in a section whose name
+includes "C Extension" are assembled with compressed instructions, so the
+assembler compresses every instruction it can. One program too long for the
+test files' memory checks that a branch which only reaches its target once the
+program is compressed assembles, and programs whose .space or .align directives
+run past memory have to be rejected.
+
+After the test files, every instruction is assembled, disassembled and
+assembled again, which has to give back the same machine code. Its machine code
+is also split into the fields of its format, which have to cover every bit.
+The loader is checked with ELF executables built here, both ones which should
+load and run and broken ones which should be rejected, and each export format is
+compared with a file written out by hand.
+*/
+import { readFileSync } from "fs";
+import { encodeInstruction, parseInput, programSegments } from "./assembler.js";
+import { disassemble } from "./disassembler.js";
+import { ExportFormat, exportProgram } from "./exporter.js";
+import { bitsToSingle } from "./floating-point.js";
+import { InstructionEncoding, InstructionField, splitInstruction } from "./instruction-fields.js";
+import { parseBigIntegerLiteral, parseFloatLiteral } from "./lexer.js";
+import { parseElf, parseFlatBinary, parseProgramFile } from "./loader.js";
+import { Machine, StopEvent, StopReason } from "./machine.js";
+import {
+  DEFAULT_EXTENSIONS,
+  DEFAULT_MEMORY_SIZE,
+  Extension,
+  FLEN,
+  INSTRUCTION_TO_INFO,
+  ImmediateField,
+  InstructionDecodeInfo,
+  InstructionInfo,
+  LoaderResult,
+  MemorySegment,
+  OperandType,
+  ParserResult,
+  ParserStatus,
+  STRINGS_TO_CSRS,
+  STRINGS_TO_FLOAT_REGISTERS,
+  STRINGS_TO_REGISTERS,
+  XLEN,
+  immediateFieldOf,
+  setXlen,
+} from "./utils.js";
+
+/*** Constants and Types ***/
+const SECTION_HEADER_REGEX: RegExp = /^\/\*+\s*(.+?)\s*\*+\/$/;
+const TEST_HEADER_REGEX: RegExp = /^#\s*(.+)$/;
+const EXPECTED_REGEX: RegExp = /expected:\s*(.+)$/;
+const ASSERTION_REGEX: RegExp = /^(mem\[\s*(\S+?)\s*\]|[A-Za-z][A-Za-z0-9]*)\s*=\s*(\S+)$/;
+const MEMORY_ASSERTION_BYTES: number = 4;
+// CSRs are 32 bits wide whatever the width of the integer registers
+const CSR_ASSERTION_BITS: number = 32;
+// Sections of tests which run with 64-bit registers start with this
+const RV64_SECTION_PREFIX: string = "RV64";
+// and sections of tests which use compressed instructions include this
+const C_EXTENSION_SECTION_NAME: string = "C Extension";
+// A test which runs longer than this is assumed to be stuck in a loop
+const MAX_TEST_INSTRUCTIONS: number = 100000;
+// Whether each check after the test files passed, for the summary at the end
+const checkResults: boolean[] = [];
+
+// The round trip assembles each instruction twice, with operands from both ends of their ranges
+const ROUND_TRIP_REGISTERS: string[][] = [["x5", "x6", "x7", "x28"], ["x31", "x0", "x17", "x8"]];
+const ROUND_TRIP_FLOAT_REGISTERS: string[][] = [["f1", "f2", "f3", "f4"], ["f31", "f0", "f17", "f8"]];
+const ROUND_TRIP_CSRS: string[] = ["mscratch", "fcsr"];
+const ROUND_TRIP_ROUNDING_MODES: string[][] = [[], ["rtz"]];
+// Base instructions are assembled without the C extension, so that they aren't compressed
+const ROUND_TRIP_EXTENSIONS: Set<Extension> = new Set([Extension.M, Extension.F]);
+const COMPRESSED_ROUND_TRIP_EXTENSIONS: Set<Extension> = new Set([Extension.M, Extension.F, Extension.C]);
+
+// A branch over enough compressible instructions to be out of range until they are compressed, which
+// takes more memory than the tests in tests.txt have
+const LAYOUT_TEST_PROGRAM: string[] = ["beq a0, a1, end", ...Array(1100).fill("addi a0, a0, 1"), "end:", "ecall"];
+const LAYOUT_TEST_MEMORY_SIZE: number = 0x4000;
+// Data directives which would fill far more than memory, and part of the error each one should give
+const OVERSIZED_DATA_PROGRAMS: [string[], string][] = [
+  [[".data", ".align 30", ".word 1"], "at most 2 to the power of 12"],
+  [[".data", ".align 12", ".word 1"], "runs past the end"],
+  [[".data", ".space 1000000000"], "runs past the end"],
+  [[".data", ".word 1", ".space 509"], "runs past the end"],
+];
+
+// The loader tests link this program where riscv32-unknown-elf-gcc links by default. It exits with the sum
+// of a word in its .data, which holds 42, and the word after it, which is .bss and so should be zero
+const LOADER_TEST_PROGRAM: string[] = [
+  "lui t0, 0x11", "lw a0, 0(t0)", "lw a1, 4(t0)", "add a0, a0, a1", "li a7, 93", "ecall",
+];
+const LOADER_TEST_TEXT_ADDRESS: number = 0x10000;
+const LOADER_TEST_DATA_ADDRESS: number = 0x11000;
+const LOADER_TEST_EXIT_CODE: number = 42;
+// A flat binary has no .data to read, so it only exits with a code of its own
+const FLAT_BINARY_TEST_PROGRAM: string[] = ["li a0, 7", "li a7, 93", "ecall"];
+const FLAT_BINARY_TEST_EXIT_CODE: number = 7;
+// Program header flags, and the ELF header fields the tests break on purpose
+const PF_X: number = 0x1;
+const PF_W: number = 0x2;
+const PF_R: number = 0x4;
+const EF_RISCV_RVC: number = 0x1;
+const EI_CLASS: number = 4;
+const E_MACHINE: number = 18;
+const E_FLAGS: number = 36;
+
+interface ElfTestSegment {
+  address: number;
+  bytes: Uint8Array; // the part of the segment stored in the file
+  memorySize: number; // the size of the segment in memory, which is larger when it includes .bss
+  flags: number;
+}
+
+interface Assertion {
+  location: string; // a register name, or mem[address]
+  address: number | undefined; // the byte address, for memory assertions
+  expected: number | bigint; // a number for an f register compared by value, and a bigint otherwise
+  floatValue: boolean; // whether an f register is compared by value rather than by its bits
+}
+
+interface TestCase {
+  section: string;
+  name: string;
+  fileLineNumber: number; // line of tests.txt holding the test's first instruction
+  instructions: string[];
+  assertions: Map<number, Assertion[]>; // line of the test program -> assertions checked after it runs
+}
+
+/*** Functions ***/
+function parseNumber(text: string): number {
+  return text.startsWith("-") ? -Number(text.slice(1)) : Number(text);
+}
+
+function parseAssertions(comment: string): Assertion[] | string {
+  /**
+   * Reads the assertions following "expected:" in an instruction's comment.
+   *
+   * @param comment - The text after "expected:"
+   * @returns The assertions, or a message describing the first malformed one
+   */
+  const assertions: Assertion[] = [];
+  for (const assertionText of comment.split(",").map((text: string) => text.trim())) {
+    const assertionMatch: RegExpMatchArray | null = assertionText.match(ASSERTION_REGEX);
+    if (assertionMatch == null) {
+      return `Assertion "${assertionText}" should look like "x1 = 5" or "mem[0x200] = 5".`;
+    }
+    const location: string = assertionMatch[1];
+    const address: number | undefined = assertionMatch[2] != undefined ? parseNumber(assertionMatch[2]) : undefined;
+    const floatValue: boolean = STRINGS_TO_FLOAT_REGISTERS.has(location) && !/^-?0x/i.test(assertionMatch[3]);
+    // Integers are read exactly, as 64-bit values can be too large for a number to hold
+    const expected: number | bigint | undefined = floatValue
+      ? parseFloatLiteral(assertionMatch[3])
+      : parseBigIntegerLiteral(assertionMatch[3]);
+    if (address != undefined && (!Number.isInteger(address) || address < 0)) {
+      return `Assertion "${assertionText}" does not name a valid address.`;
+    } else if (address == undefined && location !== "pc"
+      && ![STRINGS_TO_REGISTERS, STRINGS_TO_FLOAT_REGISTERS, STRINGS_TO_CSRS].some((names) => names.has(location))) {
+      return `Assertion "${assertionText}" does not name a register.`;
+    } else if (expected == undefined) {
+      return floatValue || parseFloatLiteral(assertionMatch[3]) == undefined
+        ? `Assertion "${assertionText}" does not expect a number.`
+        : `Assertion "${assertionText}" does not expect a whole number.`;
+    }
+    assertions.push({ location: location, address: address, expected: expected, floatValue: floatValue });
+  }
+  return assertions;
+}
+
+function parseTestFile(text: string): { tests: TestCase[]; errors: string[] } {
+  /**
+   * Splits the text of a test file into its test cases.
+   *
+   * @param text - The contents of the test file
+   * @returns The test cases, and a message for each line which couldn't be read
+   */
+  const tests: TestCase[] = [];
+  const errors: string[] = [];
+  let section: string = "";
+  let currentTest: TestCase | undefined = undefined;
+  text.split("\n").forEach((rawLine: string, i: number) => {
+    const line: string = rawLine.trim();
+    const sectionMatch: RegExpMatchArray | null = line.match(SECTION_HEADER_REGEX);
+    const testMatch: RegExpMatchArray | null = line.match(TEST_HEADER_REGEX);
+    if (line === "") {
+      currentTest = undefined;
+    } else if (sectionMatch != null) {
+      section = sectionMatch[1];
+      currentTest = undefined;
+    } else if (testMatch != null) {
+      currentTest = {
+        section: section,
+        name: testMatch[1],
+        fileLineNumber: i + 2,
+        instructions: [],
+        assertions: new Map(),
+      };
+      tests.push(currentTest);
+    } else if (currentTest == undefined) {
+      errors.push(`Line ${i + 1}: Instruction is not part of a test; start the test with a "# Test ..." comment.`);
+    } else {
+      currentTest.instructions.push(line);
+      const expectedMatch: RegExpMatchArray | null = line.match(EXPECTED_REGEX);
+      if (expectedMatch == null) { return; }
+      const assertions: Assertion[] | string = parseAssertions(expectedMatch[1]);
+      if (typeof assertions === "string") {
+        errors.push(`Line ${i + 1}: ${assertions}`);
+      } else {
+        currentTest.assertions.set(currentTest.instructions.length, assertions);
+      }
+    }
+  });
+  return { tests: tests, errors: errors };
+}
+
+function actualValue(machine: Machine, assertion: Assertion): { value: bigint; bits: number } {
+  // The unsigned value of a register or memory word, and how many bits wide it is
+  if (assertion.address != undefined) {
+    return { value: machine.loadFromMemory(assertion.address, MEMORY_ASSERTION_BYTES), bits: MEMORY_ASSERTION_BYTES * 8 };
+  } else if (STRINGS_TO_CSRS.has(assertion.location)) {
+    return { value: BigInt(machine.getCsr(STRINGS_TO_CSRS.get(assertion.location)!)), bits: CSR_ASSERTION_BITS };
+  } else if (STRINGS_TO_REGISTERS.has(assertion.location)) {
+    return { value: BigInt.asUintN(XLEN, machine.getRegister(assertion.location)), bits: XLEN };
+  }
+  return { value: BigInt(machine.getFloatRegister(assertion.location)), bits: FLEN };
+}
+
+function checkAssertion(machine: Machine, assertion: Assertion): string | undefined {
+  /**
+   * Compares a register or memory word with the value a test expects. Values
+   * are compared as bit patterns as wide as the register or word, so -1 and
+   * 0xffffffff are the same 32-bit value, except that an f register may be
+   * compared as a single-precision number.
+   *
+   * @returns A message describing the mismatch, or undefined if the assertion holds
+   */
+  let actual: bigint;
+  let bits: number;
+  try {
+    ({ value: actual, bits: bits } = actualValue(machine, assertion));
+  } catch (error) {
+    return (error as Error).message;
+  }
+  if (assertion.floatValue) {
+    const actualFloat: number = bitsToSingle(Number(actual));
+    // Every NaN matches an expected nan, and 0 and -0 are told apart
+    return Object.is(actualFloat, Math.fround(assertion.expected as number)) ? undefined
+      : `expected ${assertion.location} = ${assertion.expected} but it was ${actualFloat}`;
+  } else if (actual === BigInt.asUintN(bits, assertion.expected as bigint)) {
+    return undefined;
+  }
+  const actualSigned: bigint = BigInt.asIntN(bits, actual);
+  return `expected ${assertion.location} = ${assertion.expected} but it was ${actualSigned}`;
+}
+
+function runTest(test: TestCase): string[] {
+  /**
+   * Assembles and executes a test on a fresh machine, checking the assertions
+   * of each instruction just after it executes.
+   *
+   * @param test - The test to run
+   * @returns A message for each failure, so an empty list means the test passed
+   */
+  setXlen(test.section.startsWith(RV64_SECTION_PREFIX) ? 64 : 32);
+  const extensions: Set<Extension> = new Set(DEFAULT_EXTENSIONS);
+  if (test.section.includes(C_EXTENSION_SECTION_NAME)) {
+    extensions.add(Extension.C);
+  }
+  const program: ParserResult = parseInput(test.instructions, DEFAULT_MEMORY_SIZE, false, extensions);
+  if (program.status == ParserStatus.ERR) {
+    return program.errMessage.trim().split("\n");
+  }
+  const machine: Machine = new Machine();
+  machine.extensions = extensions;
+  let lastStop: StopEvent | undefined = undefined;
+  machine.subscribe({ stopped: (event: StopEvent) => { lastStop = event; } });
+  machine.load(program);
+
+  const failures: string[] = [];
+  const checkedLines: Set<number> = new Set();
+  let finalStop: StopEvent | undefined = undefined;
+  for (let executed: number = 0; executed < MAX_TEST_INSTRUCTIONS && finalStop == undefined; executed++) {
+    const address: number = machine.pc;
+    lastStop = undefined;
+    const stepped: boolean = machine.step();
+    const stop = lastStop as StopEvent | undefined; // set by the observer during step()
+    // Exiting and EBREAK stop execution just after their instruction has run, and a test carries on past EBREAK
+    const ran: boolean = stepped || [StopReason.EXITED, StopReason.EBREAK].includes(stop!.reason);
+    if (!stepped && stop!.reason != StopReason.EBREAK) {
+      finalStop = stop;
+    }
+    if (!ran) { break; }
+
+    const index: number = program.addresses.indexOf(address);
+    const lineNumber: number = program.lineNumbers[index];
+    // A pseudo-instruction's assertions are checked once the last instruction it expanded to has run
+    if (program.lineNumbers[index + 1] == lineNumber) { continue; }
+    checkedLines.add(lineNumber);
+    (test.assertions.get(lineNumber) || []).forEach((assertion: Assertion) => {
+      const failure: string | undefined = checkAssertion(machine, assertion);
+      if (failure != undefined) {
+        failures.push(`Line ${test.fileLineNumber + lineNumber - 1}: ${failure}`);
+      }
+    });
+  }
+
+  if (finalStop == undefined) {
+    failures.push(`The test did not finish within ${MAX_TEST_INSTRUCTIONS} instructions.`);
+  } else if (finalStop.reason != StopReason.FINISHED && finalStop.reason != StopReason.EXITED) {
+    failures.push(finalStop.message);
+  }
+  test.assertions.forEach((assertions: Assertion[], lineNumber: number) => {
+    if (!checkedLines.has(lineNumber)) {
+      failures.push(`Line ${test.fileLineNumber + lineNumber - 1}: the instruction never executed, so its assertions weren't checked`);
+    }
+  });
+  return failures;
+}
+
+function runTestFile(path: string): boolean {
+  /**
+   * Runs every test in a test file, printing a line for each test and a summary.
+   *
+   * @param path - The path of the test file
+   * @returns true if every test passed, false otherwise
+   */
+  const { tests, errors } = parseTestFile(readFileSync(path, "utf8"));
+  errors.forEach((error: string) => console.log(`ERROR ${path}: ${error}`));
+  let failedCount: number = 0;
+  tests.forEach((test: TestCase) => {
+    const failures: string[] = runTest(test);
+    const title: string = test.section === "" ? test.name : `${test.section}: ${test.name}`;
+    if (failures.length == 0) {
+      console.log(`PASS ${title}`);
+    } else {
+      failedCount++;
+      console.log(`FAIL ${title}`);
+      failures.forEach((failure: string) => console.log(`       ${failure}`));
+    }
+  });
+  console.log(`\n${tests.length - failedCount} passed, ${failedCount} failed, ${tests.length} total`);
+  return failedCount == 0 && errors.length == 0;
+}
+
+function reportCheck(title: string, failures: string[]): boolean {
+  // Prints whether one of the checks run after the test files passed, and counts it towards the summary
+  console.log(`${failures.length == 0 ? "PASS" : "FAIL"} ${title}`);
+  failures.forEach((failure: string) => console.log(`       ${failure}`));
+  checkResults.push(failures.length == 0);
+  return failures.length == 0;
+}
+
+function elfFile(segments: ElfTestSegment[], entry: number, symbols: Map<string, number> = new Map()): Uint8Array {
+  /**
+   * Builds a 32-bit little-endian RISC-V ELF executable, laid out as a linker
+   * would lay it out: the ELF header, the program headers, the contents of the
+   * segments, then a string table, a symbol table and the section headers.
+   *
+   * @param segments - The loadable segments
+   * @param entry - The address execution starts at
+   * @param symbols - The symbols to define, as name -> address
+   * @returns The bytes of the file
+   */
+  const names: string[] = Array.from(symbols.keys());
+  const stringTable: number[] = [0, ...names.flatMap(
+    (name: string) => [...Array.from(name, (c: string) => c.charCodeAt(0)), 0],
+  )];
+  let offset: number = 52 + segments.length * 32;
+  const segmentOffsets: number[] = segments.map((segment: ElfTestSegment) => {
+    offset += segment.bytes.length;
+    return offset - segment.bytes.length;
+  });
+  const stringsOffset: number = offset;
+  const symbolsOffset: number = Math.ceil((stringsOffset + stringTable.length) / 4) * 4;
+  const sectionsOffset: number = symbolsOffset + (names.length + 1) * 16;
+  const file: Uint8Array = new Uint8Array(sectionsOffset + 3 * 40);
+  const view: DataView = new DataView(file.buffer);
+
+  // ELFCLASS32, ELFDATA2LSB and version 1, then an ET_EXEC for EM_RISCV
+  file.set([0x7f, 0x45, 0x4c, 0x46, 1, 1, 1]);
+  view.setUint16(16, 2, true);
+  view.setUint16(E_MACHINE, 243, true);
+  view.setUint32(20, 1, true);
+  view.setUint32(24, entry, true);
+  view.setUint32(28, 52, true);
+  view.setUint32(32, sectionsOffset, true);
+  view.setUint16(40, 52, true);
+  view.setUint16(42, 32, true);
+  view.setUint16(44, segments.length, true);
+  view.setUint16(46, 40, true);
+  view.setUint16(48, 3, true);
+  segments.forEach((segment: ElfTestSegment, i: number) => {
+    const header: number = 52 + i * 32;
+    view.setUint32(header, 1, true); // PT_LOAD
+    view.setUint32(header + 4, segmentOffsets[i], true);
+    view.setUint32(header + 8, segment.address, true);
+    view.setUint32(header + 12, segment.address, true);
+    view.setUint32(header + 16, segment.bytes.length, true);
+    view.setUint32(header + 20, segment.memorySize, true);
+    view.setUint32(header + 24, segment.flags, true);
+    file.set(segment.bytes, segmentOffsets[i]);
+  });
+
+  // Section 1 is the symbol table, whose names are in section 2, the string table; symbol 0 is always empty
+  file.set(stringTable, stringsOffset);
+  let nameOffset: number = 1;
+  names.forEach((name: string, i: number) => {
+    const symbol: number = symbolsOffset + (i + 1) * 16;
+    view.setUint32(symbol, nameOffset, true);
+    view.setUint32(symbol + 4, symbols.get(name)!, true);
+    file[symbol + 12] = 0x12; // a global function
+    view.setUint16(symbol + 14, 1, true);
+    nameOffset += name.length + 1;
+  });
+  const symbolTableHeader: number = sectionsOffset + 40;
+  view.setUint32(symbolTableHeader + 4, 2, true); // SHT_SYMTAB
+  view.setUint32(symbolTableHeader + 16, symbolsOffset, true);
+  view.setUint32(symbolTableHeader + 20, (names.length + 1) * 16, true);
+  view.setUint32(symbolTableHeader + 24, 2, true);
+  const stringTableHeader: number = sectionsOffset + 80;
+  view.setUint32(stringTableHeader + 4, 3, true); // SHT_STRTAB
+  view.setUint32(stringTableHeader + 16, stringsOffset, true);
+  view.setUint32(stringTableHeader + 20, stringTable.length, true);
+  return file;
+}
+
+function machineCode(lines: string[]): Uint8Array {
+  const program: ParserResult = parseInput(lines);
+  return programSegments(program)[0].bytes;
+}
+
+function loaderTestElf(): Uint8Array {
+  // The program's code, and its data followed by a word of .bss
+  const code: Uint8Array = machineCode(LOADER_TEST_PROGRAM);
+  const data: Uint8Array = new Uint8Array([LOADER_TEST_EXIT_CODE, 0, 0, 0]);
+  return elfFile([
+    { address: LOADER_TEST_TEXT_ADDRESS, bytes: code, memorySize: code.length, flags: PF_R | PF_X },
+    { address: LOADER_TEST_DATA_ADDRESS, bytes: data, memorySize: 8, flags: PF_R | PF_W },
+  ], LOADER_TEST_TEXT_ADDRESS, new Map([["_start", LOADER_TEST_TEXT_ADDRESS]]));
+}
+
+function withByte(bytes: Uint8Array, offset: number, value: number): Uint8Array {
+  const changed: Uint8Array = bytes.slice();
+  changed[offset] = value;
+  return changed;
+}
+
+function loadedProgramFailures(result: LoaderResult, entry: number, exitCode: number): string[] {
+  /**
+   * Loads a program read by the loader into a fresh machine and runs it.
+   *
+   * @param result - What the loader read
+   * @param entry - The address the program should start at
+   * @param exitCode - The code the program should exit with
+   * @returns A message for each way the program didn't load or run as it should
+   */
+  if (result.status == ParserStatus.ERR) {
+    return [`the program wasn't loaded: ${result.errMessage}`];
+  }
+  const failures: string[] = [];
+  const machine: Machine = new Machine();
+  machine.loadImage(result.image!);
+  if (machine.pc != entry) {
+    failures.push(`the pc starts at 0x${machine.pc.toString(16)} instead of 0x${entry.toString(16)}`);
+  }
+  if (machine.getRegister("sp") != BigInt(machine.memory.length)) {
+    failures.push(`sp is ${machine.getRegister("sp")} instead of the top of memory, ${machine.memory.length}`);
+  }
+  const event: StopEvent = machine.run(MAX_TEST_INSTRUCTIONS);
+  if (machine.exitCode !== exitCode) {
+    failures.push(`the program stopped with "${event.message}" instead of exiting with code ${exitCode}`);
+  }
+  return failures;
+}
+
+function runLayoutTest(): void {
+  // Assembling with compressed instructions has to settle the layout before it reports a branch out of range
+  const program: ParserResult = parseInput(LAYOUT_TEST_PROGRAM, LAYOUT_TEST_MEMORY_SIZE, false, new Set([Extension.C]));
+  const failures: string[] = program.status == ParserStatus.ERR ? [program.errMessage.trim()] : [];
+  // The branch takes 4 bytes and each ADDI 2, as C.ADDI
+  const endAddress: number | undefined = program.addresses[program.addresses.length - 1];
+  if (program.status == ParserStatus.OK && endAddress != 4 + 1100 * 2) {
+    failures.push(`the branch's target is at ${endAddress} instead of ${4 + 1100 * 2}`);
+  }
+  reportCheck("Assembler: A branch which only fits once the program is compressed assembles", failures);
+}
+
+function runDataLimitTest(): void {
+  // Data which can't fit is rejected before it is laid out, rather than filling the memory of the page
+  const failures: string[] = OVERSIZED_DATA_PROGRAMS.flatMap(([lines, expected]: [string[], string]) => {
+    const program: ParserResult = parseInput(lines);
+    return program.status == ParserStatus.ERR && program.errMessage.includes(expected)
+      ? []
+      : [`"${lines.join("; ")}" gave "${program.errMessage.trim()}" instead of an error about "${expected}"`];
+  });
+  if (parseInput([".data", ".word 1", ".space 508"]).status != ParserStatus.OK) {
+    failures.push("data which exactly fills memory was rejected");
+  }
+  reportCheck("Assembler: .space and .align which run past memory are rejected", failures);
+}
+
+function runLoaderTests(): void {
+  /**
+   * Checks that the loader reads ELF executables and flat binaries, and
+   * explains why it rejects files it can't load, printing a line for each
+   * kind of file.
+   */
+  setXlen(32);
+  const elf: Uint8Array = loaderTestElf();
+  const code: Uint8Array = machineCode(LOADER_TEST_PROGRAM);
+  const elfResult: LoaderResult = parseElf(elf);
+  const elfFailures: string[] = loadedProgramFailures(elfResult, LOADER_TEST_TEXT_ADDRESS, LOADER_TEST_EXIT_CODE);
+  if (elfResult.image?.symbols.get("_start") !== LOADER_TEST_TEXT_ADDRESS) {
+    elfFailures.push("the _start symbol wasn't read from the symbol table");
+  }
+  const enlarged: Machine = new Machine();
+  enlarged.loadImage(elfResult.image!);
+  if (enlarged.memory.length != 0x20000) {
+    elfFailures.push(`memory was made ${enlarged.memory.length} bytes long instead of 128 KiB`);
+  }
+  // A name too long to pass to a function one character per argument
+  const longName: string = "f".repeat(1000000);
+  const longNameResult: LoaderResult = parseElf(elfFile([
+    { address: LOADER_TEST_TEXT_ADDRESS, bytes: code, memorySize: code.length, flags: PF_R | PF_X },
+  ], LOADER_TEST_TEXT_ADDRESS, new Map([[longName, LOADER_TEST_TEXT_ADDRESS]])));
+  if (longNameResult.image?.symbols.get(longName) !== LOADER_TEST_TEXT_ADDRESS) {
+    elfFailures.push(`a symbol with a long name wasn't read: ${longNameResult.errMessage}`);
+  }
+  reportCheck("Loader: An ELF executable linked at 0x10000 loads and runs", elfFailures);
+
+  // Each broken file, and part of the error message explaining what is wrong with it
+  const truncatedSegment: Uint8Array = elf.slice(0, 52 + 2 * 32 + 4);
+  truncatedSegment.fill(0, 32, 36); // without section headers, so that only the segment is cut short
+  const brokenFiles: [string, Uint8Array, string][] = [
+    ["a file without the ELF magic number", withByte(elf, 1, 0), "not an ELF file"],
+    ["a 64-bit ELF file", withByte(elf, EI_CLASS, 2), "64-bit"],
+    ["an ELF file for another machine", withByte(elf, E_MACHINE, 62), "not a RISC-V program"],
+    ["a cut short ELF header", elf.slice(0, 40), "header is cut short"],
+    ["cut short program headers", elf.slice(0, 60), "program headers are missing or cut short"],
+    ["a cut short segment", truncatedSegment, "Segment 0 of the executable is cut short"],
+    ["a segment above memory", elfFile([
+      { address: 0x80000000, bytes: code, memorySize: code.length, flags: PF_R | PF_X },
+    ], 0x80000000), "doesn't fit"],
+    ["a segment too large for memory", elfFile([
+      { address: LOADER_TEST_TEXT_ADDRESS, bytes: code, memorySize: 0xffffffff, flags: PF_R | PF_X },
+    ], LOADER_TEST_TEXT_ADDRESS), "doesn't fit"],
+    ["no segment of code", elfFile([
+      { address: LOADER_TEST_TEXT_ADDRESS, bytes: code, memorySize: code.length, flags: PF_R | PF_W },
+    ], LOADER_TEST_TEXT_ADDRESS), "no segment of code"],
+  ];
+  const errorFailures: string[] = brokenFiles.flatMap(([description, bytes, expected]: [string, Uint8Array, string]) => {
+    const result: LoaderResult = parseElf(bytes);
+    return result.status == ParserStatus.ERR && result.errMessage.includes(expected)
+      ? []
+      : [`${description} gave "${result.errMessage}" instead of an error about "${expected}"`];
+  });
+  // A program compiled with compressed instructions still loads, with a warning if the C extension is off
+  const compressedElf: Uint8Array = withByte(elf, E_FLAGS, EF_RISCV_RVC);
+  if (!parseElf(compressedElf, new Set([Extension.M])).warningMessage.includes("compressed instructions")) {
+    errorFailures.push("a program with compressed instructions loaded without a warning that C is off");
+  }
+  if (parseElf(compressedElf, new Set([Extension.C])).warningMessage !== "") {
+    errorFailures.push("a program with compressed instructions was warned about although C is on");
+  }
+  reportCheck("Loader: Broken ELF files are rejected with an explanation", errorFailures);
+
+  const flatCode: Uint8Array = machineCode(FLAT_BINARY_TEST_PROGRAM);
+  const flatResult: LoaderResult = parseFlatBinary(flatCode, 0x100);
+  const flatFailures: string[] = loadedProgramFailures(flatResult, 0x100, FLAT_BINARY_TEST_EXIT_CODE);
+  if (parseProgramFile(elf, 0x100).image?.entry !== LOADER_TEST_TEXT_ADDRESS) {
+    flatFailures.push("an ELF executable wasn't recognised as one");
+  }
+  if (parseProgramFile(flatCode, 0x100).image?.entry !== 0x100) {
+    flatFailures.push("a flat binary wasn't placed at the base address");
+  }
+  // A base address which isn't halfword-aligned, and an empty file
+  const unloadable: [Uint8Array, number][] = [[flatCode, 3], [new Uint8Array(0), 0]];
+  unloadable.forEach(([bytes, baseAddress]: [Uint8Array, number]) => {
+    if (parseFlatBinary(bytes, baseAddress).status != ParserStatus.ERR) {
+      flatFailures.push(`a flat binary of ${bytes.length} bytes at ${baseAddress} was loaded`);
+    }
+  });
+  reportCheck("Loader: Flat binaries load at the base address", flatFailures);
+}
+
+function segment(address: number, bytes: number[]): MemorySegment {
+  return { address: address, bytes: new Uint8Array(bytes), executable: true };
+}
+
+function runExporterTests(): void {
+  /**
+   * Checks that each export format writes the file it should, comparing the
+   * output for a few small programs with files written out by hand.
+   */
+  const counting: number[] = Array.from({ length: 17 }, (_: unknown, i: number) => i);
+  // Each format, the segments it is given, and the file it should write
+  const expectedFiles: [string, ExportFormat, MemorySegment[], string][] = [
+    // Records hold 16 bytes and don't cross into the next 64 KiB block, which an extended linear address record starts
+    ["Intel HEX splits records at 16 bytes and at 64 KiB", ExportFormat.INTEL_HEX,
+      [segment(0x0, counting), segment(0xfffa, Array(8).fill(0xaa))], [
+        ":10000000000102030405060708090A0B0C0D0E0F78",
+        ":0100100010DF",
+        ":06FFFA00AAAAAAAAAAAA05",
+        ":020000040001F9",
+        ":02000000AAAAAA",
+        ":00000001FF",
+      ].join("\n") + "\n"],
+    // The @ addresses count words, so a segment which starts mid-word starts with the word around it
+    ["$readmemh gives each segment's address in words", ExportFormat.READMEMH,
+      [segment(0x6, [0x11, 0x22, 0x33]), segment(0x20, [0x13, 0x05, 0xa0, 0x02])],
+      "@1\n22110000\n00000033\n@8\n02a00513\n"],
+    ["$readmemb writes each word in binary", ExportFormat.READMEMB, [segment(0x6, [0x11, 0x22, 0x33])],
+      "@1\n00100010000100010000000000000000\n00000000000000000000000000110011\n"],
+    ["Logisim images write runs of a word as count*word", ExportFormat.LOGISIM,
+      [segment(0x0, [1, 0, 0, 0, 2, 0, 0, 0, 3, 0, 0, 0, 4, 0, 0, 0, 5, 0, 0, 0, 6, 0, 0, 0, 7, 0, 0, 0, 8, 0, 0, 0]),
+        segment(0x30, [0xff, 0, 0, 0])],
+      "v2.0 raw\n1 2 3 4 5 6 7 8\n4*0 ff\n"],
+    ["C arrays hold every word from address 0", ExportFormat.C_ARRAY, [segment(0x4, [0x13, 0x05, 0xa0, 0x02, 0x73])], [
+      "#include <stdint.h>",
+      "",
+      "// The program's memory from address 0, one little-endian word per element",
+      "const uint32_t program[3] = {",
+      "  0x00000000, 0x02a00513, 0x00000073,",
+      "};",
+    ].join("\n") + "\n"],
+  ];
+  expectedFiles.forEach(([title, format, segments, expected]: [string, ExportFormat, MemorySegment[], string]) => {
+    const written: string | Uint8Array = exportProgram(segments, format);
+    reportCheck(`Exporter: ${title}`, written === expected
+      ? []
+      : [`wrote ${JSON.stringify(written)}`, `instead of ${JSON.stringify(expected)}`]);
+  });
+
+  const binary: string | Uint8Array = exportProgram([segment(0x2, [0xab, 0xcd]), segment(0x5, [0xef])], ExportFormat.BINARY);
+  const expectedBinary: number[] = [0x00, 0x00, 0xab, 0xcd, 0x00, 0xef];
+  reportCheck("Exporter: Raw binaries fill the gaps between segments with zeros", binary instanceof Uint8Array
+    && binary.length == expectedBinary.length && expectedBinary.every((byte: number, i: number) => binary[i] == byte)
+    ? []
+    : [`wrote ${binary} instead of ${expectedBinary}`]);
+}
+
+function assembleValue(text: string, extensions: Set<Extension>): number | string {
+  // The halfword or word one instruction is encoded as, or the assembler's error message
+  const program: ParserResult = parseInput([text], DEFAULT_MEMORY_SIZE, false, extensions);
+  return program.status == ParserStatus.ERR
+    ? program.errMessage.trim()
+    : parseInt(encodeInstruction(program.output[0]), 2);
+}
+
+function roundTripFailure(value: number, extensions: Set<Extension>): string | undefined {
+  /**
+   * Disassembles machine code and assembles the result, which should give
+   * back the same machine code whether registers are written by number or by
+   * ABI name.
+   *
+   * @param value - The halfword or word of a valid instruction
+   * @param extensions - The extensions to assemble with
+   * @returns A message describing the mismatch, or undefined if the round trip gives back the value
+   */
+  for (const abiNames of [false, true]) {
+    const text: string | undefined = disassemble(value, { abiNames: abiNames, address: undefined, symbols: new Map() });
+    if (text == undefined) {
+      return `0x${value.toString(16)} could not be disassembled`;
+    }
+    const reassembled: number | string = assembleValue(text, extensions);
+    if (reassembled !== value) {
+      return typeof reassembled === "string"
+        ? `0x${value.toString(16)} was disassembled to "${text}", which doesn't assemble: ${reassembled}`
+        : `0x${value.toString(16)} was disassembled to "${text}", which assembles to 0x${reassembled.toString(16)}`;
+    }
+  }
+  return undefined;
+}
+
+function fieldsFailure(value: number): string | undefined {
+  /**
+   * Splits machine code into the fields of its format, which should cover
+   * every bit once, from the most significant down, and hold the opcode and
+   * function codes the instruction is decoded by.
+   *
+   * @param value - The halfword or word of a valid instruction
+   * @returns A message describing the problem, or undefined if the fields are right
+   */
+  const encoding: InstructionEncoding | undefined = splitInstruction(value);
+  if (encoding == undefined) {
+    return `0x${value.toString(16)} could not be split into fields`;
+  }
+  let nextBit: number = encoding.length * 8 - 1;
+  for (const field of encoding.fields) {
+    if (field.high != nextBit || field.low > field.high) {
+      return `${encoding.instructionName}'s ${field.name} field covers bits ${field.high}:${field.low}, but should start at bit ${nextBit}`;
+    }
+    nextBit = field.low - 1;
+  }
+  if (nextBit != -1) {
+    return `${encoding.instructionName}'s fields stop at bit ${nextBit + 1}`;
+  }
+  // Compressed instructions have no decode information, as they are decoded by their encodings
+  const decodeInfo: InstructionDecodeInfo | undefined = INSTRUCTION_TO_INFO.get(encoding.instructionName)?.decodeInfo;
+  for (const [name, expected] of [
+    ["opcode", decodeInfo?.opcode], ["funct3", decodeInfo?.funct3], ["funct7", decodeInfo?.funct7],
+  ]) {
+    const bits: string | undefined = encoding.fields.find((field: InstructionField) => field.name === name)?.bits;
+    if (expected != undefined && bits != undefined && bits !== expected) {
+      return `0x${value.toString(16)} has ${name} ${bits}, but ${encoding.instructionName}'s ${name} is ${expected}`;
+    }
+  }
+  return undefined;
+}
+
+function exampleInstructions(instructionName: string, instructionInfo: InstructionInfo): string[] {
+  // The instruction with each set of round trip operands, and the largest and then smallest immediate its field holds
+  const field: ImmediateField | undefined = immediateFieldOf(instructionInfo);
+  const immediates: number[] = field != undefined
+    ? [Math.floor(field.max / field.multipleOf) * field.multipleOf, field.min]
+    : [0, 0];
+  return [0, 1].map((set: number) => {
+    const operands: string[] = instructionInfo.instructionFormat.map((operandType: OperandType, i: number) => {
+      switch (operandType) {
+        case OperandType.REGISTER: return ROUND_TRIP_REGISTERS[set][i];
+        case OperandType.FLOAT_REGISTER: return ROUND_TRIP_FLOAT_REGISTERS[set][i];
+        case OperandType.CSR: return ROUND_TRIP_CSRS[set];
+        default: return `${immediates[set]}`;
+      }
+    });
+    if (instructionInfo.roundingMode) {
+      operands.push(...ROUND_TRIP_ROUNDING_MODES[set]);
+    }
+    return `${instructionName} ${operands.join(", ")}`;
+  });
+}
+
+function runRoundTripTests(): boolean {
+  /**
+   * Checks that the disassembler undoes the assembler: every instruction in
+   * INSTRUCTION_TO_INFO, and every valid compressed halfword, is disassembled
+   * and assembled again for both register widths, printing a line for each
+   * width and kind of instruction. The same instructions are split into their
+   * fields, as the encoding panel shows them.
+   *
+   * @returns true if every round trip gave back the same machine code and
+   *   every instruction's fields were right, false otherwise
+   */
+  const results: boolean[] = [];
+  const report = (title: string, failures: string[]): void => { results.push(reportCheck(title, failures)); };
+  for (const xlen of [32, 64]) {
+    setXlen(xlen);
+    const failures: string[] = [];
+    const fieldFailures: string[] = [];
+    INSTRUCTION_TO_INFO.forEach((instructionInfo: InstructionInfo, instructionName: string) => {
+      if (instructionInfo.rv64Only && xlen == 32) { return; }
+      exampleInstructions(instructionName, instructionInfo).forEach((text: string) => {
+        const value: number | string = assembleValue(text, ROUND_TRIP_EXTENSIONS);
+        const failure: string | undefined = typeof value === "string"
+          ? `"${text}" doesn't assemble: ${value}`
+          : roundTripFailure(value, ROUND_TRIP_EXTENSIONS);
+        if (failure != undefined) { failures.push(failure); }
+        const fieldFailure: string | undefined = typeof value === "string" ? undefined : fieldsFailure(value);
+        if (fieldFailure != undefined) { fieldFailures.push(fieldFailure); }
+      });
+    });
+    report(`Disassembler: Every RV${xlen} instruction assembles back from its disassembly`, failures);
+    report(`Encoding fields: Every RV${xlen} instruction's fields cover its bits`, fieldFailures);
+
+    const compressedFailures: string[] = [];
+    const compressedFieldFailures: string[] = [];
+    for (let halfword: number = 0; halfword < 0x10000; halfword++) {
+      // Halfwords ending in 11 start a 32-bit instruction, and some of the others aren't valid instructions
+      if ((halfword & 0b11) == 0b11 || disassemble(halfword) == undefined) { continue; }
+      const failure: string | undefined = roundTripFailure(halfword, COMPRESSED_ROUND_TRIP_EXTENSIONS);
+      if (failure != undefined) { compressedFailures.push(failure); }
+      const fieldFailure: string | undefined = fieldsFailure(halfword);
+      if (fieldFailure != undefined) { compressedFieldFailures.push(fieldFailure); }
+    }
+    report(`Disassembler: Every RV${xlen} compressed instruction assembles back from its disassembly`, compressedFailures);
+    report(`Encoding fields: Every RV${xlen} compressed instruction's fields cover its bits`, compressedFieldFailures);
+  }
+  return results.every((passed: boolean) => passed);
+}
+
+/*** Program Starting Point ***/
+const testFiles: string[] = process.argv.slice(2);
+if (testFiles.length == 0) { testFiles.push("tests.txt"); }
+const passed: boolean = testFiles.map(runTestFile).every((filePassed: boolean) => filePassed);
+runLayoutTest();
+runDataLimitTest();
+runLoaderTests();
+runExporterTests();
+runRoundTripTests();
+const failedChecks: number = checkResults.filter((checkPassed: boolean) => !checkPassed).length;
+console.log(`\n${checkResults.length - failedChecks} passed, ${failedChecks} failed, ${checkResults.length} total`);
+process.exitCode = failedChecks == 0 && passed ? 0 : 1;
@@ -1,9 +1,27 @@
 /*
 This file is used to hold the helper functions for the runtime simulator script.
 It also holds important constants which are used in the runtime simulator.
+Nothing in this file touches the page, so it can be imported by Node scripts too.
 Author: Anjali Phukan.
 Creation Date: April 15, 2025.
 */
+import {
+  FloatResult,
+  ROUNDING_MODE_NAMES,
+  RoundingMode,
+  addSingles,
+  classifySingle,
+  compareSingles,
+  divideSingles,
+  fusedMultiplyAdd,
+  integerToSingle,
+  minMaxSingles,
+  multiplySingles,
+  singleToInteger,
+  squareRootSingle,
+  subtractSingles,
+} from "./floating-point.js";
+import type { Machine } from "./machine.js";
 
 /*****************************************************************************
  * RISC-V SIMULATOR CONSTANTS AND DEFINITIONS
@@ -12,84 +30,443 @@ Creation Date: April 15, 2025.
 /**
  * Fundamental Architecture Constants
  */
-// Define the RISC-V architecture bit width constant
-const XLEN: number = 32; // XLEN=32 for RV32I instruction set architecture
+// The width of the integer registers: 32 for RV32I, or 64 for RV64I. It is a setting shared by the
+// assembler and the machine rather than a constant, and is switched with setXlen
+export let XLEN: number = 32;
+export const SUPPORTED_XLENS: readonly number[] = [32, 64];
+// The number of integer registers, x0 to x31; the pc comes after them
+export const REGISTER_COUNT: number = 32;
+// The width of the f registers, which hold single-precision numbers whatever XLEN is
+export const FLEN: number = 32;
 
 /**
  * Enumerations and Types
  */
 // Number base for register value representation
-enum Base {
+export enum Base {
   BINARY = 2,
   OCTAL = 8,
   DECIMAL = 10,
   HEXADECIMAL = 16,
 }
 
-// Current base for displaying register values
-let registerBase: number = Base.BINARY;
-
 // Structure for parser results
-enum ParserStatus { OK, ERR }
-interface ParserResult {
+export enum ParserStatus { OK, ERR }
+// Errors stop a program from being assembled, while warnings only point out likely mistakes
+export enum Severity { ERROR, WARNING }
+// A problem found while assembling, and the part of the source it concerns
+export interface Diagnostic {
+  severity: Severity;
+  line: number | undefined; // undefined when the problem concerns the whole program
+  column: number | undefined; // counting from 1, or undefined when it concerns the whole line
+  length: number; // number of characters from the column
+  message: string;
+}
+export interface ParserResult {
   output: string[][];
   status: ParserStatus.OK | ParserStatus.ERR;
   errMessage: string;
-}
-
-interface InstructionInput { rd: string; rs1: string; rs2: string; imm: number; }
-
-interface InstructionDecodeInfo {
+  warningMessage: string;
+  diagnostics: Diagnostic[]; // the problems described in errMessage and warningMessage, with their location
+  symbols: Map<string, number>; // label name -> address the label refers to
+  dataSegment: string[]; // initialized bytes of the data segment, one 8-bit string per byte
+  dataSegmentAddress: number; // address of the data segment's first byte, which depends on the memory size
+  lineNumbers: number[]; // source line of each instruction in output
+  expandedFrom: (string[] | undefined)[]; // the pseudo-instruction each instruction in output was expanded from, if any
+  addresses: number[]; // address of each instruction in output, which compressed instructions make uneven
+}
+
+// A program compiled elsewhere, as the bytes it places in memory rather than source to assemble
+export interface MemorySegment {
+  address: number; // byte address of the first byte
+  bytes: Uint8Array;
+  executable: boolean; // whether the segment holds instructions
+}
+export interface ProgramImage {
+  segments: MemorySegment[];
+  entry: number; // address of the first instruction to execute
+  symbols: Map<string, number>; // label name -> address the label refers to
+}
+export interface LoaderResult {
+  status: ParserStatus.OK | ParserStatus.ERR;
+  errMessage: string;
+  warningMessage: string;
+  image: ProgramImage | undefined; // undefined unless the file loaded without errors
+}
+
+// Breakpoints are attached either to a line of the source or to an address
+export enum BreakpointKind { LINE, ADDRESS }
+export interface BreakpointCondition { left: string; operator: string; right: string; }
+export interface Breakpoint {
+  kind: BreakpointKind;
+  location: number; // line number or byte address, depending on kind
+  condition: BreakpointCondition | undefined; // only stop when this holds
+}
+
+// The state of the environment which programs interact with through environment calls
+export interface EnvironmentState {
+  consoleLength: number; // number of characters written to the console
+  pendingInput: string[]; // lines typed into the console which haven't been read yet
+  heapBreak: number; // address just past the end of the heap
+  exitCode: number | undefined; // set once the program exits
+}
+
+// The values an executed instruction overwrote, so that the instruction can be undone
+export interface HistoryEntry {
+  address: number; // address of the executed instruction
+  outcome: string; // what happened besides the instruction executing, such as a trap, or "" if nothing did
+  retired: boolean; // whether the instruction completed rather than trapping, which counts it in minstret
+  // The rest map what the instruction changed to its value before the instruction, and are undefined if it changed
+  // nothing of that kind. The pc is left out, as it was the address, and so are the counters and mtime, which every instruction changes
+  registerChanges: Map<number, bigint> | undefined; // register -> value
+  floatRegisterChanges: Map<number, number> | undefined; // f register -> value
+  csrChanges: Map<number, number> | undefined; // CSR address -> value
+  memoryChanges: Map<number, number> | undefined; // byte address -> value
+  environmentBefore: EnvironmentState | undefined; // only recorded by environment calls
+}
+
+// Sections of the program that the assembler can place content in
+export enum Section { TEXT, DATA }
+
+// Standard extensions to the base RV32I instruction set, which can be turned off to restrict programs to RV32I
+export enum Extension { M = "M", F = "F", C = "C" }
+// C is left off unless asked for, since compressing instructions moves everything after them
+export const DEFAULT_EXTENSIONS: ReadonlySet<Extension> = new Set([Extension.M, Extension.F]);
+
+export interface InstructionInput {
+  rd: string;
+  rs1: string;
+  rs2: string;
+  rs3: string; // the addend of the fused multiply-add instructions
+  imm: number;
+  rm: RoundingMode; // only used by floating-point instructions which round their result
+  csr: number; // the address of the CSR a Zicsr instruction reads and writes
+}
+
+// An instruction recovered from its 32-bit encoding, ready to be executed
+export interface DecodedInstruction { instructionName: string; inputParams: InstructionInput; }
+
+export interface InstructionDecodeInfo {
   funct3: string | undefined;
   funct7: string | undefined;
   opcode: string;
+  funct12?: string; // bits 31:20, for SYSTEM instructions which share an opcode and funct3
+}
+
+// The range of values an immediate operand can take, given the bits its encoding has for it
+export interface ImmediateField {
+  description: string; // what the immediate is, as it is called in error messages
+  bits: number;
+  min: number;
+  max: number;
+  multipleOf: number; // branch and jump offsets are always even, as their lowest bit isn't encoded
 }
 
-enum OperandType { IMMEDIATE, REGISTER }
-interface InstructionInfo {
+export enum OperandType { IMMEDIATE, REGISTER, FLOAT_REGISTER, CSR }
+export interface InstructionInfo {
   instructionFormat: OperandType[],
   executionFunction: Function,
   decodeFunction: Function,
-  decodeInfo: InstructionDecodeInfo | undefined
+  decodeInfo: InstructionDecodeInfo | undefined,
+  extension?: Extension, // the extension which adds the instruction, or undefined for base instructions
+  rv64Only?: boolean, // whether the instruction only exists when XLEN is 64, like ADDW
+  roundingMode?: boolean // whether funct3 holds a rounding mode, which may be written as an extra operand
 }
 
+// The parts of an instruction's encoding, from its most significant bit down, as the specification draws them
+export enum FieldKind { OPCODE, FUNCT, REGISTER, IMMEDIATE, CSR }
+export interface EncodingField {
+  name: string; // e.g. "imm[11:0]", "rs1" or "funct3"
+  kind: FieldKind;
+  high: number; // the most significant bit of the field
+  low: number; // the least significant bit of the field
+}
+export interface EncodingLayout { formatName: string; fields: EncodingField[]; }
+
 
 /**
  * Instruction Format Definitions
  * Each format defines the expected operand types for different instruction categories
  */
-const I_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER, OperandType.IMMEDIATE];
-const U_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.IMMEDIATE];
-const R_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER];
-const NONE_TYPE: OperandType[] = [];
-const PSEUDO_TYPE_A: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER];
-const PSEUDO_TYPE_B: OperandType[] = [OperandType.IMMEDIATE];
-const PSEUDO_TYPE_C = U_TYPE;
-const J_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.IMMEDIATE];
-const B_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER, OperandType.IMMEDIATE];
-const S_TYPE: OperandType[] = I_TYPE;
+export const I_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER, OperandType.IMMEDIATE];
+export const U_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.IMMEDIATE];
+export const R_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER, OperandType.REGISTER];
+export const NONE_TYPE: OperandType[] = [];
+export const PSEUDO_TYPE_A: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER];
+export const PSEUDO_TYPE_B: OperandType[] = [OperandType.IMMEDIATE];
+export const PSEUDO_TYPE_C: OperandType[] = [OperandType.REGISTER, OperandType.IMMEDIATE];
+export const PSEUDO_TYPE_D: OperandType[] = [OperandType.REGISTER];
+export const J_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.IMMEDIATE];
+export const B_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER, OperandType.IMMEDIATE];
+export const S_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.REGISTER, OperandType.IMMEDIATE];
+// Formats of the F extension, whose operands are f registers, x registers or both
+export const FLOAT_LOAD_TYPE: OperandType[] = [OperandType.FLOAT_REGISTER, OperandType.REGISTER, OperandType.IMMEDIATE];
+export const FLOAT_STORE_TYPE: OperandType[] = [OperandType.FLOAT_REGISTER, OperandType.REGISTER, OperandType.IMMEDIATE];
+export const FLOAT_R_TYPE: OperandType[] = [
+  OperandType.FLOAT_REGISTER, OperandType.FLOAT_REGISTER, OperandType.FLOAT_REGISTER,
+];
+export const FLOAT_R4_TYPE: OperandType[] = [
+  OperandType.FLOAT_REGISTER, OperandType.FLOAT_REGISTER, OperandType.FLOAT_REGISTER, OperandType.FLOAT_REGISTER,
+];
+export const FLOAT_UNARY_TYPE: OperandType[] = [OperandType.FLOAT_REGISTER, OperandType.FLOAT_REGISTER];
+export const FLOAT_COMPARE_TYPE: OperandType[] = [
+  OperandType.REGISTER, OperandType.FLOAT_REGISTER, OperandType.FLOAT_REGISTER,
+];
+export const FLOAT_TO_INTEGER_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.FLOAT_REGISTER];
+export const INTEGER_TO_FLOAT_TYPE: OperandType[] = [OperandType.FLOAT_REGISTER, OperandType.REGISTER];
+// Formats of the Zicsr instructions, which write a CSR with the value of a register or a 5-bit immediate
+export const CSR_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.CSR, OperandType.REGISTER];
+export const CSR_IMMEDIATE_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.CSR, OperandType.IMMEDIATE];
+// and of the pseudo-instructions which only read or only write a CSR
+export const CSR_READ_TYPE: OperandType[] = [OperandType.REGISTER, OperandType.CSR];
+export const CSR_WRITE_TYPE: OperandType[] = [OperandType.CSR, OperandType.REGISTER];
+export const CSR_WRITE_IMMEDIATE_TYPE: OperandType[] = [OperandType.CSR, OperandType.IMMEDIATE];
 
 /**
- * Register System
+ * Program Layout Constants
  */
-// Storage for current register values (including program counter)
-const registers: Map<number, string> = new Map(
-  Array.from({ length: 33 }, (_, i) => [i, "0".repeat(XLEN)]),
-);
+// Number of bytes occupied by every encoded instruction, apart from the compressed ones of the C extension
+export const INSTRUCTION_LENGTH: number = 4;
+export const COMPRESSED_INSTRUCTION_LENGTH: number = 2;
+
+// Opcodes whose immediate is an offset relative to the pc of the instruction
+export const BRANCH_OPCODE: string = "1100011";
+export const JAL_OPCODE: string = "1101111";
+export const JALR_OPCODE: string = "1100111";
+export const PC_RELATIVE_OPCODES: string[] = [BRANCH_OPCODE, JAL_OPCODE];
+
+// Opcodes of the other instructions which take an immediate
+export const OP_IMM_OPCODE: string = "0010011";
+// RV64I's word instructions, which calculate with the lower 32 bits of their operands
+export const OP_IMM_32_OPCODE: string = "0011011";
+export const OP_32_OPCODE: string = "0111011";
+export const LUI_OPCODE: string = "0110111";
+export const AUIPC_OPCODE: string = "0010111";
+
+// Opcodes of the loads and stores, whose address can be written as offset(rs1)
+export const LOAD_OPCODE: string = "0000011";
+export const STORE_OPCODE: string = "0100011";
+export const LOAD_FP_OPCODE: string = "0000111";
+export const STORE_FP_OPCODE: string = "0100111";
+export const MEMORY_ACCESS_OPCODES: string[] = [LOAD_OPCODE, STORE_OPCODE, LOAD_FP_OPCODE, STORE_FP_OPCODE];
+
+// Opcodes of the other floating-point instructions
+export const OP_FP_OPCODE: string = "1010011";
+export const FMADD_OPCODE: string = "1000011";
+export const FMSUB_OPCODE: string = "1000111";
+export const FNMSUB_OPCODE: string = "1001011";
+export const FNMADD_OPCODE: string = "1001111";
+
+// Opcode of ECALL, EBREAK, MRET and the Zicsr instructions
+export const SYSTEM_OPCODE: string = "1110011";
+
+/**
+ * Immediate Fields
+ * The values each kind of immediate can hold, so the assembler can reject those which don't fit
+ */
+export const I_IMMEDIATE: ImmediateField = { description: "Immediate", bits: 12, min: -2048, max: 2047, multipleOf: 1 };
+export const MEMORY_OFFSET: ImmediateField = { description: "Offset", bits: 12, min: -2048, max: 2047, multipleOf: 1 };
+export const SHIFT_AMOUNT: ImmediateField = { description: "Shift amount", bits: 5, min: 0, max: 31, multipleOf: 1 };
+// RV64I's shifts of a whole register by an immediate take a shift amount of up to 63
+export const WIDE_SHIFT_AMOUNT: ImmediateField = {
+  description: "Shift amount", bits: 6, min: 0, max: 63, multipleOf: 1,
+};
+// Upper immediates may be written as signed or unsigned 20-bit numbers, e.g. -1 or 0xfffff
+export const UPPER_IMMEDIATE: ImmediateField = {
+  description: "Upper immediate", bits: 20, min: -524288, max: 1048575, multipleOf: 1,
+};
+export const BRANCH_OFFSET: ImmediateField = {
+  description: "Branch offset", bits: 13, min: -4096, max: 4094, multipleOf: 2,
+};
+export const JUMP_OFFSET: ImmediateField = {
+  description: "Jump offset", bits: 21, min: -1048576, max: 1048574, multipleOf: 2,
+};
+// The immediate forms of the Zicsr instructions encode an unsigned immediate in the rs1 field
+export const CSR_IMMEDIATE: ImmediateField = { description: "CSR immediate", bits: 5, min: 0, max: 31, multipleOf: 1 };
+// The shifts by an immediate share OP_IMM_OPCODE, but only have room for a shift amount
+export const IMMEDIATE_FIELDS: ReadonlyMap<string, ImmediateField> = new Map([
+  [OP_IMM_OPCODE, I_IMMEDIATE],
+  [OP_IMM_32_OPCODE, I_IMMEDIATE],
+  [LOAD_OPCODE, MEMORY_OFFSET],
+  [STORE_OPCODE, MEMORY_OFFSET],
+  [LOAD_FP_OPCODE, MEMORY_OFFSET],
+  [STORE_FP_OPCODE, MEMORY_OFFSET],
+  [JALR_OPCODE, I_IMMEDIATE],
+  [LUI_OPCODE, UPPER_IMMEDIATE],
+  [AUIPC_OPCODE, UPPER_IMMEDIATE],
+  [BRANCH_OPCODE, BRANCH_OFFSET],
+  [JAL_OPCODE, JUMP_OFFSET],
+  [SYSTEM_OPCODE, CSR_IMMEDIATE],
+]);
+
+// How long Run executes instructions before letting the page update, in milliseconds,
+// and how many instructions it executes between checks of the time
+export const RUN_SLICE_DURATION: number = 15;
+export const RUN_SLICE_CHECK_INTERVAL: number = 100;
+
+// A breakpoint condition compares two operands, e.g. "x5 == 10" or "a0 < t1"
+export const BREAKPOINT_CONDITION_REGEX: RegExp = /^\s*(\S+?)\s*(==|!=|<=|>=|<|>)\s*(\S+)\s*$/;
+
+// A line breakpoint typed into the breakpoint panel, e.g. "line 12"
+export const LINE_LOCATION_REGEX: RegExp = /^\s*line\s+(\d+)\s*$/i;
+
+// A valid label name
+export const LABEL_NAME_REGEX: RegExp = /^[A-Za-z_.$][A-Za-z0-9_.$]*$/;
+
+// %hi(label) and %lo(label) select the upper 20 and lower 12 bits of a label's address
+export const ADDRESS_MODIFIER_REGEX: RegExp = /^%(hi|lo)\((.+)\)$/;
+
+// A memory operand such as "8(x2)", "(sp)" or "%lo(label)(t0)": an optional offset and a base register
+export const MEMORY_OPERAND_REGEX: RegExp = /^(.*)\(\s*([^()\s]+)\s*\)$/;
+
+/**
+ * Assembler Directives
+ */
+// Directives that switch the section that following lines are placed in
+export const SECTION_DIRECTIVES: ReadonlyMap<string, Section> = new Map([
+  [".text", Section.TEXT],
+  [".data", Section.DATA],
+]);
+
+// Directives that store a list of integers, and the size of each integer in bytes
+export const INTEGER_DIRECTIVE_SIZES: ReadonlyMap<string, number> = new Map([
+  [".byte", 1],
+  [".half", 2],
+  [".word", 4],
+]);
+
+// Directives that store a string, and whether the string is null-terminated
+export const STRING_DIRECTIVES: ReadonlyMap<string, boolean> = new Map([
+  [".ascii", false],
+  [".asciiz", true],
+  [".string", true],
+]);
+
+// Directives that are accepted for compatibility but have no effect
+export const IGNORED_DIRECTIVES: string[] = [".globl", ".global"];
+
+// Escape sequences which can be used inside string literals
+export const STRING_ESCAPES: ReadonlyMap<string, string> = new Map([
+  ["n", "\n"],
+  ["t", "\t"],
+  ["r", "\r"],
+  ["0", "\0"],
+  ["\\", "\\"],
+  ["\"", "\""],
+  ["'", "'"],
+]);
+
+/**
+ * Execution History
+ */
+// Only the most recent instructions can be stepped back over, so long runs don't exhaust memory
+export const MAX_HISTORY_LENGTH: number = 10000;
+// How many of the most recent instructions are listed in the history timeline
+export const HISTORY_DISPLAY_LENGTH: number = 25;
 
 /**
  * Memory System
  */
-const memory: Map<number, string> = new Map(
-  Array.from({ length: 256 }, (_, i) => [i, "0".repeat(XLEN)]),
-);
+// Memory is an array of bytes; multi-byte values are stored in little-endian order
+export const DEFAULT_MEMORY_SIZE: number = 1024;
+
+// Byte address at which the assembled instructions are placed; the data follows halfway through memory
+export const TEXT_SEGMENT_BASE: number = 0x0;
+// Linkers place a program's code at 0x10000 by default, above the largest memory size on offer, so
+// memory is enlarged to fit a loaded program, up to this size, with at least this much room above it for the stack
+export const MAX_MEMORY_SIZE: number = 0x100000;
+export const MIN_STACK_SIZE: number = 0x1000;
+
+// The core-local interruptor (CLINT) is a device above memory, at the address real RISC-V boards
+// use, whose registers are read and written by loads and stores
+export const CLINT_BASE: number = 0x2000000;
+export const CLINT_MSIP: number = CLINT_BASE; // 4 bytes; bit 0 requests a software interrupt
+export const CLINT_MTIMECMP: number = CLINT_BASE + 0x4000; // 8 bytes; the timer interrupt is pending once mtime reaches it
+export const CLINT_MTIME: number = CLINT_BASE + 0xbff8; // 8 bytes; counts the instructions executed
+
+/**
+ * Environment Calls
+ */
+// Services requested by ECALL, selected by the number in register a7 (numbered as in RARS and Venus)
+export enum Syscall {
+  PRINT_INT = 1,
+  PRINT_STRING = 4,
+  READ_INT = 5,
+  READ_STRING = 8,
+  SBRK = 9,
+  EXIT = 10,
+  PRINT_CHAR = 11,
+  EXIT2_VENUS = 17,
+  EXIT2 = 93,
+}
+
+/**
+ * Traps
+ */
+// The exceptions an instruction can raise, numbered as they are written to mcause
+export enum ExceptionCause {
+  INSTRUCTION_ADDRESS_MISALIGNED = 0,
+  INSTRUCTION_ACCESS_FAULT = 1,
+  ILLEGAL_INSTRUCTION = 2,
+  BREAKPOINT = 3,
+  LOAD_ADDRESS_MISALIGNED = 4,
+  LOAD_ACCESS_FAULT = 5,
+  STORE_ADDRESS_MISALIGNED = 6,
+  STORE_ACCESS_FAULT = 7,
+  ECALL_FROM_M_MODE = 11,
+}
+
+export const EXCEPTION_CAUSE_DESCRIPTIONS: ReadonlyMap<number, string> = new Map([
+  [ExceptionCause.INSTRUCTION_ADDRESS_MISALIGNED, "instruction address misaligned"],
+  [ExceptionCause.INSTRUCTION_ACCESS_FAULT, "instruction access fault"],
+  [ExceptionCause.ILLEGAL_INSTRUCTION, "illegal instruction"],
+  [ExceptionCause.BREAKPOINT, "breakpoint"],
+  [ExceptionCause.LOAD_ADDRESS_MISALIGNED, "load address misaligned"],
+  [ExceptionCause.LOAD_ACCESS_FAULT, "load access fault"],
+  [ExceptionCause.STORE_ADDRESS_MISALIGNED, "store address misaligned"],
+  [ExceptionCause.STORE_ACCESS_FAULT, "store access fault"],
+  [ExceptionCause.ECALL_FROM_M_MODE, "environment call"],
+]);
+
+// The interrupts which can be taken between instructions, numbered as they are written to mcause
+// (with its top bit set) and as their bits in mie and mip
+export enum InterruptCause {
+  MACHINE_SOFTWARE = 3,
+  MACHINE_TIMER = 7,
+  MACHINE_EXTERNAL = 11,
+}
+export const MCAUSE_INTERRUPT: number = 0x80000000;
+// When several interrupts are pending, the first of these is taken
+export const INTERRUPT_PRIORITY: readonly InterruptCause[] = [
+  InterruptCause.MACHINE_EXTERNAL,
+  InterruptCause.MACHINE_SOFTWARE,
+  InterruptCause.MACHINE_TIMER,
+];
+
+export const INTERRUPT_CAUSE_DESCRIPTIONS: ReadonlyMap<number, string> = new Map([
+  [InterruptCause.MACHINE_SOFTWARE, "software interrupt"],
+  [InterruptCause.MACHINE_TIMER, "timer interrupt"],
+  [InterruptCause.MACHINE_EXTERNAL, "external interrupt"],
+]);
+
+// Thrown by an instruction which raises an exception. When the program has a trap handler the
+// machine jumps to it, and otherwise execution stops with the message.
+export class Trap extends Error {
+  constructor(
+    readonly cause: ExceptionCause,
+    message: string,
+    readonly value: number = 0, // written to mtval, e.g. the address of a misaligned load
+  ) {
+    super(message);
+  }
+}
 
 /**
  * Register Name Mapping
  * Maps register names to their numeric identifiers
  * Includes both x-style names (x0-x31) and ABI names (zero, ra, sp, etc.)
  */
-const STRINGS_TO_REGISTERS: ReadonlyMap<string, number> = new Map([
+export const STRINGS_TO_REGISTERS: ReadonlyMap<string, number> = new Map([
   // General Register Names (x0-x31)
   ["x0", 0],
   ["x1", 1],
@@ -123,7 +500,7 @@ const STRINGS_TO_REGISTERS: ReadonlyMap<string, number> = new Map([
   ["x29", 29],
   ["x30", 30],
   ["x31", 31],
-  ["pc", 32], // Program Counter
+  ["pc", REGISTER_COUNT], // Program Counter
 
   // ABI Register Names
   ["zero", 0], // Hard-wired zero
@@ -161,25 +538,184 @@ const STRINGS_TO_REGISTERS: ReadonlyMap<string, number> = new Map([
   ["t6", 31],
 ]);
 
-const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
+// Floating-point register names, used by the F extension
+export const STRINGS_TO_FLOAT_REGISTERS: ReadonlyMap<string, number> = new Map([
+  ["f0", 0],
+  ["f1", 1],
+  ["f2", 2],
+  ["f3", 3],
+  ["f4", 4],
+  ["f5", 5],
+  ["f6", 6],
+  ["f7", 7],
+  ["f8", 8],
+  ["f9", 9],
+  ["f10", 10],
+  ["f11", 11],
+  ["f12", 12],
+  ["f13", 13],
+  ["f14", 14],
+  ["f15", 15],
+  ["f16", 16],
+  ["f17", 17],
+  ["f18", 18],
+  ["f19", 19],
+  ["f20", 20],
+  ["f21", 21],
+  ["f22", 22],
+  ["f23", 23],
+  ["f24", 24],
+  ["f25", 25],
+  ["f26", 26],
+  ["f27", 27],
+  ["f28", 28],
+  ["f29", 29],
+  ["f30", 30],
+  ["f31", 31],
+
+  // ABI names
+  ["ft0", 0], // Temporary registers
+  ["ft1", 1],
+  ["ft2", 2],
+  ["ft3", 3],
+  ["ft4", 4],
+  ["ft5", 5],
+  ["ft6", 6],
+  ["ft7", 7],
+  ["fs0", 8], // Saved registers
+  ["fs1", 9],
+  ["fa0", 10], // Function argument/return registers
+  ["fa1", 11],
+  ["fa2", 12],
+  ["fa3", 13],
+  ["fa4", 14],
+  ["fa5", 15],
+  ["fa6", 16],
+  ["fa7", 17],
+  ["fs2", 18], // More saved registers
+  ["fs3", 19],
+  ["fs4", 20],
+  ["fs5", 21],
+  ["fs6", 22],
+  ["fs7", 23],
+  ["fs8", 24],
+  ["fs9", 25],
+  ["fs10", 26],
+  ["fs11", 27],
+  ["ft8", 28], // More temporary registers
+  ["ft9", 29],
+  ["ft10", 30],
+  ["ft11", 31],
+]);
+
+/**
+ * Control and Status Registers
+ */
+// fcsr holds the rounding mode (frm, bits 7:5) and the exception flags (fflags, bits 4:0),
+// which can also be accessed on their own
+export const CSR_FFLAGS: number = 0x001;
+export const CSR_FRM: number = 0x002;
+export const CSR_FCSR: number = 0x003;
+export const FRM_SHIFT: number = 5;
+export const FFLAGS_MASK: number = 0x1f;
+
+// Machine-mode CSRs, which trap handlers use
+export const CSR_MSTATUS: number = 0x300;
+export const CSR_MIE: number = 0x304;
+export const CSR_MTVEC: number = 0x305;
+export const CSR_MSCRATCH: number = 0x340;
+export const CSR_MEPC: number = 0x341;
+export const CSR_MCAUSE: number = 0x342;
+export const CSR_MTVAL: number = 0x343;
+export const CSR_MIP: number = 0x344;
+// 64-bit counters of the cycles and instructions executed, split into lower and upper halves
+export const CSR_MCYCLE: number = 0xb00;
+export const CSR_MINSTRET: number = 0xb02;
+export const CSR_MCYCLEH: number = 0xb80;
+export const CSR_MINSTRETH: number = 0xb82;
+// Read-only copies of the counters, which RDCYCLE and RDINSTRET read
+export const CSR_CYCLE: number = 0xc00;
+export const CSR_INSTRET: number = 0xc02;
+export const CSR_CYCLEH: number = 0xc80;
+export const CSR_INSTRETH: number = 0xc82;
+export const COUNTER_COPIES: ReadonlyMap<number, number> = new Map([
+  [CSR_CYCLE, CSR_MCYCLE],
+  [CSR_INSTRET, CSR_MINSTRET],
+  [CSR_CYCLEH, CSR_MCYCLEH],
+  [CSR_INSTRETH, CSR_MINSTRETH],
+]);
+
+export const STRINGS_TO_CSRS: ReadonlyMap<string, number> = new Map([
+  ["fflags", CSR_FFLAGS],
+  ["frm", CSR_FRM],
+  ["fcsr", CSR_FCSR],
+  ["mstatus", CSR_MSTATUS],
+  ["mie", CSR_MIE],
+  ["mtvec", CSR_MTVEC],
+  ["mscratch", CSR_MSCRATCH],
+  ["mepc", CSR_MEPC],
+  ["mcause", CSR_MCAUSE],
+  ["mtval", CSR_MTVAL],
+  ["mip", CSR_MIP],
+  ["mcycle", CSR_MCYCLE],
+  ["minstret", CSR_MINSTRET],
+  ["mcycleh", CSR_MCYCLEH],
+  ["minstreth", CSR_MINSTRETH],
+  ["cycle", CSR_CYCLE],
+  ["instret", CSR_INSTRET],
+  ["cycleh", CSR_CYCLEH],
+  ["instreth", CSR_INSTRETH],
+]);
+
+// Fields of mstatus: whether interrupts are enabled, their previous state, and the previous
+// privilege mode, which is always machine mode as it is the only mode
+export const MSTATUS_MIE: number = 0x8;
+export const MSTATUS_MPIE: number = 0x80;
+export const MSTATUS_MPP: number = 0x1800;
+
+// In vectored mode (the lowest bits of mtvec are 1), an interrupt jumps to mtvec + 4 * its cause
+export const MTVEC_MODE_MASK: number = 0x3;
+export const MTVEC_VECTORED: number = 1;
+
+// The bits of mie which enable, and of mip which show as pending, each interrupt
+export const MIP_MSIP: number = 1 << InterruptCause.MACHINE_SOFTWARE;
+export const MIP_MTIP: number = 1 << InterruptCause.MACHINE_TIMER;
+export const MIP_MEIP: number = 1 << InterruptCause.MACHINE_EXTERNAL;
+
+// The CSRs the machine holds and their values after a reset; the others are fields or copies of these
+export const CSR_RESET_VALUES: ReadonlyMap<number, number> = new Map([
+  [CSR_FCSR, 0],
+  [CSR_MSTATUS, MSTATUS_MPP],
+  [CSR_MIE, 0],
+  [CSR_MTVEC, 0],
+  [CSR_MSCRATCH, 0],
+  [CSR_MEPC, 0],
+  [CSR_MCAUSE, 0],
+  [CSR_MTVAL, 0],
+  [CSR_MIP, 0],
+  [CSR_MCYCLE, 0],
+  [CSR_MINSTRET, 0],
+  [CSR_MCYCLEH, 0],
+  [CSR_MINSTRETH, 0],
+]);
+
+// The bits of a CSR which can be written, for CSRs where some bits can't; the rest keep their value
+export const CSR_WRITABLE_BITS: ReadonlyMap<number, number> = new Map([
+  [CSR_FCSR, 0xff],
+  [CSR_MSTATUS, MSTATUS_MIE | MSTATUS_MPIE],
+  [CSR_MIE, MIP_MSIP | MIP_MTIP | MIP_MEIP],
+  [CSR_MIP, 0], // interrupts are pending because of the devices requesting them, not the program
+  [CSR_MTVEC, 0xfffffffd], // the mode is direct (0) or vectored (1)
+  [CSR_MEPC, 0xfffffffc], // instructions are always 4-byte aligned
+]);
+
+export const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
   ["ADDI", {
     instructionFormat: I_TYPE,
     executionFunction: addi,
     decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "ADDI"); },
     decodeInfo: { funct3: "000", funct7: undefined, opcode: "0010011" }
   }],
-  ["MV", {
-    instructionFormat: PSEUDO_TYPE_A,
-    executionFunction: mv,
-    decodeFunction: mv_decode,
-    decodeInfo: { funct3: "000", funct7: undefined, opcode: "0010011" }
-  }],
-  ["NOP", {
-    instructionFormat: NONE_TYPE,
-    executionFunction: nop,
-    decodeFunction: nop_decode,
-    decodeInfo: { funct3: "000", funct7: undefined, opcode: "0010011" }
-  }],
   ["SLTI", {
     instructionFormat: I_TYPE,
     executionFunction: slti,
@@ -192,12 +728,6 @@ const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
     decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "SLTIU"); },
     decodeInfo: { funct3: "011", funct7: undefined, opcode: "0010011" }
   }],
-  ["SEQZ", {
-    instructionFormat: PSEUDO_TYPE_A,
-    executionFunction: seqz,
-    decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "SEQZ"); },
-    decodeInfo: { funct3: "011", funct7: undefined, opcode: "0010011" }
-  }],
   ["ANDI", {
     instructionFormat: I_TYPE,
     executionFunction: andi,
@@ -216,29 +746,23 @@ const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
     decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "XORI"); },
     decodeInfo: { funct3: "100", funct7: undefined, opcode: "0010011" }
   }],
-  ["NOT", {
-    instructionFormat: PSEUDO_TYPE_A,
-    executionFunction: not,
-    decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "NOT") },
-    decodeInfo: { funct3: "100", funct7: undefined, opcode: "0010011" }
-  }],
   ["SLLI", {
     instructionFormat: I_TYPE,
     executionFunction: slli,
-    decodeFunction: slli_decode,
-    decodeInfo: { funct3: "001", funct7: undefined, opcode: "0010011" }
+    decodeFunction: (inputParams: InstructionInput) => { return shiftImmediateDecode(inputParams, "SLLI"); },
+    decodeInfo: { funct3: "001", funct7: "0000000", opcode: "0010011" }
   }],
   ["SRLI", {
     instructionFormat: I_TYPE,
     executionFunction: srli,
-    decodeFunction: srli_decode,
-    decodeInfo: { funct3: "101", funct7: undefined, opcode: "0010011" }
+    decodeFunction: (inputParams: InstructionInput) => { return shiftImmediateDecode(inputParams, "SRLI"); },
+    decodeInfo: { funct3: "101", funct7: "0000000", opcode: "0010011" }
   }],
   ["SRAI", {
     instructionFormat: I_TYPE,
     executionFunction: srai,
-    decodeFunction: srai_decode,
-    decodeInfo: { funct3: "101", funct7: undefined, opcode: "0010011" }
+    decodeFunction: (inputParams: InstructionInput) => { return shiftImmediateDecode(inputParams, "SRAI"); },
+    decodeInfo: { funct3: "101", funct7: "0100000", opcode: "0010011" }
   }],
   ["LUI", {
     instructionFormat: U_TYPE,
@@ -270,30 +794,12 @@ const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
     decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SLT"); },
     decodeInfo: { funct3: "010", funct7: "0000000", opcode: "0110011" }
   }],
-  ["SLTZ", {
-    instructionFormat: PSEUDO_TYPE_A,
-    executionFunction: sltz,
-    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SLTZ"); },
-    decodeInfo: { funct3: "010", funct7: "0000000", opcode: "0110011" }
-  }],
-  ["SGTZ", {
-    instructionFormat: PSEUDO_TYPE_A,
-    executionFunction: sgtz,
-    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SGTZ"); },
-    decodeInfo: { funct3: "010", funct7: "0000000", opcode: "0110011" }
-  }],
   ["SLTU", {
     instructionFormat: R_TYPE,
     executionFunction: sltu,
     decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SLTU"); },
     decodeInfo: { funct3: "011", funct7: "0000000", opcode: "0110011" }
   }],
-  ["SNEZ", {
-    instructionFormat: PSEUDO_TYPE_A,
-    executionFunction: snez,
-    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SNEZ"); },
-    decodeInfo: { funct3: "011", funct7: "0000000", opcode: "0110011" }
-  }],
   ["AND", {
     instructionFormat: R_TYPE,
     executionFunction: and,
@@ -330,18 +836,168 @@ const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
     decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SRA"); },
     decodeInfo: { funct3: "101", funct7: "0100000", opcode: "0110011" }
   }],
+  ["MUL", {
+    instructionFormat: R_TYPE,
+    executionFunction: mul,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "MUL"); },
+    decodeInfo: { funct3: "000", funct7: "0000001", opcode: "0110011" },
+    extension: Extension.M,
+  }],
+  ["MULH", {
+    instructionFormat: R_TYPE,
+    executionFunction: mulh,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "MULH"); },
+    decodeInfo: { funct3: "001", funct7: "0000001", opcode: "0110011" },
+    extension: Extension.M,
+  }],
+  ["MULHSU", {
+    instructionFormat: R_TYPE,
+    executionFunction: mulhsu,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "MULHSU"); },
+    decodeInfo: { funct3: "010", funct7: "0000001", opcode: "0110011" },
+    extension: Extension.M,
+  }],
+  ["MULHU", {
+    instructionFormat: R_TYPE,
+    executionFunction: mulhu,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "MULHU"); },
+    decodeInfo: { funct3: "011", funct7: "0000001", opcode: "0110011" },
+    extension: Extension.M,
+  }],
+  ["DIV", {
+    instructionFormat: R_TYPE,
+    executionFunction: div,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "DIV"); },
+    decodeInfo: { funct3: "100", funct7: "0000001", opcode: "0110011" },
+    extension: Extension.M,
+  }],
+  ["DIVU", {
+    instructionFormat: R_TYPE,
+    executionFunction: divu,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "DIVU"); },
+    decodeInfo: { funct3: "101", funct7: "0000001", opcode: "0110011" },
+    extension: Extension.M,
+  }],
+  ["REM", {
+    instructionFormat: R_TYPE,
+    executionFunction: rem,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "REM"); },
+    decodeInfo: { funct3: "110", funct7: "0000001", opcode: "0110011" },
+    extension: Extension.M,
+  }],
+  ["REMU", {
+    instructionFormat: R_TYPE,
+    executionFunction: remu,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "REMU"); },
+    decodeInfo: { funct3: "111", funct7: "0000001", opcode: "0110011" },
+    extension: Extension.M,
+  }],
+  ["MULW", {
+    instructionFormat: R_TYPE,
+    executionFunction: mulw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "MULW"); },
+    decodeInfo: { funct3: "000", funct7: "0000001", opcode: OP_32_OPCODE },
+    extension: Extension.M,
+    rv64Only: true,
+  }],
+  ["DIVW", {
+    instructionFormat: R_TYPE,
+    executionFunction: divw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "DIVW"); },
+    decodeInfo: { funct3: "100", funct7: "0000001", opcode: OP_32_OPCODE },
+    extension: Extension.M,
+    rv64Only: true,
+  }],
+  ["DIVUW", {
+    instructionFormat: R_TYPE,
+    executionFunction: divuw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "DIVUW"); },
+    decodeInfo: { funct3: "101", funct7: "0000001", opcode: OP_32_OPCODE },
+    extension: Extension.M,
+    rv64Only: true,
+  }],
+  ["REMW", {
+    instructionFormat: R_TYPE,
+    executionFunction: remw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "REMW"); },
+    decodeInfo: { funct3: "110", funct7: "0000001", opcode: OP_32_OPCODE },
+    extension: Extension.M,
+    rv64Only: true,
+  }],
+  ["REMUW", {
+    instructionFormat: R_TYPE,
+    executionFunction: remuw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "REMUW"); },
+    decodeInfo: { funct3: "111", funct7: "0000001", opcode: OP_32_OPCODE },
+    extension: Extension.M,
+    rv64Only: true,
+  }],
+  ["ECALL", {
+    instructionFormat: NONE_TYPE,
+    executionFunction: ecall,
+    decodeFunction: (inputParams: InstructionInput) => { return systemDecode("ECALL"); },
+    decodeInfo: { funct3: "000", funct7: undefined, opcode: "1110011", funct12: "000000000000" }
+  }],
+  ["EBREAK", {
+    instructionFormat: NONE_TYPE,
+    executionFunction: ebreak,
+    decodeFunction: (inputParams: InstructionInput) => { return systemDecode("EBREAK"); },
+    decodeInfo: { funct3: "000", funct7: undefined, opcode: "1110011", funct12: "000000000001" }
+  }],
+  ["MRET", {
+    instructionFormat: NONE_TYPE,
+    executionFunction: mret,
+    decodeFunction: (inputParams: InstructionInput) => { return systemDecode("MRET"); },
+    decodeInfo: { funct3: "000", funct7: undefined, opcode: SYSTEM_OPCODE, funct12: "001100000010" }
+  }],
+  ["WFI", {
+    instructionFormat: NONE_TYPE,
+    executionFunction: wfi,
+    decodeFunction: (inputParams: InstructionInput) => { return systemDecode("WFI"); },
+    decodeInfo: { funct3: "000", funct7: undefined, opcode: SYSTEM_OPCODE, funct12: "000100000101" }
+  }],
+  ["CSRRW", {
+    instructionFormat: CSR_TYPE,
+    executionFunction: csrrw,
+    decodeFunction: (inputParams: InstructionInput) => { return csrTypeDecode(inputParams, "CSRRW"); },
+    decodeInfo: { funct3: "001", funct7: undefined, opcode: SYSTEM_OPCODE }
+  }],
+  ["CSRRS", {
+    instructionFormat: CSR_TYPE,
+    executionFunction: csrrs,
+    decodeFunction: (inputParams: InstructionInput) => { return csrTypeDecode(inputParams, "CSRRS"); },
+    decodeInfo: { funct3: "010", funct7: undefined, opcode: SYSTEM_OPCODE }
+  }],
+  ["CSRRC", {
+    instructionFormat: CSR_TYPE,
+    executionFunction: csrrc,
+    decodeFunction: (inputParams: InstructionInput) => { return csrTypeDecode(inputParams, "CSRRC"); },
+    decodeInfo: { funct3: "011", funct7: undefined, opcode: SYSTEM_OPCODE }
+  }],
+  ["CSRRWI", {
+    instructionFormat: CSR_IMMEDIATE_TYPE,
+    executionFunction: csrrwi,
+    decodeFunction: (inputParams: InstructionInput) => { return csrTypeDecode(inputParams, "CSRRWI"); },
+    decodeInfo: { funct3: "101", funct7: undefined, opcode: SYSTEM_OPCODE }
+  }],
+  ["CSRRSI", {
+    instructionFormat: CSR_IMMEDIATE_TYPE,
+    executionFunction: csrrsi,
+    decodeFunction: (inputParams: InstructionInput) => { return csrTypeDecode(inputParams, "CSRRSI"); },
+    decodeInfo: { funct3: "110", funct7: undefined, opcode: SYSTEM_OPCODE }
+  }],
+  ["CSRRCI", {
+    instructionFormat: CSR_IMMEDIATE_TYPE,
+    executionFunction: csrrci,
+    decodeFunction: (inputParams: InstructionInput) => { return csrTypeDecode(inputParams, "CSRRCI"); },
+    decodeInfo: { funct3: "111", funct7: undefined, opcode: SYSTEM_OPCODE }
+  }],
   ["JAL", {
     instructionFormat: J_TYPE,
     executionFunction: jal,
     decodeFunction: jal_decode,
     decodeInfo: { funct3: undefined, funct7: undefined, opcode: "1101111" }
   }],
-  ["J", {
-    instructionFormat: PSEUDO_TYPE_B,
-    executionFunction: j,
-    decodeFunction: j_decode,
-    decodeInfo: { funct3: undefined, funct7: undefined, opcode: "1101111" }
-  }],
   ["JALR", {
     instructionFormat: I_TYPE,
     executionFunction: jalr,
@@ -354,96 +1010,36 @@ const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
     decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BEQ"); },
     decodeInfo: { funct3: "000", funct7: undefined, opcode: "1100011" }
   }],
-  ["BEQZ", {
-    instructionFormat: PSEUDO_TYPE_C,
-    executionFunction: beqz,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BEQZ"); },
-    decodeInfo: { funct3: "000", funct7: undefined, opcode: "1100011" }
-  }],
   ["BNE", {
     instructionFormat: B_TYPE,
     executionFunction: bne,
     decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BNE"); },
     decodeInfo: { funct3: "001", funct7: undefined, opcode: "1100011" }
   }],
-  ["BNEZ", {
-    instructionFormat: PSEUDO_TYPE_C,
-    executionFunction: bnez,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BNEZ"); },
-    decodeInfo: { funct3: "001", funct7: undefined, opcode: "1100011" }
-  }],
   ["BLT", {
     instructionFormat: B_TYPE,
     executionFunction: blt,
     decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BLT"); },
     decodeInfo: { funct3: "100", funct7: undefined, opcode: "1100011" }
   }],
-  ["BGT", {
-    instructionFormat: B_TYPE,
-    executionFunction: bgt,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BGT"); },
-    decodeInfo: { funct3: "100", funct7: undefined, opcode: "1100011" }
-  }],
-  ["BLTZ", {
-    instructionFormat: PSEUDO_TYPE_C,
-    executionFunction: bltz,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BLTZ"); },
-    decodeInfo: { funct3: "100", funct7: undefined, opcode: "1100011" }
-  }],
-  ["BGTZ", {
-    instructionFormat: PSEUDO_TYPE_C,
-    executionFunction: bgtz,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BGTZ"); },
-    decodeInfo: { funct3: "100", funct7: undefined, opcode: "1100011" }
-  }],
   ["BLTU", {
     instructionFormat: B_TYPE,
     executionFunction: bltu,
     decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BLTU"); },
     decodeInfo: { funct3: "101", funct7: undefined, opcode: "1100011" }
   }],
-  ["BGTU", {
-    instructionFormat: B_TYPE,
-    executionFunction: bgtu,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BGTU"); },
-    decodeInfo: { funct3: "101", funct7: undefined, opcode: "1100011" }
-  }],
   ["BGE", {
     instructionFormat: B_TYPE,
     executionFunction: bge,
     decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BGE"); },
     decodeInfo: { funct3: "110", funct7: undefined, opcode: "1100011" }
   }],
-  ["BLE", {
-    instructionFormat: B_TYPE,
-    executionFunction: ble,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BLE"); },
-    decodeInfo: { funct3: "110", funct7: undefined, opcode: "1100011" }
-  }],
-  ["BLEZ", {
-    instructionFormat: PSEUDO_TYPE_C,
-    executionFunction: blez,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BLEZ"); },
-    decodeInfo: { funct3: "110", funct7: undefined, opcode: "1100011" }
-  }],
-  ["BGEZ", {
-    instructionFormat: PSEUDO_TYPE_C,
-    executionFunction: bgez,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BGEZ"); },
-    decodeInfo: { funct3: "110", funct7: undefined, opcode: "1100011" }
-  }],
   ["BGEU", {
     instructionFormat: B_TYPE,
     executionFunction: bgeu,
     decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BGEU"); },
     decodeInfo: { funct3: "111", funct7: undefined, opcode: "1100011" }
   }],
-  ["BLEU", {
-    instructionFormat: B_TYPE,
-    executionFunction: bleu,
-    decodeFunction: (inputParams: InstructionInput) => { return bTypeDecode(inputParams, "BLEU"); },
-    decodeInfo: { funct3: "111", funct7: undefined, opcode: "1100011" }
-  }],
   ["LW", {
     instructionFormat: I_TYPE,
     executionFunction: lw,
@@ -472,7 +1068,7 @@ const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
     instructionFormat: I_TYPE,
     executionFunction: lbu,
     decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "LBU"); },
-    decodeInfo: { funct3: "111", funct7: undefined, opcode: "0000011" }
+    decodeInfo: { funct3: "100", funct7: undefined, opcode: "0000011" }
   }],
   ["SW", {
     instructionFormat: S_TYPE,
@@ -491,16 +1087,312 @@ const INSTRUCTION_TO_INFO: ReadonlyMap<string, InstructionInfo> = new Map([
     executionFunction: sb,
     decodeFunction: (inputParams: InstructionInput) => { return sTypeDecode(inputParams, "SB"); },
     decodeInfo: { funct3: "000", funct7: undefined, opcode: "0100011" },
-  }]
+  }],
+  ["LWU", {
+    instructionFormat: I_TYPE,
+    executionFunction: lwu,
+    decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "LWU"); },
+    decodeInfo: { funct3: "110", funct7: undefined, opcode: "0000011" },
+    rv64Only: true,
+  }],
+  ["LD", {
+    instructionFormat: I_TYPE,
+    executionFunction: ld,
+    decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "LD"); },
+    decodeInfo: { funct3: "011", funct7: undefined, opcode: "0000011" },
+    rv64Only: true,
+  }],
+  ["SD", {
+    instructionFormat: S_TYPE,
+    executionFunction: sd,
+    decodeFunction: (inputParams: InstructionInput) => { return sTypeDecode(inputParams, "SD"); },
+    decodeInfo: { funct3: "011", funct7: undefined, opcode: "0100011" },
+    rv64Only: true,
+  }],
+  ["ADDIW", {
+    instructionFormat: I_TYPE,
+    executionFunction: addiw,
+    decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "ADDIW"); },
+    decodeInfo: { funct3: "000", funct7: undefined, opcode: OP_IMM_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["SLLIW", {
+    instructionFormat: I_TYPE,
+    executionFunction: slliw,
+    decodeFunction: (inputParams: InstructionInput) => { return shiftImmediateDecode(inputParams, "SLLIW"); },
+    decodeInfo: { funct3: "001", funct7: "0000000", opcode: OP_IMM_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["SRLIW", {
+    instructionFormat: I_TYPE,
+    executionFunction: srliw,
+    decodeFunction: (inputParams: InstructionInput) => { return shiftImmediateDecode(inputParams, "SRLIW"); },
+    decodeInfo: { funct3: "101", funct7: "0000000", opcode: OP_IMM_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["SRAIW", {
+    instructionFormat: I_TYPE,
+    executionFunction: sraiw,
+    decodeFunction: (inputParams: InstructionInput) => { return shiftImmediateDecode(inputParams, "SRAIW"); },
+    decodeInfo: { funct3: "101", funct7: "0100000", opcode: OP_IMM_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["ADDW", {
+    instructionFormat: R_TYPE,
+    executionFunction: addw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "ADDW"); },
+    decodeInfo: { funct3: "000", funct7: "0000000", opcode: OP_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["SUBW", {
+    instructionFormat: R_TYPE,
+    executionFunction: subw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SUBW"); },
+    decodeInfo: { funct3: "000", funct7: "0100000", opcode: OP_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["SLLW", {
+    instructionFormat: R_TYPE,
+    executionFunction: sllw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SLLW"); },
+    decodeInfo: { funct3: "001", funct7: "0000000", opcode: OP_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["SRLW", {
+    instructionFormat: R_TYPE,
+    executionFunction: srlw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SRLW"); },
+    decodeInfo: { funct3: "101", funct7: "0000000", opcode: OP_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["SRAW", {
+    instructionFormat: R_TYPE,
+    executionFunction: sraw,
+    decodeFunction: (inputParams: InstructionInput) => { return rTypeDecode(inputParams, "SRAW"); },
+    decodeInfo: { funct3: "101", funct7: "0100000", opcode: OP_32_OPCODE },
+    rv64Only: true,
+  }],
+  ["FLW", {
+    instructionFormat: FLOAT_LOAD_TYPE,
+    executionFunction: flw,
+    decodeFunction: (inputParams: InstructionInput) => { return iTypeDecode(inputParams, "FLW"); },
+    decodeInfo: { funct3: "010", funct7: undefined, opcode: LOAD_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FSW", {
+    instructionFormat: FLOAT_STORE_TYPE,
+    executionFunction: fsw,
+    decodeFunction: (inputParams: InstructionInput) => { return sTypeDecode(inputParams, "FSW"); },
+    decodeInfo: { funct3: "010", funct7: undefined, opcode: STORE_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FADD.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fadd_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FADD.S"); },
+    decodeInfo: { funct3: undefined, funct7: "0000000", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FSUB.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fsub_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FSUB.S"); },
+    decodeInfo: { funct3: undefined, funct7: "0000100", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FMUL.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fmul_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FMUL.S"); },
+    decodeInfo: { funct3: undefined, funct7: "0001000", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FDIV.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fdiv_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FDIV.S"); },
+    decodeInfo: { funct3: undefined, funct7: "0001100", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FSQRT.S", {
+    instructionFormat: FLOAT_UNARY_TYPE,
+    executionFunction: fsqrt_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FSQRT.S"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: OP_FP_OPCODE, funct12: "010110000000" },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FSGNJ.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fsgnj_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FSGNJ.S"); },
+    decodeInfo: { funct3: "000", funct7: "0010000", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FSGNJN.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fsgnjn_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FSGNJN.S"); },
+    decodeInfo: { funct3: "001", funct7: "0010000", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FSGNJX.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fsgnjx_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FSGNJX.S"); },
+    decodeInfo: { funct3: "010", funct7: "0010000", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FMIN.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fmin_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FMIN.S"); },
+    decodeInfo: { funct3: "000", funct7: "0010100", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FMAX.S", {
+    instructionFormat: FLOAT_R_TYPE,
+    executionFunction: fmax_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FMAX.S"); },
+    decodeInfo: { funct3: "001", funct7: "0010100", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FCVT.W.S", {
+    instructionFormat: FLOAT_TO_INTEGER_TYPE,
+    executionFunction: fcvt_w_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FCVT.W.S"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: OP_FP_OPCODE, funct12: "110000000000" },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FCVT.WU.S", {
+    instructionFormat: FLOAT_TO_INTEGER_TYPE,
+    executionFunction: fcvt_wu_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FCVT.WU.S"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: OP_FP_OPCODE, funct12: "110000000001" },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FMV.X.W", {
+    instructionFormat: FLOAT_TO_INTEGER_TYPE,
+    executionFunction: fmv_x_w,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FMV.X.W"); },
+    decodeInfo: { funct3: "000", funct7: undefined, opcode: OP_FP_OPCODE, funct12: "111000000000" },
+    extension: Extension.F,
+  }],
+  ["FEQ.S", {
+    instructionFormat: FLOAT_COMPARE_TYPE,
+    executionFunction: feq_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FEQ.S"); },
+    decodeInfo: { funct3: "010", funct7: "1010000", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FLT.S", {
+    instructionFormat: FLOAT_COMPARE_TYPE,
+    executionFunction: flt_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FLT.S"); },
+    decodeInfo: { funct3: "001", funct7: "1010000", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FLE.S", {
+    instructionFormat: FLOAT_COMPARE_TYPE,
+    executionFunction: fle_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FLE.S"); },
+    decodeInfo: { funct3: "000", funct7: "1010000", opcode: OP_FP_OPCODE },
+    extension: Extension.F,
+  }],
+  ["FCLASS.S", {
+    instructionFormat: FLOAT_TO_INTEGER_TYPE,
+    executionFunction: fclass_s,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FCLASS.S"); },
+    decodeInfo: { funct3: "001", funct7: undefined, opcode: OP_FP_OPCODE, funct12: "111000000000" },
+    extension: Extension.F,
+  }],
+  ["FCVT.S.W", {
+    instructionFormat: INTEGER_TO_FLOAT_TYPE,
+    executionFunction: fcvt_s_w,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FCVT.S.W"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: OP_FP_OPCODE, funct12: "110100000000" },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FCVT.S.WU", {
+    instructionFormat: INTEGER_TO_FLOAT_TYPE,
+    executionFunction: fcvt_s_wu,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FCVT.S.WU"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: OP_FP_OPCODE, funct12: "110100000001" },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FMV.W.X", {
+    instructionFormat: INTEGER_TO_FLOAT_TYPE,
+    executionFunction: fmv_w_x,
+    decodeFunction: (inputParams: InstructionInput) => { return floatTypeDecode(inputParams, "FMV.W.X"); },
+    decodeInfo: { funct3: "000", funct7: undefined, opcode: OP_FP_OPCODE, funct12: "111100000000" },
+    extension: Extension.F,
+  }],
+  ["FMADD.S", {
+    instructionFormat: FLOAT_R4_TYPE,
+    executionFunction: fmadd_s,
+    decodeFunction: (inputParams: InstructionInput) => { return r4TypeDecode(inputParams, "FMADD.S"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: FMADD_OPCODE },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FMSUB.S", {
+    instructionFormat: FLOAT_R4_TYPE,
+    executionFunction: fmsub_s,
+    decodeFunction: (inputParams: InstructionInput) => { return r4TypeDecode(inputParams, "FMSUB.S"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: FMSUB_OPCODE },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FNMSUB.S", {
+    instructionFormat: FLOAT_R4_TYPE,
+    executionFunction: fnmsub_s,
+    decodeFunction: (inputParams: InstructionInput) => { return r4TypeDecode(inputParams, "FNMSUB.S"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: FNMSUB_OPCODE },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
+  ["FNMADD.S", {
+    instructionFormat: FLOAT_R4_TYPE,
+    executionFunction: fnmadd_s,
+    decodeFunction: (inputParams: InstructionInput) => { return r4TypeDecode(inputParams, "FNMADD.S"); },
+    decodeInfo: { funct3: undefined, funct7: undefined, opcode: FNMADD_OPCODE },
+    extension: Extension.F,
+    roundingMode: true,
+  }],
 ]);
 
-const PC_MOD_INSTRUCTIONS: string[] = [
-  "J", "JAL", "JALR", ""
-]
+// Jumps, branches and MRET write the pc themselves, so the stepper must not advance it
+export const PC_MOD_INSTRUCTIONS: string[] = Array.from(INSTRUCTION_TO_INFO.keys()).filter(
+  (instructionName: string) => [BRANCH_OPCODE, JAL_OPCODE, JALR_OPCODE].includes(
+    INSTRUCTION_TO_INFO.get(instructionName)!.decodeInfo!.opcode
+  )
+).concat(["MRET"]);
+
+// Maps the opcode, funct3 and funct7 of each base instruction to its name
+export const ENCODING_TO_INSTRUCTION: ReadonlyMap<string, string> = new Map(
+  Array.from(INSTRUCTION_TO_INFO.entries())
+    .map(([instructionName, instructionInfo]) => [
+      encodingKey(
+        instructionInfo.decodeInfo!.opcode,
+        instructionInfo.decodeInfo!.funct3,
+        instructionInfo.decodeInfo!.funct7,
+        instructionInfo.decodeInfo!.funct12,
+      ),
+      instructionName,
+    ]),
+);
 
 /*** General Functions ***/
 
-function binaryToHex(binVal: string): string {
+export function binaryToHex(binVal: string): string {
   let hexVal = "";
   const binValCleaned: string = zeroExtend(
     binVal,
@@ -514,7 +1406,35 @@ function binaryToHex(binVal: string): string {
   return hexVal;
 }
 
-function binaryToOctal(binVal: string): string {
+export function formatAddress(address: number): string {
+  return `0x${binaryToHex(zeroExtend(address.toString(Base.BINARY)))}`;
+}
+
+export function formatCsr(address: number): string {
+  // A CSR's name, or its address if it has none
+  const name: string | undefined = Array.from(STRINGS_TO_CSRS.keys())
+    .find((csrName: string) => STRINGS_TO_CSRS.get(csrName) == address);
+  return name ?? `0x${address.toString(Base.HEXADECIMAL)}`;
+}
+
+export function dataSegmentBase(memorySize: number): number {
+  // The text segment takes the lower half of memory and the data segment the upper half, starting on a doubleword
+  return Math.floor(memorySize / 16) * 8;
+}
+
+export function setXlen(xlen: number): void {
+  // Registers already hold XLEN-bit values, so a machine has to be reset after the width changes
+  XLEN = xlen;
+}
+
+export function describeTrapCause(mcause: number): string | undefined {
+  // What a value of mcause means, such as "illegal instruction" or "timer interrupt"
+  return (mcause & MCAUSE_INTERRUPT) != 0
+    ? INTERRUPT_CAUSE_DESCRIPTIONS.get((mcause & ~MCAUSE_INTERRUPT) >>> 0)
+    : EXCEPTION_CAUSE_DESCRIPTIONS.get(mcause);
+}
+
+export function binaryToOctal(binVal: string): string {
   let octVal = "";
   const binValCleaned: string = zeroExtend(
     binVal,
@@ -529,64 +1449,21 @@ function binaryToOctal(binVal: string): string {
   return octVal;
 }
 
-function setRegisterBase(base: number) {
-  registerBase = [
-    Base.BINARY,
-    Base.OCTAL,
-    Base.DECIMAL,
-    Base.HEXADECIMAL,
-  ].includes(base)
-    ? base
-    : Base.DECIMAL;
-}
-
-function updateRegisterDisplays() {
-  registerDisplays.forEach((registerDisplay, i) => {
-    if (registerBase == Base.BINARY) {
-      registerDisplay.textContent = `0b${registers.get(i)!}`;
-    } else if (registerBase == Base.OCTAL) {
-      registerDisplay.textContent = `0o${binaryToOctal(registers.get(i)!)}`;
-    } else if (registerBase == Base.HEXADECIMAL) {
-      registerDisplay.textContent = `0x${binaryToHex(registers.get(i)!)}`;
-    } else {
-      registerDisplay.textContent = `${twosComplementToDecimal(registers.get(i)!)}`;
-    }
-  });
-}
-
-function setRegister(
-  rd: string,
-  val: string,
-  extendFunc: Function = signExtend,
-): void {
-  const register: number = STRINGS_TO_REGISTERS.get(rd)!;
-  let valCleaned: string = (register == 0) ? "0" : val;
-  if (valCleaned.length != 32) {
-    valCleaned = extendFunc(valCleaned);
-  }
-  registers.set(register, valCleaned);
-  updateRegisterDisplays();
-}
-
-function zeroExtend(bits: string, len: number = XLEN): string {
+export function zeroExtend(bits: string, len: number = XLEN): string {
   return bits.padStart(len, "0");
 }
 
-function signExtend(bits: string, len: number = XLEN): string {
+export function signExtend(bits: string, len: number = XLEN): string {
   return bits.padStart(len, bits.charAt(0));
 }
 
-function getValueInRegister(reg: string): string | undefined {
-  return Array.from(STRINGS_TO_REGISTERS.keys()).includes(reg)
-    ? registers.get(STRINGS_TO_REGISTERS.get(reg)!)! : undefined;
+export function registerPositionInBinary(reg: string): string | undefined {
+  // x and f registers have different names, so either can be looked up
+  const register: number | undefined = STRINGS_TO_REGISTERS.get(reg) ?? STRINGS_TO_FLOAT_REGISTERS.get(reg);
+  return register != undefined ? zeroExtend(register.toString(Base.BINARY), 5) : undefined;
 }
 
-function registerPositionInBinary(reg: string): string | undefined {
-  return Array.from(STRINGS_TO_REGISTERS.keys()).includes(reg)
-    ? zeroExtend(STRINGS_TO_REGISTERS.get(reg)!.toString(Base.BINARY), 5) : undefined;
-}
-
-function decimalToTwosComplement(
+export function decimalToTwosComplement(
   val: number,
   numDigits: number = XLEN,
 ): string {
@@ -606,7 +1483,7 @@ function decimalToTwosComplement(
   return chars.join("").slice(-numDigits);
 }
 
-function twosComplementToDecimal(bits: string): number {
+export function twosComplementToDecimal(bits: string): number {
   if (bits[0] === "1") {
     let invertedBits: string = bits
       .split("")
@@ -619,35 +1496,67 @@ function twosComplementToDecimal(bits: string): number {
   }
 }
 
-function binaryAdd(
-  op1: string,
-  op2: string,
-  extendFunc: Function = signExtend,
-): string {
-  let [carry, sum, len] = [0, "", Math.max(op1.length, op2.length)];
-  const [cleanedOp1, cleanedOp2] = [extendFunc(op1, len), extendFunc(op2, len)];
-  for (let i = len - 1; i >= 0; i--) {
-    let [num1, num2] = [cleanedOp1.charAt(i), cleanedOp2.charAt(i)];
-    let decSum: number = parseInt(num1) + parseInt(num2) + Number(carry);
-    sum = (decSum % 2 == 0 ? "0" : "1") + sum;
-    carry = decSum >= 2 ? 1 : 0;
+export function toLittleEndianBytes(bits: string): string[] {
+  /**
+   * Splits a value into its bytes, least significant byte first.
+   *
+   * @param bits - The bits of the value (a multiple of 8 long), most significant bit first
+   * @returns The 8-bit strings of each byte in the order they are stored in memory
+   */
+  const bytes: string[] = [];
+  for (let end: number = bits.length; end > 0; end -= 8) {
+    bytes.push(bits.slice(end - 8, end));
+  }
+  return bytes;
+}
+
+export function lowerImmediate(value: number): number {
+  /**
+   * Finds the sign-extended lower 12 bits of a 32-bit value, as added by an
+   * ADDI (or load, store or JALR) after a LUI or AUIPC of upperImmediate(value).
+   */
+  return ((value & 0xfff) ^ 0x800) - 0x800;
+}
+
+export function upperImmediate(value: number): number {
+  /**
+   * Finds the 20-bit immediate for LUI or AUIPC which, once the sign-extended
+   * lowerImmediate(value) is added to it, gives back the value. It is rounded
+   * up when the lower part is negative.
+   */
+  return ((value - lowerImmediate(value)) >>> 12) & 0xfffff;
+}
+
+export function immediateFieldOf(instructionInfo: InstructionInfo): ImmediateField | undefined {
+  /**
+   * Finds the field an instruction's immediate is encoded in, which depends on
+   * the instruction's opcode. Pseudo-instructions use the field of the base
+   * instruction they are encoded as, e.g. LA has the 12-bit immediate of ADDI.
+   *
+   * @param instructionInfo - The information for the instruction
+   * @returns The immediate field, or undefined if the instruction has no immediate
+   */
+  const decodeInfo: InstructionDecodeInfo = instructionInfo.decodeInfo!;
+  if (decodeInfo.opcode === OP_IMM_OPCODE && decodeInfo.funct7 != undefined) {
+    return XLEN == 64 ? WIDE_SHIFT_AMOUNT : SHIFT_AMOUNT;
+  } else if (decodeInfo.opcode === OP_IMM_32_OPCODE && decodeInfo.funct7 != undefined) {
+    return SHIFT_AMOUNT;
   }
-  return sum;
+  return IMMEDIATE_FIELDS.get(decodeInfo.opcode);
 }
 
-function binarySub(
-  op1: string,
-  op2: string,
-  extendFunc: Function = signExtend,
-): string {
-  const len: number = Math.max(op1.length, op2.length);
-  const cleanedOp2: string = extendFunc(op2, len);
-  const op2Minus: string[] = binaryAdd(cleanedOp2, "1", signExtend).split("");
-  let negOp2: string[] = [];
-  for (let i = len - 1; i >= 0; i--) {
-    negOp2[i] = (op2Minus[i] == "0") ? "1" : "0";
-  }
-  return binaryAdd(op1, negOp2.join(""));
+export function truncateImmediate(value: number, field: ImmediateField): number {
+  /**
+   * Keeps only the part of an immediate which its field can hold, the same way
+   * the instruction's encoding drops the rest of the bits.
+   *
+   * @param value - The immediate, which must fit in XLEN bits
+   * @param field - The field the immediate is encoded in
+   * @returns The value the encoded immediate stands for
+   */
+  const fieldBits: string = decimalToTwosComplement(value).slice(-field.bits);
+  const truncated: number = field.min < 0 ? twosComplementToDecimal(fieldBits) : parseInt(fieldBits, Base.BINARY);
+  return Math.floor(truncated / field.multipleOf) * field.multipleOf;
 }
 
 /*** Instruction Decoding Functions ***/
@@ -663,57 +1572,23 @@ function iTypeDecode(inputParams: InstructionInput, instructionName: string): st
   );
 }
 
-function mv_decode(inputParams: InstructionInput): string {
-  inputParams.imm = 0;
-  return iTypeDecode(inputParams, "ADDI");
-}
-
-function nop_decode(inputParams: InstructionInput): string {
-  inputParams.rd = "x0";
-  inputParams.rs1 = "x0";
-  inputParams.imm = 0;
-  return iTypeDecode(inputParams, "NOP");
-}
-
-function slli_decode(inputParams: InstructionInput): string {
-  const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get("SLLI")!;
-  return (
-    "0".repeat(7)
-    + decimalToTwosComplement(Number(inputParams.imm)).slice(-5) // imm
-    + registerPositionInBinary(inputParams.rs1)! //rs
-    + instructionInfo.decodeInfo!.funct3! // funct3
-    + registerPositionInBinary(inputParams.rd)! // rd
-    + instructionInfo.decodeInfo!.opcode!  // opcode
-  );
-}
-
-function srli_decode(inputParams: InstructionInput): string {
-  const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get("SRLI")!;
-  return (
-    "0".repeat(7)
-    + decimalToTwosComplement(Number(inputParams.imm)).slice(-5) // imm
-    + registerPositionInBinary(inputParams.rs1)! //rs
-    + instructionInfo.decodeInfo!.funct3! // funct3
-    + registerPositionInBinary(inputParams.rd)! // rd
-    + instructionInfo.decodeInfo!.opcode!  // opcode
-  );
-}
-
-function srai_decode(inputParams: InstructionInput): string {
-  const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get("SRLI")!;
+function shiftImmediateDecode(inputParams: InstructionInput, instructionName: string): string {
+  // RV64I's shifts of a whole register keep the top bit of their 6-bit shift amount in the lowest bit of funct7
+  const decodeInfo: InstructionDecodeInfo = INSTRUCTION_TO_INFO.get(instructionName)!.decodeInfo!;
+  const shiftAmountBits: number = immediateFieldOf(INSTRUCTION_TO_INFO.get(instructionName)!)!.bits;
   return (
-    "01" + "0".repeat(5)
-    + decimalToTwosComplement(Number(inputParams.imm)).slice(-5) // imm
+    decodeInfo.funct7!.slice(0, 12 - shiftAmountBits)
+    + decimalToTwosComplement(Number(inputParams.imm)).slice(-shiftAmountBits) // imm
     + registerPositionInBinary(inputParams.rs1)! //rs
-    + instructionInfo.decodeInfo!.funct3! // funct3
+    + decodeInfo.funct3! // funct3
     + registerPositionInBinary(inputParams.rd)! // rd
-    + instructionInfo.decodeInfo!.opcode!  // opcode
+    + decodeInfo.opcode!  // opcode
   );
 }
 
 function uTypeDecode(inputParams: InstructionInput, instructionName: string) {
   return (
-    decimalToTwosComplement(Number(inputParams.imm)).slice(0, 20)
+    decimalToTwosComplement(Number(inputParams.imm)).slice(-20)
     + registerPositionInBinary(inputParams.rd)!
     + INSTRUCTION_TO_INFO.get(instructionName)!.decodeInfo!.opcode
   );
@@ -732,39 +1607,89 @@ function rTypeDecode(inputParams: InstructionInput, instructionName: string): st
 }
 
 function jal_decode(inputParams: InstructionInput): string {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-20);
+  // offset bits 20 down to 0, so immBin.charAt(i) holds bit (20 - i)
+  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-21);
   const decodeInfo: InstructionDecodeInfo =
     INSTRUCTION_TO_INFO.get("JAL")!.decodeInfo!;
   return (
-    immBin.charAt(19)
-    + immBin.slice(0, 9)
-    + immBin.charAt(10)
-    + immBin.slice(11, 18)
-    + getValueInRegister(inputParams.rd)!
+    immBin.charAt(0) // imm[20]
+    + immBin.slice(10, 20) // imm[10:1]
+    + immBin.charAt(9) // imm[11]
+    + immBin.slice(1, 9) // imm[19:12]
+    + registerPositionInBinary(inputParams.rd)!
     + decodeInfo.opcode
   );
 }
 
-function j_decode(inputParams: InstructionInput): string {
-  inputParams.rd = "x0";
-  return jal_decode(inputParams);
+function bTypeDecode(inputParams: InstructionInput, instructionName: string): string {
+  // offset bits 12 down to 0, so immBin.charAt(i) holds bit (12 - i)
+  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-13);
+  const decodeInfo: InstructionDecodeInfo = INSTRUCTION_TO_INFO.get(instructionName)!.decodeInfo!;
+  return (
+    immBin.charAt(0) // imm[12]
+    + immBin.slice(2, 8) // imm[10:5]
+    + registerPositionInBinary(inputParams.rs2)!
+    + registerPositionInBinary(inputParams.rs1)!
+    + decodeInfo.funct3!
+    + immBin.slice(8, 12) // imm[4:1]
+    + immBin.charAt(1) // imm[11]
+    + decodeInfo.opcode
+  );
 }
 
-function bTypeDecode(inputParams: InstructionInput, instructionName: string): string {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
+function floatTypeDecode(inputParams: InstructionInput, instructionName: string): string {
+  /**
+   * Encodes an instruction of the F extension's R-type format. Instructions
+   * with a single source register have a fixed rs2 field, given with funct7 as
+   * their funct12, and those which round their result hold the rounding mode
+   * in funct3.
+   */
   const decodeInfo: InstructionDecodeInfo = INSTRUCTION_TO_INFO.get(instructionName)!.decodeInfo!;
   return (
-    immBin.charAt(0)
-    + immBin.slice(2, 7)
+    (decodeInfo.funct12 ?? decodeInfo.funct7! + registerPositionInBinary(inputParams.rs2)!)
+    + registerPositionInBinary(inputParams.rs1)!
+    + (decodeInfo.funct3 ?? zeroExtend(inputParams.rm.toString(Base.BINARY), 3))
+    + registerPositionInBinary(inputParams.rd)!
+    + decodeInfo.opcode
+  );
+}
+
+function r4TypeDecode(inputParams: InstructionInput, instructionName: string): string {
+  return (
+    registerPositionInBinary(inputParams.rs3)!
+    + "00" // fmt, single precision
     + registerPositionInBinary(inputParams.rs2)!
     + registerPositionInBinary(inputParams.rs1)!
+    + zeroExtend(inputParams.rm.toString(Base.BINARY), 3)
+    + registerPositionInBinary(inputParams.rd)!
+    + INSTRUCTION_TO_INFO.get(instructionName)!.decodeInfo!.opcode
+  );
+}
+
+function systemDecode(instructionName: string): string {
+  const decodeInfo: InstructionDecodeInfo = INSTRUCTION_TO_INFO.get(instructionName)!.decodeInfo!;
+  return (
+    decodeInfo.funct12!
+    + "0".repeat(5) // rs1
     + decodeInfo.funct3!
-    + immBin.slice(7, 11)
-    + immBin.charAt(1)
+    + "0".repeat(5) // rd
     + decodeInfo.opcode
   );
 }
 
+function csrTypeDecode(inputParams: InstructionInput, instructionName: string): string {
+  const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get(instructionName)!;
+  return (
+    zeroExtend(inputParams.csr.toString(Base.BINARY), 12)
+    + (instructionInfo.instructionFormat == CSR_IMMEDIATE_TYPE
+      ? zeroExtend(inputParams.imm.toString(Base.BINARY), 5) // the immediate takes the place of rs1
+      : registerPositionInBinary(inputParams.rs1)!)
+    + instructionInfo.decodeInfo!.funct3!
+    + registerPositionInBinary(inputParams.rd)!
+    + instructionInfo.decodeInfo!.opcode
+  );
+}
+
 function sTypeDecode(inputParams: InstructionInput, instructionName: string): string {
   const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
   const decodeInfo: InstructionDecodeInfo = INSTRUCTION_TO_INFO.get(instructionName)!.decodeInfo!;
@@ -778,537 +1703,940 @@ function sTypeDecode(inputParams: InstructionInput, instructionName: string): st
   );
 }
 
-/*** Instruction Execution Functions ***/
+/*** Machine Code Decoding Functions ***/
 
-function addi(inputParams: InstructionInput): void {
-  const binarySum: string = binaryAdd(
-    decimalToTwosComplement(inputParams.imm).slice(-12),
-    getValueInRegister(inputParams.rs1)!,
-    signExtend
-  );
-  setRegister(inputParams.rd, binarySum);
+function encodingKey(
+  opcode: string,
+  funct3: string | undefined,
+  funct7: string | undefined,
+  funct12: string | undefined = undefined,
+): string {
+  return `${opcode}/${funct3 ?? ""}/${funct7 ?? ""}/${funct12 ?? ""}`;
+}
+
+function registerNameFromBinary(bits: string, prefix: string = "x"): string {
+  return `${prefix}${parseInt(bits, Base.BINARY)}`;
+}
+
+export function decodeInstructionWord(word: string): DecodedInstruction | undefined {
+  /**
+   * Identifies the instruction encoded in a 32-bit word and extracts its operands.
+   *
+   * The instruction is looked up by its opcode, funct3, funct7 and funct12 fields
+   * (the same fields as its InstructionDecodeInfo). Instructions which don't use
+   * every field are matched on the fields they do use, and the operands
+   * are then pulled out according to the instruction's format. Floating-point
+   * instructions which round their result take their rounding mode from funct3.
+   *
+   * @param word - The 32-bit encoding, most significant bit first
+   * @returns The instruction name and operands, or undefined if the word is not a known instruction
+   */
+  // word.charAt(i) holds bit (31 - i) of the instruction
+  const opcode: string = word.slice(25, 32);
+  const funct3: string = word.slice(17, 20);
+  // RV64I's shifts by an immediate use the lowest bit of funct7 for their shift amount
+  const funct7: string = opcode === OP_IMM_OPCODE && XLEN == 64 ? word.slice(0, 6) + "0" : word.slice(0, 7);
+  const funct12: string = word.slice(0, 12);
+  const instructionName: string | undefined =
+    ENCODING_TO_INSTRUCTION.get(encodingKey(opcode, funct3, undefined, funct12))
+    ?? ENCODING_TO_INSTRUCTION.get(encodingKey(opcode, undefined, undefined, funct12))
+    ?? ENCODING_TO_INSTRUCTION.get(encodingKey(opcode, funct3, funct7))
+    ?? ENCODING_TO_INSTRUCTION.get(encodingKey(opcode, undefined, funct7))
+    ?? ENCODING_TO_INSTRUCTION.get(encodingKey(opcode, funct3, undefined))
+    ?? ENCODING_TO_INSTRUCTION.get(encodingKey(opcode, undefined, undefined));
+  if (instructionName == undefined) {
+    return undefined;
+  }
+
+  const rd: string = registerNameFromBinary(word.slice(20, 25));
+  const rs1: string = registerNameFromBinary(word.slice(12, 17));
+  const rs2: string = registerNameFromBinary(word.slice(7, 12));
+  const [frd, frs1, frs2, frs3] = [word.slice(20, 25), word.slice(12, 17), word.slice(7, 12), word.slice(0, 5)]
+    .map((bits: string) => registerNameFromBinary(bits, "f"));
+  const instructionInfo: InstructionInfo = INSTRUCTION_TO_INFO.get(instructionName)!;
+  const inputParams: InstructionInput = {
+    rd: "", rs1: "", rs2: "", rs3: "", imm: 0, rm: RoundingMode.DYNAMIC, csr: 0,
+  };
+  if (instructionInfo.roundingMode) {
+    inputParams.rm = parseInt(funct3, Base.BINARY);
+  }
+  switch (instructionInfo.instructionFormat) {
+    case I_TYPE:
+      [inputParams.rd, inputParams.rs1] = [rd, rs1];
+      inputParams.imm = twosComplementToDecimal(word.slice(0, 12));
+      break;
+    case S_TYPE:
+      [inputParams.rs1, inputParams.rs2] = [rs1, rs2];
+      inputParams.imm = twosComplementToDecimal(word.slice(0, 7) + word.slice(20, 25));
+      break;
+    case R_TYPE:
+      [inputParams.rd, inputParams.rs1, inputParams.rs2] = [rd, rs1, rs2];
+      break;
+    case U_TYPE:
+      inputParams.rd = rd;
+      inputParams.imm = twosComplementToDecimal(word.slice(0, 20));
+      break;
+    case B_TYPE:
+      [inputParams.rs1, inputParams.rs2] = [rs1, rs2];
+      inputParams.imm = twosComplementToDecimal(
+        word.charAt(0) // imm[12]
+        + word.charAt(24) // imm[11]
+        + word.slice(1, 7) // imm[10:5]
+        + word.slice(20, 24) // imm[4:1]
+        + "0"
+      );
+      break;
+    case J_TYPE:
+      inputParams.rd = rd;
+      inputParams.imm = twosComplementToDecimal(
+        word.charAt(0) // imm[20]
+        + word.slice(12, 20) // imm[19:12]
+        + word.charAt(11) // imm[11]
+        + word.slice(1, 11) // imm[10:1]
+        + "0"
+      );
+      break;
+    case FLOAT_LOAD_TYPE:
+      [inputParams.rd, inputParams.rs1] = [frd, rs1];
+      inputParams.imm = twosComplementToDecimal(word.slice(0, 12));
+      break;
+    case FLOAT_STORE_TYPE:
+      [inputParams.rs1, inputParams.rs2] = [rs1, frs2];
+      inputParams.imm = twosComplementToDecimal(word.slice(0, 7) + word.slice(20, 25));
+      break;
+    case FLOAT_R_TYPE:
+      [inputParams.rd, inputParams.rs1, inputParams.rs2] = [frd, frs1, frs2];
+      break;
+    case FLOAT_R4_TYPE:
+      [inputParams.rd, inputParams.rs1, inputParams.rs2, inputParams.rs3] = [frd, frs1, frs2, frs3];
+      break;
+    case FLOAT_UNARY_TYPE:
+      [inputParams.rd, inputParams.rs1] = [frd, frs1];
+      break;
+    case FLOAT_COMPARE_TYPE:
+      [inputParams.rd, inputParams.rs1, inputParams.rs2] = [rd, frs1, frs2];
+      break;
+    case FLOAT_TO_INTEGER_TYPE:
+      [inputParams.rd, inputParams.rs1] = [rd, frs1];
+      break;
+    case INTEGER_TO_FLOAT_TYPE:
+      [inputParams.rd, inputParams.rs1] = [frd, rs1];
+      break;
+    case CSR_TYPE:
+      [inputParams.rd, inputParams.rs1] = [rd, rs1];
+      inputParams.csr = parseInt(word.slice(0, 12), Base.BINARY);
+      break;
+    case CSR_IMMEDIATE_TYPE:
+      inputParams.rd = rd;
+      inputParams.imm = parseInt(word.slice(12, 17), Base.BINARY);
+      inputParams.csr = parseInt(word.slice(0, 12), Base.BINARY);
+      break;
+  }
+  return { instructionName: instructionName, inputParams: inputParams };
 }
 
-function mv(inputParams: InstructionInput): void {
-  inputParams.imm = 0;
-  addi(inputParams);
+/*** Environment Call Functions ***/
+
+function loadString(machine: Machine, address: number): string {
+  const bytes: number[] = [];
+  for (let byte: number = Number(machine.loadFromMemory(address, 1)); byte != 0;) {
+    bytes.push(byte);
+    address++;
+    byte = Number(machine.loadFromMemory(address, 1));
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
 }
 
-function nop(inputParams: InstructionInput): void {
-  inputParams.rd = "x0";
-  inputParams.rs1 = "x0";
-  inputParams.imm = 0;
-  addi(inputParams);
+function ecall(machine: Machine, inputParams: InstructionInput): void {
+  /**
+   * Performs the environment call selected by register a7, taking its arguments
+   * from a0 and a1 and returning any result in a0. A program with a trap
+   * handler handles its environment calls itself.
+   */
+  if (machine.hasTrapHandler()) {
+    throw new Trap(ExceptionCause.ECALL_FROM_M_MODE, "ECALL was not handled.");
+  }
+  machine.recordEnvironment();
+  const syscall: number = Number(machine.getRegister("a7"));
+  const a0: bigint = machine.getRegister("a0");
+  switch (syscall) {
+    case Syscall.PRINT_INT:
+      machine.writeConsole(a0.toString());
+      break;
+    case Syscall.PRINT_STRING:
+      machine.writeConsole(loadString(machine, Number(BigInt.asUintN(XLEN, a0))));
+      break;
+    case Syscall.PRINT_CHAR:
+      machine.writeConsole(String.fromCharCode(Number(BigInt.asUintN(8, a0))));
+      break;
+    case Syscall.READ_INT: {
+      const line: string = machine.readConsoleLine();
+      const value: number = parseInt(line);
+      if (Number.isNaN(value)) {
+        throw new Error(`The input "${line}" is not a number.`);
+      }
+      machine.setRegister("a0", BigInt(value));
+      break;
+    }
+    case Syscall.READ_STRING: {
+      // a0 holds the buffer address and a1 its size, which includes the terminating zero byte
+      const bufferSize: number = Number(machine.getRegister("a1"));
+      if (bufferSize < 1) { break; }
+      const bytes: Uint8Array = new TextEncoder().encode(machine.readConsoleLine() + "\n").slice(0, bufferSize - 1);
+      const bufferAddress: number = Number(BigInt.asUintN(XLEN, a0));
+      bytes.forEach((byte: number, i: number) => {
+        machine.storeToMemory(bufferAddress + i, BigInt(byte), 1);
+      });
+      machine.storeToMemory(bufferAddress + bytes.length, ZERO, 1);
+      break;
+    }
+    case Syscall.SBRK: {
+      const increment: number = Number(a0);
+      if (increment < 0 || machine.heapBreak + increment > machine.memory.length) {
+        throw new Error(
+          `SBRK cannot allocate ${increment} bytes: only ${machine.memory.length - machine.heapBreak} bytes of memory are free.`,
+        );
+      }
+      machine.setRegister("a0", BigInt(machine.heapBreak));
+      machine.heapBreak += increment;
+      break;
+    }
+    case Syscall.EXIT:
+      machine.exitCode = 0;
+      break;
+    case Syscall.EXIT2:
+    case Syscall.EXIT2_VENUS:
+      machine.exitCode = Number(a0);
+      break;
+    default:
+      throw new Error(`ECALL ${syscall} (the value in register a7) is not a supported environment call.`);
+  }
 }
 
-function slti(inputParams: InstructionInput): void {
-  const isLessThan: boolean = (
-    twosComplementToDecimal(getValueInRegister(inputParams.rs1)!)
-    < twosComplementToDecimal(decimalToTwosComplement(inputParams.imm).slice(-12))
-  );
-  setRegister(inputParams.rd, isLessThan ? "1" : "0", zeroExtend);
+function ebreak(machine: Machine, inputParams: InstructionInput): void {
+  // Without a trap handler, EBREAK stops execution like a breakpoint
+  if (machine.hasTrapHandler()) {
+    throw new Trap(ExceptionCause.BREAKPOINT, "EBREAK was not handled.", machine.pc);
+  }
+  machine.breakRequested = true;
 }
 
-function sltiu(inputParams: InstructionInput): void {
-  const isLessThanUnsigned: boolean = (
-    parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY)
-    < parseInt(decimalToTwosComplement(inputParams.imm).slice(-12), Base.BINARY)
-  );
-  setRegister(inputParams.rd, isLessThanUnsigned ? "1" : "0", zeroExtend);
+function mret(machine: Machine, inputParams: InstructionInput): void {
+  // Returns from the trap handler to mepc, restoring whether interrupts were enabled
+  const mstatus: number = machine.getCsr(CSR_MSTATUS);
+  const interruptsWereEnabled: boolean = (mstatus & MSTATUS_MPIE) != 0;
+  machine.setCsr(CSR_MSTATUS, (mstatus & ~MSTATUS_MIE) | MSTATUS_MPIE | (interruptsWereEnabled ? MSTATUS_MIE : 0));
+  machine.setRegister("pc", BigInt(machine.getCsr(CSR_MEPC)));
 }
 
-function seqz(inputParams: InstructionInput): void {
-  inputParams.imm = 1;
-  sltiu(inputParams);
+function wfi(machine: Machine, inputParams: InstructionInput): void {
+  // Waits until an interrupt is pending, which it then leaves for the machine to take
+  machine.waitForInterrupt();
 }
 
-function andi(inputParams: InstructionInput): void {
-  const immBits: string[] = decimalToTwosComplement(Number(inputParams.imm)).slice(-12).split("");
-  const sourceBits: string[] = getValueInRegister(inputParams.rs1)!.split("");
-  const resultBits: string[] = [];
-  for (let i: number = 0; i < XLEN; i++) {
-    resultBits[i] = ((immBits[i] === "1") && (sourceBits[i] === "1")) ? "1" : "0";
-  }
-  setRegister(inputParams.rd, resultBits.join(""));
-}
-
-function ori(inputParams: InstructionInput): void {
-  const immBits: string[] =
-    decimalToTwosComplement(Number(inputParams.imm))
-      .slice(-12)
-      .split("");
-  const sourceBits: string[] = getValueInRegister(inputParams.rs1)!.split("");
-  const resultBits: string[] = [];
-  for (let i: number = 0; i < XLEN; i++) {
-    resultBits[i] = ((immBits[i] === "1") || (sourceBits[i] === "1")) ? "1" : "0";
+/*** Zicsr Functions ***/
+
+function readWriteCsr(
+  machine: Machine,
+  inputParams: InstructionInput,
+  source: number,
+  writes: boolean,
+  newValue: (oldValue: number, source: number) => number,
+): void {
+  /**
+   * Reads a CSR into rd and writes a new value, worked out from its old value
+   * and the source operand, back to it. CSRRS and CSRRC don't write the CSR at
+   * all when their source is x0 or 0, so they can read read-only CSRs.
+   *
+   * @param machine - The machine executing the instruction
+   * @param inputParams - The instruction's operands
+   * @param source - The value of rs1, or the immediate
+   * @param writes - Whether the CSR is written
+   * @param newValue - Works out the value to write
+   */
+  const oldValue: number = machine.getCsr(inputParams.csr);
+  if (writes) {
+    machine.setCsr(inputParams.csr, newValue(oldValue, source) >>> 0);
   }
-  setRegister(inputParams.rd, resultBits.join(""));
+  machine.setRegister(inputParams.rd, BigInt(oldValue));
 }
 
-function xori(inputParams: InstructionInput): void {
-  const immBits: string[] = decimalToTwosComplement(inputParams.imm, 12).split("");
-  const sourceBits: string[] = getValueInRegister(inputParams.rs1)!.split("");
-  const resultBits: string[] = [];
-  for (let i: number = 0; i < XLEN; i++) {
-    resultBits[i] = !(immBits[i] === sourceBits[i]) ? "1" : "0";
-  }
-  setRegister(inputParams.rd, resultBits.join(""));
+function csrSource(machine: Machine, inputParams: InstructionInput): number {
+  // CSRs are 32 bits wide even in RV64I, so only the lower word of rs1 is written
+  return Number(registerAsBigInt(machine, inputParams.rs1, false, 32));
 }
 
-function not(inputParams: InstructionInput): void {
-  inputParams.imm = -1;
-  xori(inputParams);
+function csrrw(machine: Machine, inputParams: InstructionInput): void {
+  readWriteCsr(machine, inputParams, csrSource(machine, inputParams), true, (_, source: number) => source);
 }
 
-function slli(inputParams: InstructionInput): void {
-  const immBits: string = decimalToTwosComplement(Number(inputParams.imm)).slice(-5);
-  const result: string = (
-    getValueInRegister(inputParams.rs1)!
-    + "0".repeat(parseInt(immBits, Base.BINARY))
-  ).slice(-XLEN);
-  setRegister(inputParams.rd, result);
+function csrrs(machine: Machine, inputParams: InstructionInput): void {
+  const writes: boolean = STRINGS_TO_REGISTERS.get(inputParams.rs1) != 0;
+  readWriteCsr(machine, inputParams, csrSource(machine, inputParams), writes, (oldValue, source) => oldValue | source);
 }
 
-function srli(inputParams: InstructionInput): void {
-  const immBits: string = decimalToTwosComplement(Number(inputParams.imm)).slice(-5);
-  const result: string = (
-    "0".repeat(parseInt(immBits, Base.BINARY))
-    + registers.get(STRINGS_TO_REGISTERS.get(inputParams.rs1)!)!
-  ).slice(0, XLEN);
-  setRegister(inputParams.rd, result);
+function csrrc(machine: Machine, inputParams: InstructionInput): void {
+  const writes: boolean = STRINGS_TO_REGISTERS.get(inputParams.rs1) != 0;
+  readWriteCsr(machine, inputParams, csrSource(machine, inputParams), writes, (oldValue, source) => oldValue & ~source);
 }
 
-function srai(inputParams: InstructionInput): void {
-  const immVal: number = parseInt(inputParams.imm.toString(Base.BINARY).slice(-5), Base.BINARY);
-  const sourceBits: string = registers.get(STRINGS_TO_REGISTERS.get(inputParams.rs1)!)!;
-  let result: string = "";
-  if (sourceBits[0] === "0") {
-    result = ("1".repeat(immVal) + sourceBits).slice(0, XLEN);
-  } else {
-    result = ("0".repeat(immVal) + sourceBits).slice(0, XLEN);
-  }
-  setRegister(inputParams.rd, result);
+function csrrwi(machine: Machine, inputParams: InstructionInput): void {
+  readWriteCsr(machine, inputParams, inputParams.imm, true, (_, source: number) => source);
 }
 
-function lui(inputParams: InstructionInput): void {
-  setRegister(
-    inputParams.rd,
-    decimalToTwosComplement(Number(inputParams.imm)).slice(0, 20) + "0".repeat(12)
-  );
+function csrrsi(machine: Machine, inputParams: InstructionInput): void {
+  readWriteCsr(machine, inputParams, inputParams.imm, inputParams.imm != 0, (oldValue, source) => oldValue | source);
 }
 
-function auipc(inputParams: InstructionInput): void {
-  setRegister(
-    inputParams.rd,
-    binaryAdd(
-      decimalToTwosComplement(Number(inputParams.imm)).slice(0, 20) + "0".repeat(12),
-      getValueInRegister("pc")!
-    )
-  );
+function csrrci(machine: Machine, inputParams: InstructionInput): void {
+  readWriteCsr(machine, inputParams, inputParams.imm, inputParams.imm != 0, (oldValue, source) => oldValue & ~source);
 }
 
-function add(inputParams: InstructionInput): void {
-  const sumValue: string = binaryAdd(
-    getValueInRegister(inputParams.rs1)!,
-    getValueInRegister(inputParams.rs2)!
-  );
-  setRegister(inputParams.rd, sumValue);
+/*** Instruction Execution Functions ***/
+
+// Registers hold BigInts sign-extended from XLEN bits, so signed comparisons work on them directly, and
+// setRegister keeps the lowest XLEN bits of a result. BigInt literals need ES2020, so common values are made here
+const ZERO: bigint = BigInt(0);
+const ONE: bigint = BigInt(1);
+const UPPER_IMMEDIATE_SHIFT: bigint = BigInt(12);
+
+function registerAsBigInt(machine: Machine, reg: string, signed: boolean, width: number = XLEN): bigint {
+  // The lowest width bits of the register are read, which lets word instructions read the lower 32
+  const value: bigint = machine.getRegister(reg);
+  return signed ? BigInt.asIntN(width, value) : BigInt.asUintN(width, value);
 }
 
-function sub(inputParams: InstructionInput): void {
-  const subValue: string = binarySub(
-    getValueInRegister(inputParams.rs1)!,
-    getValueInRegister(inputParams.rs2)!
-  );
-  setRegister(inputParams.rd, subValue);
+function setRegisterFromBigInt(machine: Machine, rd: string, value: bigint, width: number = XLEN): void {
+  // Only the lowest width bits of the result are kept, and sign-extended if that is narrower than XLEN
+  machine.setRegister(rd, BigInt.asIntN(width, value));
+}
+
+function addi(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) + BigInt(inputParams.imm));
+}
+
+function slti(machine: Machine, inputParams: InstructionInput): void {
+  const isLessThan: boolean = machine.getRegister(inputParams.rs1) < BigInt(inputParams.imm);
+  machine.setRegister(inputParams.rd, isLessThan ? ONE : ZERO);
 }
 
-function slt(inputParams: InstructionInput): void {
-  const isLessThan: boolean = (
-    twosComplementToDecimal(getValueInRegister(inputParams.rs1)!)
-    < twosComplementToDecimal(getValueInRegister(inputParams.rs2)!)
+function sltiu(machine: Machine, inputParams: InstructionInput): void {
+  // The immediate is sign-extended before both are compared as unsigned numbers
+  const isLessThanUnsigned: boolean = (
+    registerAsBigInt(machine, inputParams.rs1, false) < BigInt.asUintN(XLEN, BigInt(inputParams.imm))
   );
-  setRegister(inputParams.rd, isLessThan ? "1" : "0", zeroExtend);
+  machine.setRegister(inputParams.rd, isLessThanUnsigned ? ONE : ZERO);
+}
+
+function andi(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) & BigInt(inputParams.imm));
+}
+
+function ori(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) | BigInt(inputParams.imm));
+}
+
+function xori(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) ^ BigInt(inputParams.imm));
+}
+
+function shiftAmount(amount: bigint, width: number = XLEN): bigint {
+  // Shifts only use as many of the lowest bits of their shift amount as it takes to count to width - 1
+  return amount & BigInt(width - 1);
+}
+
+function slli(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(BigInt(inputParams.imm));
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) << amount);
+}
+
+function srli(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(BigInt(inputParams.imm));
+  machine.setRegister(inputParams.rd, registerAsBigInt(machine, inputParams.rs1, false) >> amount);
+}
+
+function srai(machine: Machine, inputParams: InstructionInput): void {
+  // Shifting a negative BigInt right fills the vacated bits with copies of the sign bit
+  const amount: bigint = shiftAmount(BigInt(inputParams.imm));
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) >> amount);
+}
+
+function lui(machine: Machine, inputParams: InstructionInput): void {
+  // the 20-bit immediate becomes the upper 20 bits of the lower word of rd, which is sign-extended
+  setRegisterFromBigInt(machine, inputParams.rd, BigInt(inputParams.imm) << UPPER_IMMEDIATE_SHIFT, 32);
+}
+
+function auipc(machine: Machine, inputParams: InstructionInput): void {
+  const offset: bigint = BigInt.asIntN(32, BigInt(inputParams.imm) << UPPER_IMMEDIATE_SHIFT);
+  machine.setRegister(inputParams.rd, machine.getRegister("pc") + offset);
+}
+
+function add(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) + machine.getRegister(inputParams.rs2));
 }
 
-function sltz(inputParams: InstructionInput): void {
-  inputParams.rs2 = "x0";
-  slt(inputParams);
+function sub(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) - machine.getRegister(inputParams.rs2));
 }
 
-function sgtz(inputParams: InstructionInput): void {
-  inputParams.rs2 = inputParams.rs1;
-  inputParams.rs1 = "x0";
-  slt(inputParams);
+function slt(machine: Machine, inputParams: InstructionInput): void {
+  const isLessThan: boolean = machine.getRegister(inputParams.rs1) < machine.getRegister(inputParams.rs2);
+  machine.setRegister(inputParams.rd, isLessThan ? ONE : ZERO);
 }
 
-function sltu(inputParams: InstructionInput): void {
+function sltu(machine: Machine, inputParams: InstructionInput): void {
   const isLessThanUnsigned: boolean = (
-    parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY)
-    < parseInt(getValueInRegister(inputParams.rs2)!, Base.BINARY)
+    registerAsBigInt(machine, inputParams.rs1, false) < registerAsBigInt(machine, inputParams.rs2, false)
   );
-  setRegister(inputParams.rd, isLessThanUnsigned ? "1" : "0", zeroExtend);
+  machine.setRegister(inputParams.rd, isLessThanUnsigned ? ONE : ZERO);
 }
 
-function snez(inputParams: InstructionInput): void {
-  inputParams.rs2 = inputParams.rs1;
-  inputParams.rs1 = "x0";
-  sltu(inputParams);
+function and(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) & machine.getRegister(inputParams.rs2));
 }
 
-function and(inputParams: InstructionInput): void {
-  const source1Bits: string[] = getValueInRegister(inputParams.rs1)!.split("");
-  const source2Bits: string[] = getValueInRegister(inputParams.rs2)!.split("");
-  const resultBits: string[] = [];
-  for (let i = 0; i < XLEN; i++) {
-    resultBits[i] = ((source1Bits[i] == "1") && (source2Bits[i] == "1")) ? "1" : "0";
-  }
-  setRegister(inputParams.rd, resultBits.join(""));
+function or(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) | machine.getRegister(inputParams.rs2));
 }
 
-function or(inputParams: InstructionInput): void {
-  const source1Bits: string[] = getValueInRegister(inputParams.rs1)!.split("");
-  const source2Bits: string[] = getValueInRegister(inputParams.rs2)!.split("");
-  const resultBits: string[] = [];
-  for (let i = 0; i < XLEN; i++) {
-    resultBits[i] = ((source1Bits[i] === "1") || (source2Bits[i] === "1")) ? "1" : "0";
-  }
-  setRegister(inputParams.rd, resultBits.join(""));
+function xor(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) ^ machine.getRegister(inputParams.rs2));
 }
 
-function xor(inputParams: InstructionInput): void {
-  const source1Bits: string[] = getValueInRegister(inputParams.rs1)!.split("");
-  const source2Bits: string[] = getValueInRegister(inputParams.rs2)!.split("");
-  const resultBits: string[] = [];
-  for (let i = 0; i < XLEN; i++) {
-    resultBits[i] = !(source1Bits[i] === source2Bits[i]) ? "1" : "0";
-  }
-  setRegister(inputParams.rd, resultBits.join(""));
+function sll(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(machine.getRegister(inputParams.rs2));
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) << amount);
 }
 
-function sll(inputParams: InstructionInput): void {
-  const rs2TruncatedVal: number = parseInt(
-    getValueInRegister(inputParams.rs2)!.slice(-5),
-    Base.BINARY
-  );
-  setRegister(
-    inputParams.rd,
-    (getValueInRegister(inputParams.rs1)! + zeroExtend("0", rs2TruncatedVal)).slice(-XLEN),
-  );
+function srl(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(machine.getRegister(inputParams.rs2));
+  machine.setRegister(inputParams.rd, registerAsBigInt(machine, inputParams.rs1, false) >> amount);
 }
 
-function srl(inputParams: InstructionInput): void {
-  const rs2TruncatedVal: number = parseInt(
-    getValueInRegister(inputParams.rs2)!.slice(-5),
-    Base.BINARY,
-  );
-  setRegister(
-    inputParams.rd,
-    (zeroExtend("0", rs2TruncatedVal) + getValueInRegister(inputParams.rs1)!).substring(0, XLEN),
-  );
+function sra(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(machine.getRegister(inputParams.rs2));
+  machine.setRegister(inputParams.rd, machine.getRegister(inputParams.rs1) >> amount);
 }
 
-function sra(inputParams: InstructionInput): void {
-  const rs2TruncatedVal: number = parseInt(
-    getValueInRegister(inputParams.rs2)!.slice(-5),
-    Base.BINARY,
-  );
-  if (inputParams.rs1[0].localeCompare("0") == 0) {
-    setRegister(
-      inputParams.rd,
-      (zeroExtend("0", rs2TruncatedVal) + getValueInRegister(inputParams.rs1)!).substring(0, XLEN),
-    );
+// RV64I's word instructions calculate with the lower 32 bits of their operands, and sign-extend
+// their 32-bit result into rd
+function addiw(machine: Machine, inputParams: InstructionInput): void {
+  setRegisterFromBigInt(machine, inputParams.rd, machine.getRegister(inputParams.rs1) + BigInt(inputParams.imm), 32);
+}
+
+function slliw(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(BigInt(inputParams.imm), 32);
+  setRegisterFromBigInt(machine, inputParams.rd, machine.getRegister(inputParams.rs1) << amount, 32);
+}
+
+function srliw(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(BigInt(inputParams.imm), 32);
+  setRegisterFromBigInt(machine, inputParams.rd, registerAsBigInt(machine, inputParams.rs1, false, 32) >> amount, 32);
+}
+
+function sraiw(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(BigInt(inputParams.imm), 32);
+  setRegisterFromBigInt(machine, inputParams.rd, registerAsBigInt(machine, inputParams.rs1, true, 32) >> amount, 32);
+}
+
+function addw(machine: Machine, inputParams: InstructionInput): void {
+  const sum: bigint = machine.getRegister(inputParams.rs1) + machine.getRegister(inputParams.rs2);
+  setRegisterFromBigInt(machine, inputParams.rd, sum, 32);
+}
+
+function subw(machine: Machine, inputParams: InstructionInput): void {
+  const difference: bigint = machine.getRegister(inputParams.rs1) - machine.getRegister(inputParams.rs2);
+  setRegisterFromBigInt(machine, inputParams.rd, difference, 32);
+}
+
+function sllw(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(machine.getRegister(inputParams.rs2), 32);
+  setRegisterFromBigInt(machine, inputParams.rd, machine.getRegister(inputParams.rs1) << amount, 32);
+}
+
+function srlw(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(machine.getRegister(inputParams.rs2), 32);
+  setRegisterFromBigInt(machine, inputParams.rd, registerAsBigInt(machine, inputParams.rs1, false, 32) >> amount, 32);
+}
+
+function sraw(machine: Machine, inputParams: InstructionInput): void {
+  const amount: bigint = shiftAmount(machine.getRegister(inputParams.rs2), 32);
+  setRegisterFromBigInt(machine, inputParams.rd, registerAsBigInt(machine, inputParams.rs1, true, 32) >> amount, 32);
+}
+
+// The M extension's products need up to 2 * XLEN bits, which BigInts hold exactly
+function multiplyHigh(machine: Machine, inputParams: InstructionInput, rs1Signed: boolean, rs2Signed: boolean): void {
+  /**
+   * Multiplies two registers, each treated as signed or unsigned, and keeps the
+   * upper XLEN bits of the 2 * XLEN bit product.
+   */
+  const product: bigint = registerAsBigInt(machine, inputParams.rs1, rs1Signed)
+    * registerAsBigInt(machine, inputParams.rs2, rs2Signed);
+  setRegisterFromBigInt(machine, inputParams.rd, product >> BigInt(XLEN));
+}
+
+function mul(machine: Machine, inputParams: InstructionInput): void {
+  // The lower half of the product is the same whether the registers are signed or not
+  const product: bigint = machine.getRegister(inputParams.rs1) * machine.getRegister(inputParams.rs2);
+  setRegisterFromBigInt(machine, inputParams.rd, product);
+}
+
+function mulh(machine: Machine, inputParams: InstructionInput): void {
+  multiplyHigh(machine, inputParams, true, true);
+}
+
+function mulhsu(machine: Machine, inputParams: InstructionInput): void {
+  multiplyHigh(machine, inputParams, true, false);
+}
+
+function mulhu(machine: Machine, inputParams: InstructionInput): void {
+  multiplyHigh(machine, inputParams, false, false);
+}
+
+function divide(
+  machine: Machine,
+  inputParams: InstructionInput,
+  signed: boolean,
+  remainder: boolean,
+  width: number = XLEN,
+): void {
+  /**
+   * Divides rs1 by rs2, rounding towards zero, and keeps the quotient or the
+   * remainder, which takes the sign of the dividend.
+   *
+   * Division never traps. Dividing by zero gives a quotient with every bit set
+   * and a remainder equal to the dividend, and the signed division of -2^31 by
+   * -1, whose quotient 2^31 doesn't fit, gives -2^31 with a remainder of 0
+   * (and likewise for -2^63 in RV64I, or the word instructions' -2^31).
+   */
+  const dividend: bigint = registerAsBigInt(machine, inputParams.rs1, signed, width);
+  const divisor: bigint = registerAsBigInt(machine, inputParams.rs2, signed, width);
+  if (divisor == BigInt(0)) {
+    setRegisterFromBigInt(machine, inputParams.rd, remainder ? dividend : BigInt(-1), width);
   } else {
-    setRegister(
-      inputParams.rd,
-      (zeroExtend("1", rs2TruncatedVal) + getValueInRegister(inputParams.rs1)!).substring(0, XLEN),
+    // An overflowing quotient of 2^31 wraps around to -2^31 when it is truncated
+    setRegisterFromBigInt(machine, inputParams.rd, remainder ? dividend % divisor : dividend / divisor, width);
+  }
+}
+
+function div(machine: Machine, inputParams: InstructionInput): void {
+  divide(machine, inputParams, true, false);
+}
+
+function divu(machine: Machine, inputParams: InstructionInput): void {
+  divide(machine, inputParams, false, false);
+}
+
+function rem(machine: Machine, inputParams: InstructionInput): void {
+  divide(machine, inputParams, true, true);
+}
+
+function remu(machine: Machine, inputParams: InstructionInput): void {
+  divide(machine, inputParams, false, true);
+}
+
+function mulw(machine: Machine, inputParams: InstructionInput): void {
+  const product: bigint = registerAsBigInt(machine, inputParams.rs1, false, 32)
+    * registerAsBigInt(machine, inputParams.rs2, false, 32);
+  setRegisterFromBigInt(machine, inputParams.rd, product, 32);
+}
+
+function divw(machine: Machine, inputParams: InstructionInput): void {
+  divide(machine, inputParams, true, false, 32);
+}
+
+function divuw(machine: Machine, inputParams: InstructionInput): void {
+  divide(machine, inputParams, false, false, 32);
+}
+
+function remw(machine: Machine, inputParams: InstructionInput): void {
+  divide(machine, inputParams, true, true, 32);
+}
+
+function remuw(machine: Machine, inputParams: InstructionInput): void {
+  divide(machine, inputParams, false, true, 32);
+}
+
+function jumpTo(machine: Machine, target: bigint): void {
+  // A jump or taken branch to an address which isn't a whole instruction raises an exception instead
+  const targetAddress: number = Number(BigInt.asUintN(XLEN, target));
+  if (targetAddress % machine.instructionAlignment != 0) {
+    throw new Trap(
+      ExceptionCause.INSTRUCTION_ADDRESS_MISALIGNED,
+      `Jump target ${formatAddress(targetAddress)} is not aligned to ${machine.instructionAlignment} bytes.`,
+      targetAddress,
     );
   }
+  machine.setRegister("pc", target);
 }
 
-function jal(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-20);
-  setRegister(
-    inputParams.rd,
-    binaryAdd(
-      getValueInRegister("pc")!,
-      "100",
-      zeroExtend,
-    ),
+function setPcRelative(machine: Machine, offset: number): void {
+  jumpTo(machine, machine.getRegister("pc") + BigInt(offset));
+}
+
+function branchIf(machine: Machine, condition: boolean, offset: number): void {
+  /**
+   * Moves the pc to the branch target when the condition holds, and on to the
+   * next instruction otherwise.
+   *
+   * @param machine - The machine executing the branch
+   * @param condition - Whether the branch is taken
+   * @param offset - The byte offset of the branch target from the current pc
+   */
+  setPcRelative(machine, condition ? offset : machine.instructionLength);
+}
+
+function jal(machine: Machine, inputParams: InstructionInput): void {
+  const returnAddress: bigint = machine.getRegister("pc") + BigInt(machine.instructionLength);
+  setPcRelative(machine, inputParams.imm);
+  machine.setRegister(inputParams.rd, returnAddress);
+}
+
+
+function jalr(machine: Machine, inputParams: InstructionInput): void {
+  // the lowest bit of the target is always cleared
+  const target: bigint = (machine.getRegister(inputParams.rs1) + BigInt(inputParams.imm)) & ~ONE;
+  const returnAddress: bigint = machine.getRegister("pc") + BigInt(machine.instructionLength);
+  jumpTo(machine, target);
+  machine.setRegister(inputParams.rd, returnAddress);
+}
+
+function beq(machine: Machine, inputParams: InstructionInput): void {
+  branchIf(
+    machine,
+    machine.getRegister(inputParams.rs1) == machine.getRegister(inputParams.rs2),
+    inputParams.imm,
   );
-  setRegister(
-    "pc",
-    binaryAdd(
-      getValueInRegister("pc")!,
-      binaryAdd(immBin, immBin)
-    ),
+}
+
+function bne(machine: Machine, inputParams: InstructionInput): void {
+  branchIf(
+    machine,
+    machine.getRegister(inputParams.rs1) != machine.getRegister(inputParams.rs2),
+    inputParams.imm,
   );
 }
 
-function j(inputParams: InstructionInput): void {
-  inputParams.rd = "x0";
-  jal(inputParams);
+function blt(machine: Machine, inputParams: InstructionInput): void {
+  branchIf(
+    machine,
+    machine.getRegister(inputParams.rs1) < machine.getRegister(inputParams.rs2),
+    inputParams.imm,
+  );
 }
 
+function bltu(machine: Machine, inputParams: InstructionInput): void {
+  branchIf(
+    machine,
+    registerAsBigInt(machine, inputParams.rs1, false) < registerAsBigInt(machine, inputParams.rs2, false),
+    inputParams.imm,
+  );
+}
 
-function jalr(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  const result: string[] = binaryAdd(
-    immBin,
-    getValueInRegister(inputParams.rs1)!,
-  ).split("");
-  result[-1] = "0";
-  setRegister(
-    "pc",
-    binaryAdd(getValueInRegister("pc")!, result.join("")),
+function bge(machine: Machine, inputParams: InstructionInput): void {
+  branchIf(
+    machine,
+    machine.getRegister(inputParams.rs1) >= machine.getRegister(inputParams.rs2),
+    inputParams.imm,
   );
-  setRegister(
-    inputParams.rd,
-    binaryAdd(
-      getValueInRegister("pc")!,
-      "100",
-      zeroExtend,
-    ),
+}
+
+function bgeu(machine: Machine, inputParams: InstructionInput): void {
+  branchIf(
+    machine,
+    registerAsBigInt(machine, inputParams.rs1, false) >= registerAsBigInt(machine, inputParams.rs2, false),
+    inputParams.imm,
   );
 }
 
-function beq(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm, 12);
-  if (
-    getValueInRegister(inputParams.rs1)!
-    === getValueInRegister(inputParams.rs2)!
-  ) {
-    setRegister(
-      "pc",
-      binaryAdd(
-        getValueInRegister("pc")!,
-        binaryAdd(immBin, immBin) // jump in signed offest of 2 bytes
-      )
+function effectiveAddress(machine: Machine, inputParams: InstructionInput): number {
+  // The address wraps around at 2^XLEN; in RV64I, it may be far beyond the end of memory
+  return Number(BigInt.asUintN(XLEN, machine.getRegister(inputParams.rs1) + BigInt(inputParams.imm)));
+}
+
+function alignedAddress(machine: Machine, inputParams: InstructionInput, numBytes: number, load: boolean): number {
+  /**
+   * Works out the address of a load or store, which has to be a multiple of
+   * the number of bytes it accesses.
+   *
+   * @param machine - The machine executing the load or store
+   * @param inputParams - The instruction's operands
+   * @param numBytes - The number of bytes accessed
+   * @param load - Whether the instruction is a load rather than a store
+   * @returns The address
+   */
+  const address: number = effectiveAddress(machine, inputParams);
+  if (address % numBytes != 0) {
+    throw new Trap(
+      load ? ExceptionCause.LOAD_ADDRESS_MISALIGNED : ExceptionCause.STORE_ADDRESS_MISALIGNED,
+      `${load ? "Load" : "Store"} address ${formatAddress(address)} is not aligned to ${numBytes} bytes.`,
+      address,
     );
   }
+  return address;
 }
 
-function beqz(inputParams: InstructionInput): void {
-  inputParams.rs2 = "x0";
-  beq(inputParams);
+// Memory is read as unsigned values, which the signed loads sign-extend from their width
+function lw(machine: Machine, inputParams: InstructionInput): void {
+  setRegisterFromBigInt(machine, inputParams.rd, machine.loadFromMemory(alignedAddress(machine, inputParams, 4, true), 4), 32);
 }
 
-function bne(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm, 12);
-  if (
-    getValueInRegister(inputParams.rs1)!
-    !== getValueInRegister(inputParams.rs2)!
-  ) {
-    setRegister(
-      "pc",
-      binaryAdd(
-        getValueInRegister("pc")!,
-        binaryAdd(immBin, immBin) // jump in signed offest of 2 bytes
-      )
-    );
-  }
+function lh(machine: Machine, inputParams: InstructionInput): void {
+  setRegisterFromBigInt(machine, inputParams.rd, machine.loadFromMemory(alignedAddress(machine, inputParams, 2, true), 2), 16);
 }
 
-function bnez(inputParams: InstructionInput): void {
-  inputParams.rs2 = "x0";
-  bne(inputParams);
+function lhu(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.loadFromMemory(alignedAddress(machine, inputParams, 2, true), 2));
 }
 
-function blt(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm, 12);
-  if (
-    twosComplementToDecimal(inputParams.rs1)
-    < twosComplementToDecimal(inputParams.rs2)
-  ) {
-    setRegister(
-      "pc",
-      binaryAdd(
-        getValueInRegister("pc")!,
-        binaryAdd(immBin, immBin) // jump in signed offest of 2 bytes
-      )
-    );
-  }
+function lb(machine: Machine, inputParams: InstructionInput): void {
+  setRegisterFromBigInt(machine, inputParams.rd, machine.loadFromMemory(effectiveAddress(machine, inputParams), 1), 8);
 }
 
-function bgt(inputParams: InstructionInput): void {
-  const temp: string = inputParams.rs1;
-  inputParams.rs1 = inputParams.rs2;
-  inputParams.rs2 = temp;
-  blt(inputParams);
+function lbu(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.loadFromMemory(effectiveAddress(machine, inputParams), 1));
 }
 
-function bltz(inputParams: InstructionInput): void {
-  inputParams.rs2 = "x0";
-  blt(inputParams);
+function lwu(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.loadFromMemory(alignedAddress(machine, inputParams, 4, true), 4));
 }
 
-function bgtz(inputParams: InstructionInput): void {
-  inputParams.rs2 = inputParams.rs1;
-  inputParams.rs1 = "x0";
-  blt(inputParams);
+function ld(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, machine.loadFromMemory(alignedAddress(machine, inputParams, 8, true), 8));
 }
 
-function bltu(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm, 12);
-  if (
-    parseInt(inputParams.rs1, Base.BINARY)
-    < parseInt(inputParams.rs2, Base.BINARY)
-  ) {
-    setRegister(
-      "pc",
-      binaryAdd(
-        getValueInRegister("pc")!,
-        binaryAdd(immBin, immBin) // jump in signed offest of 2 bytes
-      )
-    );
-  }
+// Stores write the lowest bytes of rs2
+function sw(machine: Machine, inputParams: InstructionInput): void {
+  machine.storeToMemory(alignedAddress(machine, inputParams, 4, false), machine.getRegister(inputParams.rs2), 4);
 }
 
-function bgtu(inputParams: InstructionInput): void {
-  const temp: string = inputParams.rs1;
-  inputParams.rs1 = inputParams.rs2;
-  inputParams.rs2 = temp;
-  bltu(inputParams);
+function sd(machine: Machine, inputParams: InstructionInput): void {
+  machine.storeToMemory(alignedAddress(machine, inputParams, 8, false), machine.getRegister(inputParams.rs2), 8);
 }
 
-function bge(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm, 12);
-  if (
-    twosComplementToDecimal(inputParams.rs1)
-    >= twosComplementToDecimal(inputParams.rs2)
-  ) {
-    setRegister(
-      "pc",
-      binaryAdd(
-        getValueInRegister("pc")!,
-        binaryAdd(immBin, immBin) // jump in signed offest of 2 bytes
-      )
-    );
-  }
+function sh(machine: Machine, inputParams: InstructionInput): void {
+  machine.storeToMemory(alignedAddress(machine, inputParams, 2, false), machine.getRegister(inputParams.rs2), 2);
 }
 
-function ble(inputParams: InstructionInput): void {
-  const temp: string = inputParams.rs1;
-  inputParams.rs1 = inputParams.rs2;
-  inputParams.rs2 = temp;
-  bge(inputParams);
+function sb(machine: Machine, inputParams: InstructionInput): void {
+  machine.storeToMemory(effectiveAddress(machine, inputParams), machine.getRegister(inputParams.rs2), 1);
 }
 
-function blez(inputParams: InstructionInput): void {
-  inputParams.rs2 = inputParams.rs1;
-  inputParams.rs1 = "x0";
-  bge(inputParams);
+// The F extension's instructions work on the bits of their f registers, which floating-point.ts calculates with
+function floatRegisterBits(machine: Machine, reg: string): number {
+  return machine.getFloatRegister(reg);
 }
 
-function bgez(inputParams: InstructionInput): void {
-  inputParams.rs2 = "x0";
-  bge(inputParams);
+function roundingModeOf(machine: Machine, inputParams: InstructionInput): RoundingMode {
+  /**
+   * Finds the rounding mode an instruction rounds its result with: the mode in
+   * its rm field, or for DYNAMIC the mode in the frm field of fcsr.
+   */
+  const mode: number = inputParams.rm == RoundingMode.DYNAMIC ? machine.getCsr(CSR_FRM) : inputParams.rm;
+  if (!Array.from(ROUNDING_MODE_NAMES.values()).includes(mode) || mode == RoundingMode.DYNAMIC) {
+    throw new Trap(ExceptionCause.ILLEGAL_INSTRUCTION, `Rounding mode ${mode} is not a valid rounding mode.`);
+  }
+  return mode;
 }
 
-function bgeu(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  if (
-    parseInt(inputParams.rs1, Base.BINARY)
-    >= parseInt(inputParams.rs2, Base.BINARY)
-  ) {
-    setRegister(
-      "pc",
-      binaryAdd(
-        getValueInRegister("pc")!,
-        binaryAdd(immBin, immBin) // jump in signed offest of 2 bytes
-      )
-    );
+function raiseExceptionFlags(machine: Machine, flags: number): void {
+  // The flags accumulate until the program clears them
+  if ((machine.getCsr(CSR_FFLAGS) | flags) != machine.getCsr(CSR_FFLAGS)) {
+    machine.setCsr(CSR_FFLAGS, machine.getCsr(CSR_FFLAGS) | flags);
   }
 }
 
-function bleu(inputParams: InstructionInput): void {
-  const temp: string = inputParams.rs1;
-  inputParams.rs1 = inputParams.rs2;
-  inputParams.rs2 = temp;
-  bgeu(inputParams);
+function setFloatResult(machine: Machine, rd: string, result: FloatResult): void {
+  machine.setFloatRegister(rd, result.bits);
+  raiseExceptionFlags(machine, result.flags);
 }
 
-function lw(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  setRegister(
-    inputParams.rd,
-    memory.get(
-      parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY)
-      + twosComplementToDecimal(immBin)
-    )!
-  );
+function setIntegerResult(machine: Machine, rd: string, result: FloatResult): void {
+  // The 32-bit result is sign-extended in RV64I
+  setRegisterFromBigInt(machine, rd, BigInt(result.bits), 32);
+  raiseExceptionFlags(machine, result.flags);
 }
 
-function lh(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  setRegister(
-    inputParams.rd,
-    memory.get(
-      parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY)
-      + twosComplementToDecimal(immBin)
-    )!.slice(-16),
-    signExtend
-  );
+function flw(machine: Machine, inputParams: InstructionInput): void {
+  machine.setFloatRegister(inputParams.rd, Number(machine.loadFromMemory(alignedAddress(machine, inputParams, 4, true), 4)));
 }
 
-function lhu(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  setRegister(
-    inputParams.rd,
-    memory.get(
-      parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY)
-      + twosComplementToDecimal(immBin)
-    )!.slice(-16),
-    zeroExtend
+function fsw(machine: Machine, inputParams: InstructionInput): void {
+  machine.storeToMemory(
+    alignedAddress(machine, inputParams, 4, false),
+    BigInt(machine.getFloatRegister(inputParams.rs2)),
+    4,
   );
 }
 
-function lb(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  setRegister(
-    inputParams.rd,
-    memory.get(
-      parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY)
-      + twosComplementToDecimal(immBin)
-    )!.slice(-8),
-    signExtend
-  );
+function fadd_s(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, addSingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    roundingModeOf(machine, inputParams),
+  ));
 }
 
-function lbu(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  setRegister(
-    inputParams.rd,
-    memory.get(
-      parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY)
-      + twosComplementToDecimal(immBin)
-    )!.slice(-8),
-    zeroExtend
-  );
+function fsub_s(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, subtractSingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    roundingModeOf(machine, inputParams),
+  ));
 }
 
-function sw(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  memory.set(
-    parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY) + twosComplementToDecimal(immBin),
-    getValueInRegister(inputParams.rs2)!
-  );
+function fmul_s(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, multiplySingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    roundingModeOf(machine, inputParams),
+  ));
 }
 
-function sh(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  memory.set(
-    parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY) + twosComplementToDecimal(immBin),
-    memory.get(parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY) + twosComplementToDecimal(immBin))!.slice(0, 16)
-      + getValueInRegister(inputParams.rs2)!.slice(-16)
-  );
+function fdiv_s(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, divideSingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    roundingModeOf(machine, inputParams),
+  ));
 }
 
-function sb(inputParams: InstructionInput): void {
-  const immBin: string = decimalToTwosComplement(inputParams.imm).slice(-12);
-  memory.set(
-    parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY) + twosComplementToDecimal(immBin),
-    memory.get(parseInt(getValueInRegister(inputParams.rs1)!, Base.BINARY) + twosComplementToDecimal(immBin))!.slice(0, 24)
-      + getValueInRegister(inputParams.rs2)!.slice(-8)
-  );
-}
\ No newline at end of file
+function fsqrt_s(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, squareRootSingle(
+    floatRegisterBits(machine, inputParams.rs1),
+    roundingModeOf(machine, inputParams),
+  ));
+}
+
+function fusedMultiplyAddInto(
+  machine: Machine,
+  inputParams: InstructionInput,
+  negateProduct: boolean,
+  negateAddend: boolean,
+): void {
+  setFloatResult(machine, inputParams.rd, fusedMultiplyAdd(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    floatRegisterBits(machine, inputParams.rs3),
+    negateProduct,
+    negateAddend,
+    roundingModeOf(machine, inputParams),
+  ));
+}
+
+function fmadd_s(machine: Machine, inputParams: InstructionInput): void {
+  fusedMultiplyAddInto(machine, inputParams, false, false);
+}
+
+function fmsub_s(machine: Machine, inputParams: InstructionInput): void {
+  fusedMultiplyAddInto(machine, inputParams, false, true);
+}
+
+function fnmsub_s(machine: Machine, inputParams: InstructionInput): void {
+  fusedMultiplyAddInto(machine, inputParams, true, false);
+}
+
+function fnmadd_s(machine: Machine, inputParams: InstructionInput): void {
+  fusedMultiplyAddInto(machine, inputParams, true, true);
+}
+
+function injectSign(machine: Machine, inputParams: InstructionInput, sign: (sign1: number, sign2: number) => number): void {
+  // The sign injections give rs1 a sign worked out from the signs of rs1 and rs2, and never raise exceptions
+  const source1: number = machine.getFloatRegister(inputParams.rs1);
+  const source2: number = machine.getFloatRegister(inputParams.rs2);
+  machine.setFloatRegister(inputParams.rd, (sign(source1 >>> 31, source2 >>> 31) << 31) | (source1 & 0x7fffffff));
+}
+
+function fsgnj_s(machine: Machine, inputParams: InstructionInput): void {
+  injectSign(machine, inputParams, (sign1: number, sign2: number) => sign2);
+}
+
+function fsgnjn_s(machine: Machine, inputParams: InstructionInput): void {
+  injectSign(machine, inputParams, (sign1: number, sign2: number) => sign2 ^ 1);
+}
+
+function fsgnjx_s(machine: Machine, inputParams: InstructionInput): void {
+  injectSign(machine, inputParams, (sign1: number, sign2: number) => sign1 ^ sign2);
+}
+
+function fmin_s(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, minMaxSingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    false,
+  ));
+}
+
+function fmax_s(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, minMaxSingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    true,
+  ));
+}
+
+function fcvt_w_s(machine: Machine, inputParams: InstructionInput): void {
+  setIntegerResult(machine, inputParams.rd, singleToInteger(
+    floatRegisterBits(machine, inputParams.rs1),
+    true,
+    roundingModeOf(machine, inputParams),
+  ));
+}
+
+function fcvt_wu_s(machine: Machine, inputParams: InstructionInput): void {
+  setIntegerResult(machine, inputParams.rd, singleToInteger(
+    floatRegisterBits(machine, inputParams.rs1),
+    false,
+    roundingModeOf(machine, inputParams),
+  ));
+}
+
+function fcvt_s_w(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, integerToSingle(
+    Number(registerAsBigInt(machine, inputParams.rs1, true, 32)),
+    roundingModeOf(machine, inputParams),
+  ));
+}
+
+function fcvt_s_wu(machine: Machine, inputParams: InstructionInput): void {
+  setFloatResult(machine, inputParams.rd, integerToSingle(
+    Number(registerAsBigInt(machine, inputParams.rs1, false, 32)),
+    roundingModeOf(machine, inputParams),
+  ));
+}
+
+function fmv_x_w(machine: Machine, inputParams: InstructionInput): void {
+  setRegisterFromBigInt(machine, inputParams.rd, BigInt(machine.getFloatRegister(inputParams.rs1)), 32);
+}
+
+function fmv_w_x(machine: Machine, inputParams: InstructionInput): void {
+  machine.setFloatRegister(inputParams.rd, Number(registerAsBigInt(machine, inputParams.rs1, false, 32)));
+}
+
+function feq_s(machine: Machine, inputParams: InstructionInput): void {
+  setIntegerResult(machine, inputParams.rd, compareSingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    "eq",
+  ));
+}
+
+function flt_s(machine: Machine, inputParams: InstructionInput): void {
+  setIntegerResult(machine, inputParams.rd, compareSingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    "lt",
+  ));
+}
+
+function fle_s(machine: Machine, inputParams: InstructionInput): void {
+  setIntegerResult(machine, inputParams.rd, compareSingles(
+    floatRegisterBits(machine, inputParams.rs1),
+    floatRegisterBits(machine, inputParams.rs2),
+    "le",
+  ));
+}
+
+function fclass_s(machine: Machine, inputParams: InstructionInput): void {
+  machine.setRegister(inputParams.rd, BigInt(classifySingle(floatRegisterBits(machine, inputParams.rs1))));
+}